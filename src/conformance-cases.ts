@@ -0,0 +1,80 @@
+/**
+ * Hand-written well-formedness cases in the style of the W3C XML 1.0
+ * conformance tests. They are not taken from that suite and their ids are
+ * our own; each case cites the production or constraint of the XML 1.0
+ * specification it exercises.
+ */
+export interface ConformanceCase {
+  id: string;
+  /** Production or well-formedness constraint of XML 1.0 (Fifth Edition) */
+  section: string;
+  xml: string;
+  /** Error code strict parsing must report; absent for well-formed documents */
+  code?: string;
+}
+
+export const CONFORMANCE_CASES: ConformanceCase[] = [
+  // Well-formed documents strict parsing must accept
+  { id: 'wf-empty-root', section: '2.1 [1] document', xml: '<doc></doc>' },
+  { id: 'wf-declaration', section: '2.8 [23] XMLDecl', xml: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<doc/>' },
+  { id: 'wf-declaration-single-quotes', section: '2.8 [24] VersionInfo', xml: "<?xml version='1.0' encoding='ISO-8859-1'?><doc/>" },
+  { id: 'wf-byte-order-mark', section: '4.3.3 Character Encoding in Entities', xml: '\uFEFF<doc/>' },
+  { id: 'wf-misc', section: '2.8 [27] Misc', xml: '<!-- before --><?pi data?>\n<doc/>\n<!-- after --><?pi?>\n' },
+  { id: 'wf-names', section: '2.3 [5] Name', xml: '<doc:x a.b-c="1" _x="2" é·="3" กี="4"/>' },
+  { id: 'wf-astral-name', section: '2.3 [4] NameStartChar', xml: '<\u{10000}x/>' },
+  { id: 'wf-whitespace-in-tags', section: '3.1 [40] STag', xml: '<doc\n  a = "1"\n\tb=\'2\'\n></doc >' },
+  { id: 'wf-gt-in-attribute', section: '2.3 [10] AttValue', xml: '<doc a=">"/>' },
+  { id: 'wf-lt-reference-in-attribute', section: '3.1 WFC: No < in Attribute Values', xml: '<doc a="&#60;&lt;"/>' },
+  { id: 'wf-character-references', section: '4.1 [66] CharRef', xml: '<doc>&#65;&#x1F600;&#xD7FF;&#xE000;&#x10FFFF;</doc>' },
+  { id: 'wf-cdata', section: '2.7 [18] CDSect', xml: '<doc><![CDATA[<tag> & ]]]></doc>' },
+  { id: 'wf-brackets-in-text', section: '2.4 [14] CharData', xml: '<doc>]] ]></doc>' },
+  { id: 'wf-comment-dashes', section: '2.5 [15] Comment', xml: '<doc><!-- a - b --></doc>' },
+  { id: 'wf-pi-target-xml-prefix', section: '2.6 [17] PITarget', xml: '<doc><?xml-stylesheet href="a.css"?></doc>' },
+  { id: 'wf-internal-entity', section: '4.1 WFC: Entity Declared', xml: '<!DOCTYPE doc [<!ENTITY e "value">]><doc>&e;</doc>' },
+  { id: 'wf-external-subset-entity', section: '4.1 WFC: Entity Declared', xml: '<!DOCTYPE doc SYSTEM "doc.dtd"><doc>&declaredElsewhere;</doc>' },
+  { id: 'wf-empty-declaration', section: '3.2 [46] contentspec', xml: '<!DOCTYPE doc [<!ELEMENT doc (br)><!ELEMENT br EMPTY>]><doc><br/></doc>' },
+  { id: 'wf-any-declaration', section: '3.2 [46] contentspec', xml: '<!DOCTYPE doc [<!ELEMENT doc ANY>]><doc>text</doc>' },
+  { id: 'wf-keyword-before-whitespace', section: '3.2 [45] elementdecl', xml: '<!DOCTYPE doc [<!ELEMENT doc ANY >]><doc/>' },
+  { id: 'wf-entity-with-markup', section: '4.3.2 Well-Formed Parsed Entities', xml: '<!DOCTYPE doc [<!ENTITY e "<a>text</a>">]><doc>&e;</doc>' },
+
+  // Documents strict parsing must reject
+  { id: 'not-wf-duplicate-attribute', section: '3.1 WFC: Unique Att Spec', xml: '<doc a="1" a="2"/>', code: 'DUPLICATE_ATTRIBUTE' },
+  { id: 'not-wf-second-root', section: '2.1 [1] document', xml: '<doc/><doc/>', code: 'CONTENT_AFTER_ROOT' },
+  { id: 'not-wf-text-after-root', section: '2.1 [1] document', xml: '<doc/>text', code: 'CONTENT_AFTER_ROOT' },
+  { id: 'not-wf-unclosed-root', section: '2.1 [1] document', xml: '<doc><a></a>', code: 'UNCLOSED_ELEMENT' },
+  { id: 'not-wf-unclosed-child', section: '3 [39] element', xml: '<doc><a>', code: 'UNCLOSED_ELEMENT' },
+  { id: 'not-wf-mismatched-end-tag', section: '3 WFC: Element Type Match', xml: '<doc><a></b></doc>', code: 'MISMATCHED_END_TAG' },
+  { id: 'not-wf-unquoted-attribute', section: '2.3 [10] AttValue', xml: '<doc a=1/>', code: 'UNQUOTED_ATTRIBUTE_VALUE' },
+  { id: 'not-wf-no-root', section: '2.1 [1] document', xml: '', code: 'MISSING_ROOT_ELEMENT' },
+  { id: 'not-wf-comment-only', section: '2.1 [1] document', xml: '<!-- only a comment -->', code: 'MISSING_ROOT_ELEMENT' },
+  { id: 'not-wf-lt-in-attribute', section: '3.1 WFC: No < in Attribute Values', xml: '<doc a="<"/>', code: 'LT_IN_ATTRIBUTE_VALUE' },
+  { id: 'not-wf-control-character', section: '2.2 [2] Char', xml: '<doc>\u0001</doc>', code: 'INVALID_CHARACTER' },
+  { id: 'not-wf-noncharacter', section: '2.2 [2] Char', xml: '<doc a="\uFFFE"/>', code: 'INVALID_CHARACTER' },
+  { id: 'not-wf-lone-surrogate', section: '2.2 [2] Char', xml: '<doc>\uD800</doc>', code: 'INVALID_CHARACTER' },
+  { id: 'not-wf-null-reference', section: '4.1 WFC: Legal Character', xml: '<doc>&#0;</doc>', code: 'INVALID_CHARACTER_REFERENCE' },
+  { id: 'not-wf-surrogate-reference', section: '4.1 WFC: Legal Character', xml: '<doc>&#xD800;</doc>', code: 'INVALID_CHARACTER_REFERENCE' },
+  { id: 'not-wf-out-of-range-reference', section: '4.1 WFC: Legal Character', xml: '<doc>&#x110000;</doc>', code: 'INVALID_CHARACTER_REFERENCE' },
+  { id: 'not-wf-unterminated-reference', section: '4.1 [66] CharRef', xml: '<doc>&#x41</doc>', code: 'INVALID_REFERENCE' },
+  { id: 'not-wf-bare-ampersand', section: '2.4 [14] CharData', xml: '<doc>A & B</doc>', code: 'INVALID_REFERENCE' },
+  { id: 'not-wf-digit-name', section: '2.3 [4] NameStartChar', xml: '<1abc/>', code: 'INVALID_NAME' },
+  { id: 'not-wf-digit-attribute-name', section: '2.3 [4] NameStartChar', xml: '<doc 1a="x"/>', code: 'INVALID_NAME' },
+  { id: 'not-wf-hyphen-name', section: '2.3 [4] NameStartChar', xml: '<doc -a="x"/>', code: 'INVALID_NAME' },
+  { id: 'not-wf-undeclared-entity', section: '4.1 WFC: Entity Declared', xml: '<doc>&undeclared;</doc>', code: 'UNDEFINED_ENTITY' },
+  { id: 'not-wf-cdata-end-in-text', section: '2.4 [14] CharData', xml: '<doc>]]></doc>', code: 'CDATA_END_IN_TEXT' },
+  { id: 'not-wf-double-hyphen-comment', section: '2.5 [15] Comment', xml: '<!-- a -- b --><doc/>', code: 'INVALID_COMMENT' },
+  { id: 'not-wf-comment-ends-with-hyphen', section: '2.5 [15] Comment', xml: '<doc><!-- a ---></doc>', code: 'INVALID_COMMENT' },
+  { id: 'not-wf-reserved-pi-target', section: '2.6 [17] PITarget', xml: '<doc><?xml version="1.0"?></doc>', code: 'RESERVED_PI_TARGET' },
+  { id: 'not-wf-pi-without-space', section: '2.6 [16] PI', xml: '<doc><?pi"data"?></doc>', code: 'MISSING_WHITESPACE' },
+  { id: 'not-wf-late-declaration', section: '2.8 [22] prolog', xml: ' <?xml version="1.0"?><doc/>', code: 'INVALID_XML_DECLARATION' },
+  { id: 'not-wf-declaration-without-version', section: '2.8 [23] XMLDecl', xml: '<?xml encoding="UTF-8"?><doc/>', code: 'INVALID_XML_DECLARATION' },
+  { id: 'not-wf-declaration-order', section: '2.8 [23] XMLDecl', xml: '<?xml encoding="UTF-8" version="1.0"?><doc/>', code: 'INVALID_XML_DECLARATION' },
+  { id: 'not-wf-standalone-value', section: '2.9 [32] SDDecl', xml: '<?xml version="1.0" standalone="maybe"?><doc/>', code: 'INVALID_XML_DECLARATION' },
+  { id: 'not-wf-attributes-without-space', section: '3.1 [40] STag', xml: '<doc a="1"b="2"/>', code: 'MISSING_WHITESPACE' },
+  { id: 'not-wf-unbalanced-entity', section: '4.3.2 Well-Formed Parsed Entities', xml: '<!DOCTYPE doc [<!ENTITY e "<a>">]><doc>&e;</doc>', code: 'UNCLOSED_ELEMENT' },
+  { id: 'not-wf-unparsed-entity-reference', section: '4.1 WFC: Parsed Entity',
+    xml: '<!DOCTYPE doc [<!NOTATION gif SYSTEM "gif"><!ENTITY e SYSTEM "e.gif" NDATA gif>]><doc>&e;</doc>', code: 'INVALID_ENTITY_REFERENCE' },
+  { id: 'not-wf-recursive-entity', section: '4.1 WFC: No Recursion', xml: '<!DOCTYPE doc [<!ENTITY a "&a;">]><doc>&a;</doc>', code: 'RECURSIVE_ENTITY' },
+  { id: 'not-wf-unterminated-declaration', section: '3.2 [45] elementdecl', xml: '<!DOCTYPE doc [<!ELEMENT doc EMPTY]><doc/>', code: 'INVALID_DTD' },
+  { id: 'not-wf-markup-entity-in-attribute', section: '3.1 WFC: No < in Attribute Values',
+    xml: '<!DOCTYPE doc [<!ENTITY e "<">]><doc a="&e;"/>', code: 'INVALID_ENTITY_REFERENCE' }
+];
@@ -0,0 +1,260 @@
+import { XmlNode, XsdElement, XsdModelGroup, XsdParticle, XsdAny } from './types';
+
+export interface ContentModelMatch {
+  valid: boolean;
+  failedAt: number;
+  expected: XsdElement[];
+}
+
+/**
+ * Matches a sequence of child elements against a content model particle tree.
+ *
+ * The matcher simulates the content model as a nondeterministic automaton: for
+ * every particle it computes the set of child positions that can be reached
+ * after it, so repeated and optional particles never need backtracking.
+ */
+export class ContentModelMatcher {
+  private children: XmlNode[] = [];
+  private memo = new Map<XsdParticle, Map<number, Set<number>>>();
+  private furthest = 0;
+  private expectedAt = -1;
+  private expected: XsdElement[] = [];
+
+  constructor(
+    private matchesElement: (child: XmlNode, element: XsdElement) => boolean,
+    private matchesWildcard: (child: XmlNode, wildcard: XsdAny) => boolean = () => false
+  ) {}
+
+  match(group: XsdModelGroup, children: XmlNode[]): ContentModelMatch {
+    this.children = children;
+    this.memo = new Map();
+    this.furthest = 0;
+    this.expectedAt = -1;
+    this.expected = [];
+
+    const ends = this.matchRepeated(group, 0);
+    const valid = ends.has(children.length);
+
+    return {
+      valid,
+      failedAt: valid ? -1 : this.furthest,
+      expected: this.expectedAt === this.furthest ? this.expected : []
+    };
+  }
+
+  /**
+   * Finds an earlier child that took a different branch of the choice group
+   * the given child belongs to.
+   */
+  findChoiceConflict(group: XsdModelGroup, children: XmlNode[], index: number): XmlNode | undefined {
+    const choice = this.findInnermostChoice(group, children[index]);
+    if (!choice || choice.maxOccurs !== 1) {
+      return undefined;
+    }
+
+    const ownBranch = choice.particles.find(particle => this.containsMatch(particle, children[index]));
+    const otherBranches = choice.particles.filter(particle => particle !== ownBranch);
+
+    return children
+      .slice(0, index)
+      .reverse()
+      .find(child => otherBranches.some(particle => this.containsMatch(particle, child)));
+  }
+
+  /**
+   * How often an element declaration can occur in total, taking the
+   * repetition of every enclosing group into account.
+   */
+  maxOccurrences(particle: XsdParticle, element: XsdElement): number | 'unbounded' | undefined {
+    if (!('kind' in particle)) {
+      return particle === element ? particle.maxOccurs : undefined;
+    }
+
+    let total: number | 'unbounded' | undefined;
+    for (const inner of particle.particles) {
+      const occurrences = this.maxOccurrences(inner, element);
+      if (occurrences !== undefined) {
+        total = total === 'unbounded' || occurrences === 'unbounded' ? 'unbounded' : (total ?? 0) + occurrences;
+      }
+    }
+
+    if (total === undefined || total === 'unbounded' || particle.maxOccurs === 'unbounded') {
+      return total === undefined ? undefined : 'unbounded';
+    }
+    return total * particle.maxOccurs;
+  }
+
+  private matchRepeated(particle: XsdParticle, start: number): Set<number> {
+    const { minOccurs, maxOccurs } = particle;
+    const results = new Set<number>();
+    const seen = new Set<number>();
+
+    if (minOccurs === 0) {
+      results.add(start);
+    }
+
+    let current = new Set([start]);
+    for (let count = 1; current.size > 0 && (maxOccurs === 'unbounded' || count <= maxOccurs); count++) {
+      const next = new Set<number>();
+      for (const position of current) {
+        for (const end of this.matchOnce(particle, position)) {
+          // Once the minimum is met, positions already reached add nothing new
+          if (count < minOccurs || !seen.has(end)) {
+            next.add(end);
+          }
+        }
+      }
+
+      if (count >= minOccurs) {
+        next.forEach(position => {
+          results.add(position);
+          seen.add(position);
+        });
+      }
+      current = next;
+    }
+
+    return results;
+  }
+
+  private matchOnce(particle: XsdParticle, start: number): Set<number> {
+    let cache = this.memo.get(particle);
+    if (!cache) {
+      cache = new Map();
+      this.memo.set(particle, cache);
+    }
+
+    const cached = cache.get(start);
+    if (cached) {
+      return cached;
+    }
+
+    let ends: Set<number>;
+    if ('processContents' in particle) {
+      ends = this.matchWildcard(particle, start);
+    } else if (!('kind' in particle)) {
+      ends = this.matchElement(particle, start);
+    } else if (particle.kind === 'sequence') {
+      ends = this.matchSequence(particle, start);
+    } else if (particle.kind === 'choice') {
+      ends = this.matchChoice(particle, start);
+    } else {
+      ends = this.matchAll(particle, start);
+    }
+
+    cache.set(start, ends);
+    return ends;
+  }
+
+  private matchElement(element: XsdElement, start: number): Set<number> {
+    if (start < this.children.length && this.matchesElement(this.children[start], element)) {
+      this.furthest = Math.max(this.furthest, start + 1);
+      return new Set([start + 1]);
+    }
+
+    if (start > this.expectedAt) {
+      this.expectedAt = start;
+      this.expected = [];
+    }
+    if (start === this.expectedAt && !this.expected.includes(element)) {
+      this.expected.push(element);
+    }
+
+    return new Set();
+  }
+
+  private matchWildcard(wildcard: XsdAny, start: number): Set<number> {
+    if (start < this.children.length && this.matchesWildcard(this.children[start], wildcard)) {
+      this.furthest = Math.max(this.furthest, start + 1);
+      return new Set([start + 1]);
+    }
+    return new Set();
+  }
+
+  private matchSequence(group: XsdModelGroup, start: number): Set<number> {
+    let current = new Set([start]);
+
+    for (const particle of group.particles) {
+      const next = new Set<number>();
+      for (const position of current) {
+        this.matchRepeated(particle, position).forEach(end => next.add(end));
+      }
+      current = next;
+      if (current.size === 0) {
+        break;
+      }
+    }
+
+    return current;
+  }
+
+  private matchChoice(group: XsdModelGroup, start: number): Set<number> {
+    const ends = new Set<number>();
+
+    for (const particle of group.particles) {
+      this.matchRepeated(particle, start).forEach(end => ends.add(end));
+    }
+
+    return ends;
+  }
+
+  /**
+   * Each particle of an all group may appear at most once in any order, so
+   * the states track which of them have been used so far.
+   */
+  private matchAll(group: XsdModelGroup, start: number): Set<number> {
+    const particles = group.particles;
+    const ends = new Set<number>();
+    const visited = new Set<string>();
+    const queue: Array<{ position: number; used: boolean[] }> = [{ position: start, used: particles.map(() => false) }];
+
+    while (queue.length > 0) {
+      const state = queue.shift()!;
+      const stateKey = `${state.position}:${state.used.map(used => (used ? 1 : 0)).join('')}`;
+      if (visited.has(stateKey)) {
+        continue;
+      }
+      visited.add(stateKey);
+
+      if (particles.every((particle, index) => state.used[index] || particle.minOccurs === 0)) {
+        ends.add(state.position);
+      }
+
+      particles.forEach((particle, index) => {
+        if (state.used[index]) {
+          return;
+        }
+        for (const end of this.matchOnce(particle, state.position)) {
+          const used = [...state.used];
+          used[index] = true;
+          queue.push({ position: end, used });
+        }
+      });
+    }
+
+    return ends;
+  }
+
+  private findInnermostChoice(group: XsdModelGroup, child: XmlNode): XsdModelGroup | undefined {
+    for (const particle of group.particles) {
+      if ('kind' in particle && this.containsMatch(particle, child)) {
+        const innerChoice = this.findInnermostChoice(particle, child);
+        if (innerChoice) {
+          return innerChoice;
+        }
+        break;
+      }
+    }
+    return group.kind === 'choice' && this.containsMatch(group, child) ? group : undefined;
+  }
+
+  private containsMatch(particle: XsdParticle, child: XmlNode): boolean {
+    if ('processContents' in particle) {
+      return this.matchesWildcard(child, particle);
+    }
+    if (!('kind' in particle)) {
+      return this.matchesElement(child, particle);
+    }
+    return particle.particles.some(inner => this.containsMatch(inner, child));
+  }
+}
@@ -0,0 +1,426 @@
+import { XmlDoctype, DtdEntity, DtdElementDeclaration, DtdContentParticle, DtdAttributeDeclaration, DtdAttributeType } from './types';
+import { NAME_CHARS } from './xsd-datatypes';
+
+const NAME_CHAR_PATTERN = new RegExp(`[:${NAME_CHARS}]`, 'u');
+const ATTRIBUTE_TYPES: DtdAttributeType[] = ['CDATA', 'ID', 'IDREF', 'IDREFS', 'ENTITY', 'ENTITIES', 'NMTOKEN', 'NMTOKENS'];
+
+export class DtdSyntaxError extends Error {
+  /**
+   * @param offset Position of the error within the internal subset
+   */
+  constructor(message: string, readonly code: string, readonly offset: number) {
+    super(message);
+    this.name = 'DtdSyntaxError';
+  }
+}
+
+/**
+ * Parses the internal subset of a document type declaration: entity,
+ * element, attribute list and notation declarations. Parameter entities are
+ * expanded where they appear between declarations.
+ */
+export class DtdParser {
+  private text = '';
+  private position = 0;
+  private parameterEntities: Record<string, string> = {};
+  /** Parameter entities being expanded, with the offset of their outermost reference */
+  private expanding: string[] = [];
+  private referenceOffset = 0;
+  private expansions = 0;
+
+  /**
+   * @param maxExpansions Most parameter entity references expanded, nested ones included
+   */
+  constructor(private readonly maxExpansions = 10000) {}
+
+  /**
+   * Adds the declarations of an internal subset to a document type. As in
+   * XML, the first declaration of an entity or attribute is binding.
+   */
+  parse(subset: string, doctype: XmlDoctype): void {
+    this.text = subset;
+    this.position = 0;
+    this.parameterEntities = {};
+    this.expanding = [];
+    this.expansions = 0;
+    this.parseDeclarations(doctype);
+  }
+
+  private parseDeclarations(doctype: XmlDoctype): void {
+    for (this.skipWhitespace(); this.position < this.text.length; this.skipWhitespace()) {
+      if (this.startsWith('<!--')) {
+        this.skipPast('-->', 'Unterminated comment');
+      } else if (this.startsWith('<?')) {
+        this.skipPast('?>', 'Unterminated processing instruction');
+      } else if (this.startsWithKeyword('<!ENTITY')) {
+        this.parseEntityDeclaration(doctype);
+      } else if (this.startsWithKeyword('<!ELEMENT')) {
+        this.parseElementDeclaration(doctype);
+      } else if (this.startsWithKeyword('<!ATTLIST')) {
+        this.parseAttributeListDeclaration(doctype);
+      } else if (this.startsWithKeyword('<!NOTATION')) {
+        this.skipDeclaration();
+      } else if (this.current() === '%') {
+        this.expandParameterEntity(doctype);
+      } else {
+        throw this.error(`Unexpected '${this.current()}' in the internal subset`);
+      }
+    }
+  }
+
+  private parseEntityDeclaration(doctype: XmlDoctype): void {
+    this.position += '<!ENTITY'.length;
+    this.requireWhitespace();
+
+    const parameter = this.current() === '%';
+    if (parameter) {
+      this.position++;
+      this.requireWhitespace();
+    }
+
+    const entity: DtdEntity = { name: this.parseName() };
+    this.requireWhitespace();
+
+    if (this.current() === '"' || this.current() === "'") {
+      const value = this.parseQuoted();
+      if (/%[^;\s]+;/.test(value)) {
+        throw this.error(`Entity '${entity.name}' uses a parameter entity reference, which the internal subset does not allow in entity values`);
+      }
+      entity.value = this.expandCharacterReferences(value);
+    } else {
+      Object.assign(entity, this.parseExternalId());
+      this.skipWhitespace();
+      if (!parameter && this.startsWithKeyword('NDATA')) {
+        this.position += 'NDATA'.length;
+        this.requireWhitespace();
+        entity.notation = this.parseName();
+      }
+    }
+
+    this.skipWhitespace();
+    this.expect('>');
+
+    if (parameter) {
+      // External parameter entities are never loaded
+      if (entity.value !== undefined && !(entity.name in this.parameterEntities)) {
+        this.parameterEntities[entity.name] = entity.value;
+      }
+    } else if (!(entity.name in doctype.entities)) {
+      doctype.entities[entity.name] = entity;
+    }
+  }
+
+  private parseExternalId(): { publicId?: string; systemId: string } {
+    if (this.startsWithKeyword('SYSTEM')) {
+      this.position += 'SYSTEM'.length;
+      this.requireWhitespace();
+      return { systemId: this.parseQuoted() };
+    }
+    if (this.startsWithKeyword('PUBLIC')) {
+      this.position += 'PUBLIC'.length;
+      this.requireWhitespace();
+      const publicId = this.parseQuoted();
+      this.requireWhitespace();
+      return { publicId, systemId: this.parseQuoted() };
+    }
+    throw this.error("Expected a quoted value, 'SYSTEM' or 'PUBLIC'");
+  }
+
+  private parseElementDeclaration(doctype: XmlDoctype): void {
+    this.position += '<!ELEMENT'.length;
+    this.requireWhitespace();
+    const name = this.parseName();
+    this.requireWhitespace();
+
+    const modelStart = this.position;
+    let declaration: Omit<DtdElementDeclaration, 'model'>;
+
+    if (this.startsWithKeyword('EMPTY')) {
+      this.position += 'EMPTY'.length;
+      declaration = { name, content: 'empty' };
+    } else if (this.startsWithKeyword('ANY')) {
+      this.position += 'ANY'.length;
+      declaration = { name, content: 'any' };
+    } else if (/^\(\s*#PCDATA/.test(this.text.substring(this.position, this.position + 64))) {
+      declaration = { name, content: 'mixed', names: this.parseMixedContent() };
+    } else if (this.current() === '(') {
+      declaration = { name, content: 'children', particle: this.parseContentParticle() };
+    } else {
+      throw this.error(`Expected EMPTY, ANY or a content model for element '${name}'`);
+    }
+
+    const model = this.text.substring(modelStart, this.position);
+    this.skipWhitespace();
+    this.expect('>');
+
+    if (!(name in doctype.elements)) {
+      doctype.elements[name] = { ...declaration, model };
+    }
+  }
+
+  /**
+   * Parses (#PCDATA) or (#PCDATA | a | b)*, returning the element names.
+   */
+  private parseMixedContent(): string[] {
+    this.expect('(');
+    this.skipWhitespace();
+    this.position += '#PCDATA'.length;
+
+    const names: string[] = [];
+    for (this.skipWhitespace(); this.current() !== ')'; this.skipWhitespace()) {
+      this.expect('|');
+      this.skipWhitespace();
+      names.push(this.parseName());
+    }
+    this.position++;
+
+    if (this.current() === '*') {
+      this.position++;
+    } else if (names.length > 0) {
+      throw this.error("Mixed content that names elements must end with ')*'");
+    }
+    return names;
+  }
+
+  private parseContentParticle(): DtdContentParticle {
+    if (this.current() !== '(') {
+      return { kind: 'name', name: this.parseName(), occurs: this.parseOccurs() };
+    }
+
+    this.position++;
+    this.skipWhitespace();
+    const particles = [this.parseContentParticle()];
+    let separator: string | undefined;
+
+    for (this.skipWhitespace(); this.current() !== ')'; this.skipWhitespace()) {
+      const current = this.current();
+      if ((current !== ',' && current !== '|') || (separator !== undefined && current !== separator)) {
+        throw this.error(`Expected '${separator ?? ','}' or ')' in a content model but found '${current}'`);
+      }
+      separator = current;
+      this.position++;
+      this.skipWhitespace();
+      particles.push(this.parseContentParticle());
+    }
+    this.position++;
+
+    return { kind: separator === '|' ? 'choice' : 'sequence', particles, occurs: this.parseOccurs() };
+  }
+
+  private parseOccurs(): DtdContentParticle['occurs'] {
+    const current = this.current();
+    if (current === '?' || current === '*' || current === '+') {
+      this.position++;
+      return current;
+    }
+    return '';
+  }
+
+  private parseAttributeListDeclaration(doctype: XmlDoctype): void {
+    this.position += '<!ATTLIST'.length;
+    this.requireWhitespace();
+    const elementName = this.parseName();
+    const declarations = doctype.attributeLists[elementName] ??= [];
+
+    for (this.skipWhitespace(); this.current() !== '>'; this.skipWhitespace()) {
+      const declaration = this.parseAttributeDeclaration();
+      if (!declarations.some(existing => existing.name === declaration.name)) {
+        declarations.push(declaration);
+      }
+    }
+    this.position++;
+  }
+
+  private parseAttributeDeclaration(): DtdAttributeDeclaration {
+    const name = this.parseName();
+    this.requireWhitespace();
+
+    let declaration: DtdAttributeDeclaration;
+    if (this.current() === '(') {
+      declaration = { name, type: 'enumeration', values: this.parseEnumeration(), defaultType: 'implied' };
+    } else {
+      const type = this.parseName();
+      if (type === 'NOTATION') {
+        this.requireWhitespace();
+        declaration = { name, type, values: this.parseEnumeration(), defaultType: 'implied' };
+      } else if (ATTRIBUTE_TYPES.includes(type as DtdAttributeType)) {
+        declaration = { name, type: type as DtdAttributeType, defaultType: 'implied' };
+      } else {
+        throw this.error(`Unknown attribute type '${type}' for attribute '${name}'`);
+      }
+    }
+
+    this.requireWhitespace();
+    if (this.startsWith('#REQUIRED')) {
+      this.position += '#REQUIRED'.length;
+      declaration.defaultType = 'required';
+    } else if (this.startsWith('#IMPLIED')) {
+      this.position += '#IMPLIED'.length;
+    } else {
+      if (this.startsWith('#FIXED')) {
+        this.position += '#FIXED'.length;
+        this.requireWhitespace();
+        declaration.defaultType = 'fixed';
+      } else {
+        declaration.defaultType = 'default';
+      }
+      const value = this.parseQuoted();
+      if (value.includes('<')) {
+        throw this.error(`Default value of attribute '${name}' must not contain '<'`);
+      }
+      declaration.defaultValue = this.expandCharacterReferences(value);
+    }
+
+    return declaration;
+  }
+
+  private parseEnumeration(): string[] {
+    this.expect('(');
+    const values: string[] = [];
+
+    do {
+      this.skipWhitespace();
+      values.push(this.parseName(true));
+      this.skipWhitespace();
+    } while (this.current() === '|' && ++this.position);
+
+    this.expect(')');
+    return values;
+  }
+
+  /**
+   * Parses the declarations in a parameter entity's replacement text as if
+   * they were written in place of the reference.
+   */
+  private expandParameterEntity(doctype: XmlDoctype): void {
+    const referenceStart = this.position;
+    this.position++;
+    const name = this.parseName();
+    this.expect(';');
+
+    const value = this.parameterEntities[name];
+    if (value === undefined) {
+      throw this.error(`Parameter entity '%${name};' is not declared`, 'UNDEFINED_ENTITY', referenceStart);
+    }
+    if (this.expanding.includes(name)) {
+      throw this.error(`Parameter entity '%${name};' refers to itself`, 'RECURSIVE_ENTITY', referenceStart);
+    }
+    if (++this.expansions > this.maxExpansions) {
+      throw this.error(`Entity expansion limit exceeded while expanding '%${name};'`, 'ENTITY_EXPANSION_LIMIT', referenceStart);
+    }
+
+    const { text, position } = this;
+    if (this.expanding.length === 0) {
+      this.referenceOffset = referenceStart;
+    }
+    this.expanding.push(name);
+    this.text = value;
+    this.position = 0;
+    try {
+      this.parseDeclarations(doctype);
+    } finally {
+      this.expanding.pop();
+      this.text = text;
+      this.position = position;
+    }
+  }
+
+  private expandCharacterReferences(value: string): string {
+    return value.replace(/&#(x[0-9a-fA-F]+|[0-9]+);/g, (reference, code: string) => {
+      const codePoint = code.startsWith('x') ? parseInt(code.substring(1), 16) : parseInt(code, 10);
+      if (codePoint > 0x10FFFF) {
+        throw this.error(`Character reference '${reference}' is out of range`);
+      }
+      return String.fromCodePoint(codePoint);
+    });
+  }
+
+  private parseName(allowNameToken = false): string {
+    const pattern = allowNameToken ? /^[\p{L}\p{N}_:.\-·]+/u : /^[\p{L}_:][\p{L}\p{N}_:.\-·]*/u;
+    const match = pattern.exec(this.text.substring(this.position, this.position + 1024));
+    if (!match) {
+      throw this.error(`Expected a name but found '${this.current() || 'the end of the internal subset'}'`);
+    }
+    this.position += match[0].length;
+    return match[0];
+  }
+
+  private parseQuoted(): string {
+    const quote = this.current();
+    if (quote !== '"' && quote !== "'") {
+      throw this.error(`Expected a quoted value but found '${quote}'`);
+    }
+    const end = this.text.indexOf(quote, this.position + 1);
+    if (end === -1) {
+      throw this.error('Unterminated quoted value');
+    }
+    const value = this.text.substring(this.position + 1, end);
+    this.position = end + 1;
+    return value;
+  }
+
+  /**
+   * Skips a declaration that is not recorded, minding '>' inside quotes.
+   */
+  private skipDeclaration(): void {
+    while (this.position < this.text.length && this.current() !== '>') {
+      if (this.current() === '"' || this.current() === "'") {
+        this.parseQuoted();
+      } else {
+        this.position++;
+      }
+    }
+    this.expect('>');
+  }
+
+  private skipPast(terminator: string, message: string): void {
+    const end = this.text.indexOf(terminator, this.position);
+    if (end === -1) {
+      throw this.error(message);
+    }
+    this.position = end + terminator.length;
+  }
+
+  private skipWhitespace(): void {
+    while (/[ \t\r\n]/.test(this.current())) {
+      this.position++;
+    }
+  }
+
+  private requireWhitespace(): void {
+    if (!/[ \t\r\n]/.test(this.current())) {
+      throw this.error(`Expected whitespace but found '${this.current() || 'the end of the internal subset'}'`);
+    }
+    this.skipWhitespace();
+  }
+
+  private expect(char: string): void {
+    if (this.current() !== char) {
+      throw this.error(`Expected '${char}' but found '${this.current() || 'the end of the internal subset'}'`);
+    }
+    this.position++;
+  }
+
+  private startsWith(text: string): boolean {
+    return this.text.startsWith(text, this.position);
+  }
+
+  /**
+   * Keywords end where a name could not go on, as in EMPTY> or ANY].
+   */
+  private startsWithKeyword(keyword: string): boolean {
+    return this.startsWith(keyword) && !NAME_CHAR_PATTERN.test(this.text[this.position + keyword.length] ?? '');
+  }
+
+  private current(): string {
+    return this.text[this.position] ?? '';
+  }
+
+  /**
+   * Errors inside parameter entity replacement text are reported at the
+   * outermost reference.
+   */
+  private error(message: string, code = 'INVALID_DTD', offset = this.position): DtdSyntaxError {
+    return new DtdSyntaxError(message, code, this.expanding.length > 0 ? this.referenceOffset : offset);
+  }
+}
@@ -0,0 +1,220 @@
+import { XmlNode, XmlLocation, XmlDoctype, DtdElementDeclaration, DtdContentParticle, DtdAttributeDeclaration, ValidationError } from './types';
+import { isElementNode } from './xml-parser';
+import { XsdDatatypes } from './xsd-datatypes';
+
+/**
+ * Validates a document against the declarations of its internal DTD subset.
+ * Elements and attributes are matched by their qualified names as written,
+ * since DTDs know nothing of namespaces.
+ */
+export class DtdValidator {
+  private errors: ValidationError[] = [];
+  private datatypes = new XsdDatatypes();
+  private ids = new Set<string>();
+  private idReferences: { value: string; location?: XmlLocation }[] = [];
+  private contentPatterns = new Map<DtdElementDeclaration, RegExp>();
+
+  constructor(private readonly doctype: XmlDoctype) {}
+
+  validate(root: XmlNode): ValidationError[] {
+    this.errors = [];
+    this.ids = new Set();
+    this.idReferences = [];
+
+    if (root.name !== this.doctype.name) {
+      this.addError(root.location, `Root element '${root.name}' does not match the document type '${this.doctype.name}'`, 'DTD_ROOT_MISMATCH');
+    }
+
+    this.validateElement(root);
+
+    // IDREFs may point forward, so they are checked once every ID is known
+    for (const reference of this.idReferences) {
+      if (!this.ids.has(reference.value)) {
+        this.addError(reference.location, `No element has the ID '${reference.value}'`, 'IDREF_NOT_FOUND');
+      }
+    }
+
+    return this.errors;
+  }
+
+  private validateElement(node: XmlNode): void {
+    const declaration = this.doctype.elements[node.name];
+    if (!declaration) {
+      this.addError(node.location, `Element '${node.name}' is not declared in the DTD`, 'UNDECLARED_ELEMENT');
+    } else {
+      this.validateContent(node, declaration);
+    }
+
+    this.validateAttributes(node);
+    node.children.filter(isElementNode).forEach(child => this.validateElement(child));
+  }
+
+  private validateContent(node: XmlNode, declaration: DtdElementDeclaration): void {
+    const childElements = node.children.filter(isElementNode);
+    const hasText = (node.text ?? '').trim() !== '' || node.children.some(child => child.name === '#cdata-section' ||
+      (child.name === '#text' && child.text!.trim() !== ''));
+
+    switch (declaration.content) {
+      case 'any':
+        return;
+      case 'empty':
+        if (childElements.length > 0 || node.children.length > 0 || (node.text ?? '') !== '') {
+          this.addError(node.location, `Element '${node.name}' is declared EMPTY but has content`, 'INVALID_CONTENT');
+        }
+        return;
+      case 'mixed':
+        for (const child of childElements) {
+          if (!declaration.names!.includes(child.name)) {
+            this.addError(child.location, `Element '${child.name}' is not allowed in '${node.name}', which allows ${declaration.model}`, 'UNEXPECTED_ELEMENT');
+          }
+        }
+        return;
+      case 'children':
+        if (hasText) {
+          this.addError(node.textLocation ?? node.location, `Element '${node.name}' cannot contain text, its content is ${declaration.model}`, 'INVALID_CONTENT');
+        }
+        this.validateChildren(node, childElements, declaration);
+        return;
+    }
+  }
+
+  private validateChildren(node: XmlNode, childElements: XmlNode[], declaration: DtdElementDeclaration): void {
+    const names = this.collectNames(declaration.particle!);
+    const unexpected = childElements.find(child => !names.has(child.name));
+    if (unexpected) {
+      this.addError(unexpected.location, `Element '${unexpected.name}' is not allowed in '${node.name}', which allows ${declaration.model}`, 'UNEXPECTED_ELEMENT');
+      return;
+    }
+
+    const sequence = childElements.map(child => `${child.name},`).join('');
+    if (!this.getContentPattern(declaration).test(sequence)) {
+      const found = childElements.length > 0 ? `(${childElements.map(child => child.name).join(', ')})` : 'no elements';
+      this.addError(node.location, `Content of '${node.name}' must match ${declaration.model} but has ${found}`, 'INVALID_CONTENT');
+    }
+  }
+
+  /**
+   * Content models are matched as regular expressions over the child names,
+   * each followed by a comma.
+   */
+  private getContentPattern(declaration: DtdElementDeclaration): RegExp {
+    let pattern = this.contentPatterns.get(declaration);
+    if (!pattern) {
+      pattern = new RegExp(`^${this.toPattern(declaration.particle!)}$`, 'u');
+      this.contentPatterns.set(declaration, pattern);
+    }
+    return pattern;
+  }
+
+  private toPattern(particle: DtdContentParticle): string {
+    const body = particle.kind === 'name'
+      ? `${particle.name!.replace(/[.\-]/g, '\\$&')},`
+      : particle.particles!.map(child => this.toPattern(child)).join(particle.kind === 'choice' ? '|' : '');
+    return `(?:${body})${particle.occurs}`;
+  }
+
+  private collectNames(particle: DtdContentParticle, names = new Set<string>()): Set<string> {
+    if (particle.name !== undefined) {
+      names.add(particle.name);
+    }
+    particle.particles?.forEach(child => this.collectNames(child, names));
+    return names;
+  }
+
+  private validateAttributes(node: XmlNode): void {
+    const declarations = this.doctype.attributeLists[node.name] ?? [];
+
+    for (const declaration of declarations) {
+      const value = node.attributes[declaration.name];
+      if (value === undefined) {
+        if (declaration.defaultType === 'required') {
+          this.addError(node.location, `Required attribute '${declaration.name}' is missing on '${node.name}'`, 'MISSING_REQUIRED_ATTRIBUTE');
+        }
+        continue;
+      }
+      this.validateAttributeValue(node, declaration, value, node.attributeLocations?.[declaration.name] ?? node.location);
+    }
+
+    for (const attrName of Object.keys(node.attributes)) {
+      // Namespace declarations are allowed without being declared
+      if (attrName === 'xmlns' || attrName.startsWith('xmlns:') || attrName.startsWith('xml:')) {
+        continue;
+      }
+      if (!declarations.some(declaration => declaration.name === attrName)) {
+        this.addError(node.attributeLocations?.[attrName] ?? node.location,
+          `Attribute '${attrName}' is not declared for '${node.name}'`, 'UNEXPECTED_ATTRIBUTE');
+      }
+    }
+  }
+
+  private validateAttributeValue(node: XmlNode, declaration: DtdAttributeDeclaration, value: string, location?: XmlLocation): void {
+    // Values of every type but CDATA are compared with their whitespace collapsed
+    const normalized = declaration.type === 'CDATA' ? value : value.trim().replace(/[ \t\r\n]+/g, ' ');
+    const tokens = normalized.split(' ');
+
+    if (declaration.defaultType === 'fixed' && normalized !== declaration.defaultValue) {
+      this.addError(location, `Attribute '${declaration.name}' must have the fixed value '${declaration.defaultValue}'`, 'FIXED_VALUE_VIOLATION');
+      return;
+    }
+
+    let valid: boolean;
+    switch (declaration.type) {
+      case 'CDATA':
+        return;
+      case 'ID':
+        valid = this.datatypes.validate(normalized, 'Name');
+        if (valid && this.ids.has(normalized)) {
+          this.addError(location, `ID '${normalized}' is used by more than one element`, 'DUPLICATE_ID');
+        }
+        this.ids.add(normalized);
+        break;
+      case 'IDREF':
+      case 'IDREFS':
+        valid = (declaration.type === 'IDREFS' || tokens.length === 1) && tokens.every(token => this.datatypes.validate(token, 'Name'));
+        if (valid) {
+          tokens.forEach(token => this.idReferences.push({ value: token, location }));
+        }
+        break;
+      case 'ENTITY':
+      case 'ENTITIES':
+        valid = (declaration.type === 'ENTITIES' || tokens.length === 1) &&
+          tokens.every(token => this.doctype.entities[token]?.notation !== undefined);
+        break;
+      case 'NMTOKEN':
+        valid = this.datatypes.validate(normalized, 'NMTOKEN');
+        break;
+      case 'NMTOKENS':
+        valid = tokens.every(token => this.datatypes.validate(token, 'NMTOKEN'));
+        break;
+      case 'NOTATION':
+      case 'enumeration':
+        valid = declaration.values!.includes(normalized);
+        break;
+    }
+
+    if (!valid) {
+      this.addError(location, `Value '${value}' of attribute '${declaration.name}' on '${node.name}' is not a valid ${this.describeType(declaration)}`,
+        'INVALID_ATTRIBUTE_VALUE');
+    }
+  }
+
+  private describeType(declaration: DtdAttributeDeclaration): string {
+    switch (declaration.type) {
+      case 'enumeration':
+        return `choice of (${declaration.values!.join('|')})`;
+      case 'ENTITY':
+      case 'ENTITIES':
+        return `${declaration.type} (unparsed entity names)`;
+      case 'NOTATION':
+        return `NOTATION (${declaration.values!.join('|')})`;
+      default:
+        return declaration.type;
+    }
+  }
+
+  private addError(location: XmlLocation | undefined, message: string, code: string): void {
+    const line = location ? location.start.line : 1;
+    const column = location ? location.start.column : 1;
+    this.errors.push({ line, column, message, code });
+  }
+}
@@ -1,19 +1,29 @@
 import { XmlParser } from './xml-parser';
 import { XsdParser } from './xsd-parser';
 import { XmlValidator } from './xml-validator';
+import { DtdValidator } from './dtd-validator';
 import { XmlToJsonConverter } from './xml-to-json';
 import { JsonToXmlConverter } from './json-to-xml';
+import { XmlToJsonStream } from './xml-to-json-stream';
+import { JsonToXmlStream } from './json-to-xml-stream';
 import { 
   ValidationError, 
   XmlParseResult, 
   XmlToJsonOptions, 
   JsonToXmlOptions,
   XsdSchema,
-  XmlNode 
+  XmlNode,
+  XmlParserOptions,
+  XsdSchemaDocument,
+  XsdSchemaResolver,
+  XmlToJsonStreamOptions,
+  JsonToXmlStreamOptions
 } from './types';
 
 export class XmlHelper {
   private xmlParser = new XmlParser();
+  private namespaceAwareParser = new XmlParser({ namespaceAware: true });
+  private whitespacePreservingParser = new XmlParser({ whitespace: 'preserve' });
   private xsdParser = new XsdParser();
   private schema: XsdSchema | null = null;
   private validator: XmlValidator | null = null;
@@ -21,11 +31,24 @@ export class XmlHelper {
   /**
    * Load and parse an XSD schema
    * @param xsdContent The XSD schema content as string
+   * @param resolver Loads documents referenced by include, import and redefine
    * @returns Array of validation errors if any
    */
-  loadSchema(xsdContent: string): ValidationError[] {
-    const { schema, errors } = this.xsdParser.parseSchema(xsdContent);
-    
+  loadSchema(xsdContent: string, resolver?: XsdSchemaResolver): ValidationError[] {
+    return this.useSchema(this.xsdParser.parseSchema(xsdContent, resolver));
+  }
+
+  /**
+   * Load several XSD documents as one schema
+   * @param documents The schema documents; the first one determines the target namespace
+   * @param resolver Loads documents referenced by include, import and redefine
+   * @returns Array of validation errors if any
+   */
+  loadSchemaSet(documents: XsdSchemaDocument[], resolver?: XsdSchemaResolver): ValidationError[] {
+    return this.useSchema(this.xsdParser.parseSchemaSet(documents, resolver));
+  }
+
+  private useSchema({ schema, errors }: { schema: XsdSchema | null; errors: ValidationError[] }): ValidationError[] {
     if (schema && errors.length === 0) {
       this.schema = schema;
       this.validator = new XmlValidator(schema);
@@ -49,7 +72,7 @@ export class XmlHelper {
       }];
     }
 
-    const { node, errors } = this.xmlParser.parse(xmlContent);
+    const { node, errors } = this.namespaceAwareParser.parse(xmlContent);
     
     if (errors.length > 0) {
       return errors;
@@ -68,6 +91,48 @@ export class XmlHelper {
     return validationErrors;
   }
 
+  /**
+   * Validate XML against the loaded schema and return the annotated tree
+   * @param xmlContent The XML content to validate
+   * @returns The tree with schema types, typed values and defaults filled in, and any validation errors
+   */
+  annotateXml(xmlContent: string): { node: XmlNode | null; errors: ValidationError[] } {
+    if (!this.schema) {
+      return { node: null, errors: this.validateXml(xmlContent) };
+    }
+
+    const { node, errors } = this.namespaceAwareParser.parse(xmlContent);
+    if (errors.length > 0 || !node) {
+      return { node: null, errors };
+    }
+
+    const validator = new XmlValidator(this.schema, { annotate: true });
+    return { node, errors: validator.validate(node) };
+  }
+
+  /**
+   * Validate XML against the DTD in its document type declaration
+   * @param xmlContent The XML content to validate
+   * @returns Array of validation errors with line numbers
+   */
+  validateDtd(xmlContent: string): ValidationError[] {
+    const { node, errors } = this.xmlParser.parse(xmlContent);
+    if (errors.length > 0 || !node) {
+      return errors;
+    }
+
+    if (!node.doctype) {
+      return [{
+        line: 1,
+        column: 1,
+        message: 'The document has no document type declaration',
+        code: 'NO_DTD'
+      }];
+    }
+
+    return new DtdValidator(node.doctype).validate(node);
+  }
+
   /**
    * Parse XML to JSON object
    * @param xmlContent The XML content to parse
@@ -75,14 +140,19 @@ export class XmlHelper {
    * @returns Parsed JSON object or null if parsing failed
    */
   xmlToJson(xmlContent: string, options?: XmlToJsonOptions): XmlParseResult {
-    const { node, errors } = this.xmlParser.parse(xmlContent);
+    const schema = options?.useSchema ? this.schema ?? undefined : undefined;
+    // The ordered form is lossless, so it keeps whitespace between elements too
+    const parser = schema
+      ? this.namespaceAwareParser
+      : options?.format === 'ordered' ? this.whitespacePreservingParser : this.xmlParser;
+    const { node, errors } = parser.parse(xmlContent);
     
     if (errors.length > 0 || !node) {
       return { success: false, errors };
     }
 
     try {
-      const converter = new XmlToJsonConverter(options);
+      const converter = new XmlToJsonConverter(options, schema);
       const jsonData = converter.convert(node);
       
       return {
@@ -115,13 +185,34 @@ export class XmlHelper {
     return converter.convert(jsonData, rootElement);
   }
 
+  /**
+   * Create a stream that converts XML bytes to one JSON object per record element
+   * @param options Options for the conversion, including the record elements, e.g. { record: 'library/book' }
+   * @returns Transform stream to pipe XML into, e.g. from fs.createReadStream
+   */
+  createXmlToJsonStream(options: XmlToJsonStreamOptions): XmlToJsonStream {
+    const schema = options.useSchema ? this.schema ?? undefined : undefined;
+    return new XmlToJsonStream(options, schema);
+  }
+
+  /**
+   * Create a stream that writes JSON records as the children of one root element
+   * @param options Options for JSON to XML conversion, including the record element name
+   * @returns Transform stream to write records to
+   */
+  createJsonToXmlStream(options?: JsonToXmlStreamOptions): JsonToXmlStream {
+    return new JsonToXmlStream(options);
+  }
+
   /**
    * Parse XML without validation (schema-free parsing)
    * @param xmlContent The XML content to parse
+   * @param options Options for XML parsing, e.g. namespace-aware mode
    * @returns Parsed XML node structure
    */
-  parseXml(xmlContent: string): { node: XmlNode | null; errors: ValidationError[] } {
-    return this.xmlParser.parse(xmlContent);
+  parseXml(xmlContent: string, options?: XmlParserOptions): { node: XmlNode | null; errors: ValidationError[] } {
+    const parser = options ? new XmlParser(options) : this.xmlParser;
+    return parser.parse(xmlContent);
   }
 
   /**
@@ -143,11 +234,18 @@ export class XmlHelper {
 
 // Export all types and classes for advanced usage
 export * from './types';
-export { XmlParser } from './xml-parser';
-export { XsdParser } from './xsd-parser';
-export { XmlValidator } from './xml-validator';
+export { XmlParser, XmlParseError, XML_NAMESPACE, XMLNS_NAMESPACE } from './xml-parser';
+export { XsdParser, XSD_NAMESPACE } from './xsd-parser';
+export { XsdDatatypes, XSD_BUILT_IN_TYPES } from './xsd-datatypes';
+export { XmlValidator, XSI_NAMESPACE } from './xml-validator';
+export { DtdParser, DtdSyntaxError } from './dtd-parser';
+export { DtdValidator } from './dtd-validator';
+export { SaxParser, SaxParserEvents } from './sax-parser';
+export { createMapSchemaResolver, createFileSystemSchemaResolver } from './schema-resolvers';
 export { XmlToJsonConverter } from './xml-to-json';
 export { JsonToXmlConverter } from './json-to-xml';
+export { XmlToJsonStream } from './xml-to-json-stream';
+export { JsonToXmlStream } from './json-to-xml-stream';
 
 // Export the main class as default
 export default XmlHelper;
@@ -0,0 +1,54 @@
+import { Transform, TransformCallback } from 'stream';
+import { JsonToXmlStreamOptions } from './types';
+import { JsonToXmlConverter } from './json-to-xml';
+
+/**
+ * Transform stream from JSON records to XML text. Each record is converted
+ * through JsonToXmlConverter and written as a child of the root element as
+ * soon as it arrives, so the document is never built as a whole.
+ */
+export class JsonToXmlStream extends Transform {
+  private converter: JsonToXmlConverter;
+  private options: Required<Pick<JsonToXmlStreamOptions, 'rootElement' | 'record' | 'declaration' | 'format'>>;
+  private started = false;
+
+  constructor(options: JsonToXmlStreamOptions = {}) {
+    super({ writableObjectMode: true });
+    this.converter = new JsonToXmlConverter(options);
+    this.options = {
+      rootElement: options.rootElement ?? 'root',
+      record: options.record ?? 'item',
+      declaration: options.declaration ?? true,
+      format: options.format ?? 'compact'
+    };
+  }
+
+  _transform(record: any, _encoding: BufferEncoding, callback: TransformCallback): void {
+    try {
+      this.start();
+      this.push(this.converter.convertElement(record, this.options.record, 1));
+      callback();
+    } catch (error) {
+      callback(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.start();
+    // The ordered form is canonical, without indentation
+    this.push(this.options.format === 'ordered' ? `</${this.options.rootElement}>` : `</${this.options.rootElement}>\n`);
+    callback();
+  }
+
+  /**
+   * Writes the XML declaration and the root start tag before the first record.
+   */
+  private start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    const declaration = this.options.declaration ? '<?xml version="1.0" encoding="UTF-8"?>\n' : '';
+    this.push(`${declaration}<${this.options.rootElement}>${this.options.format === 'ordered' ? '' : '\n'}`);
+  }
+}
@@ -1,4 +1,4 @@
-import { JsonToXmlOptions } from './types';
+import { JsonToXmlOptions, OrderedJsonElement, OrderedJsonDocument } from './types';
 
 export class JsonToXmlConverter {
   private options: Required<JsonToXmlOptions>;
@@ -9,7 +9,11 @@ export class JsonToXmlConverter {
       textKey: options.textKey ?? '#text',
       rootElement: options.rootElement ?? 'root',
       declaration: options.declaration ?? true,
-      indent: options.indent ?? '  '
+      indent: options.indent ?? '  ',
+      format: options.format ?? 'compact',
+      comments: options.comments ?? true,
+      processingInstructions: options.processingInstructions ?? true,
+      cdata: options.cdata ?? true
     };
   }
 
@@ -20,10 +24,127 @@ export class JsonToXmlConverter {
       xml += '<?xml version="1.0" encoding="UTF-8"?>\n';
     }
 
-    const root = rootElement || this.options.rootElement;
-    xml += this.objectToXml(jsonData, root, 0);
-    
-    return xml;
+    if (this.options.format === 'ordered' && Array.isArray(jsonData) && jsonData[0] === '#document') {
+      return xml + this.orderedDocumentToXml(jsonData as OrderedJsonDocument);
+    }
+    if (this.options.format === 'compact' && this.isAttributeObject(jsonData) && ('#prolog' in jsonData || '#epilog' in jsonData)) {
+      const { '#prolog': prolog = [], '#epilog': epilog = [], ...root } = jsonData as Record<string, any>;
+      return xml + this.topLevelMarkupToXml(prolog) +
+        this.convertElement(root, rootElement || this.options.rootElement) + this.topLevelMarkupToXml(epilog);
+    }
+    return xml + this.convertElement(jsonData, rootElement || this.options.rootElement);
+  }
+
+  /**
+   * Writes the [key, text] pairs of '#prolog' or '#epilog' in the compact
+   * form, one per line.
+   */
+  private topLevelMarkupToXml(entries: [string, string][]): string {
+    return entries
+      .map(([key, text]) => this.markupToXml(key, String(text), value => this.escapeXml(value)))
+      .filter(Boolean)
+      .map(markup => `${markup}\n`)
+      .join('');
+  }
+
+  /**
+   * Converts one element without the XML declaration. Elements of the
+   * ordered form carry their own name.
+   * @param depth Nesting depth the compact form is indented for
+   */
+  convertElement(jsonData: any, elementName: string, depth = 0): string {
+    return this.options.format === 'ordered'
+      ? this.orderedToXml(jsonData)
+      : this.objectToXml(jsonData, elementName, depth);
+  }
+
+  /**
+   * Writes an element of the ordered form in canonical style: no indentation,
+   * attributes in their given order and empty elements as start-end tag pairs.
+   */
+  private orderedToXml(element: OrderedJsonElement): string {
+    if (!Array.isArray(element) || typeof element[0] !== 'string') {
+      throw new Error('Ordered JSON elements must be arrays that start with the element name');
+    }
+
+    const [name, ...content] = element;
+    if (this.isMarkupKey(name)) {
+      return this.markupToXml(name, content.join(''), text => this.escapeCanonicalText(text));
+    }
+
+    let attributes = '';
+    if (content.length > 0 && this.isAttributeObject(content[0])) {
+      for (const [attrName, value] of Object.entries(content.shift()!)) {
+        attributes += ` ${attrName}="${this.escapeCanonicalAttribute(String(value))}"`;
+      }
+    }
+
+    if (content.some(item => this.isAttributeObject(item))) {
+      throw new Error(`Ordered JSON element '${name}' may only have an attribute object right after its name`);
+    }
+
+    const children = content
+      .filter(item => item !== null && item !== undefined)
+      .map(item => Array.isArray(item) ? this.orderedToXml(item) : this.escapeCanonicalText(String(item)))
+      .join('');
+    return `<${name}${attributes}>${children}</${name}>`;
+  }
+
+  /**
+   * Writes an ordered document as canonical XML does: each comment and
+   * processing instruction outside the root element on a line of its own.
+   */
+  private orderedDocumentToXml(document: OrderedJsonDocument): string {
+    const [, ...nodes] = document;
+    const rootIndex = nodes.findIndex(node => !this.isMarkupKey(node[0]));
+    if (rootIndex === -1 || nodes.slice(rootIndex + 1).some(node => !this.isMarkupKey(node[0]))) {
+      throw new Error('Ordered JSON documents must contain exactly one root element');
+    }
+
+    const markup = (node: OrderedJsonElement) => this.markupToXml(node[0], node.slice(1).join(''), text => this.escapeCanonicalText(text));
+    const prolog = nodes.slice(0, rootIndex).map(markup).filter(Boolean).map(item => `${item}\n`);
+    const epilog = nodes.slice(rootIndex + 1).map(markup).filter(Boolean).map(item => `\n${item}`);
+    return prolog.join('') + this.orderedToXml(nodes[rootIndex]) + epilog.join('');
+  }
+
+  private isMarkupKey(key: string): boolean {
+    return key === '#comment' || key === '#cdata-section' || key.startsWith('?');
+  }
+
+  /**
+   * Writes a comment, CDATA section or processing instruction entry, or
+   * nothing when the options drop it. Dropped CDATA is written as text.
+   */
+  private markupToXml(key: string, text: string, escapeText: (text: string) => string): string {
+    if (key === '#comment') {
+      return this.options.comments ? `<!--${text}-->` : '';
+    }
+    if (key === '#cdata-section') {
+      return this.options.cdata ? `<![CDATA[${text}]]>` : escapeText(text);
+    }
+    return this.options.processingInstructions ? `<?${key.substring(1)}${text ? ` ${text}` : ''}?>` : '';
+  }
+
+  private isAttributeObject(value: unknown): value is Record<string, string> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private escapeCanonicalText(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/\r/g, '&#xD;');
+  }
+
+  private escapeCanonicalAttribute(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/"/g, '&quot;')
+      .replace(/\t/g, '&#x9;')
+      .replace(/\n/g, '&#xA;')
+      .replace(/\r/g, '&#xD;');
   }
 
   private objectToXml(obj: any, elementName: string, depth: number): string {
@@ -77,7 +198,17 @@ export class JsonToXmlConverter {
         attributes += ` ${attrName}="${this.escapeXml(String(value))}"`;
         hasAttributes = true;
       } else if (key === this.options.textKey) {
-        textContent = String(value);
+        textContent += this.escapeXml(String(value));
+      } else if (key === '#cdata-section') {
+        textContent += this.toArray(value).map(item => this.markupToXml(key, String(item), text => this.escapeXml(text))).join('');
+      } else if (this.isMarkupKey(key)) {
+        const indent = this.options.indent.repeat(depth + 1);
+        for (const item of this.toArray(value)) {
+          const markup = this.markupToXml(key, String(item), text => this.escapeXml(text));
+          if (markup) {
+            childElements.push(`${indent}${markup}\n`);
+          }
+        }
       } else {
         this.addChildElements(value, key, depth, childElements);
       }
@@ -106,14 +237,14 @@ export class JsonToXmlConverter {
     const nextIndent = indent + this.options.indent;
 
     if (textContent && childElements.length === 0) {
-      return xml + this.escapeXml(textContent) + `</${elementName}>\n`;
+      return xml + textContent + `</${elementName}>\n`;
     }
     
     if (childElements.length > 0) {
       xml += '\n';
       
       if (textContent) {
-        xml += `${nextIndent}${this.escapeXml(textContent)}\n`;
+        xml += `${nextIndent}${textContent}\n`;
       }
       
       for (const childXml of childElements) {
@@ -129,6 +260,10 @@ export class JsonToXmlConverter {
       : xml.replace('>', '/>\n');
   }
 
+  private toArray(value: any): any[] {
+    return Array.isArray(value) ? value : [value];
+  }
+
   private isPrimitive(value: any): boolean {
     return value === null || 
            typeof value === 'string' || 
@@ -0,0 +1,156 @@
+import { XmlNode } from './types';
+import { XMLNS_NAMESPACE, isElementNode } from './xml-parser';
+
+export interface XPathMatch {
+  node: XmlNode;
+  /** Set when the match is an attribute of node rather than the node itself */
+  attribute?: string;
+}
+
+interface NameTest {
+  qname: string;
+  localName: string;
+  namespace?: string;
+  anyNamespace: boolean;
+}
+
+interface XPathStep {
+  axis: 'self' | 'child' | 'attribute';
+  test?: NameTest;
+}
+
+interface XPathPath {
+  descendant: boolean;
+  steps: XPathStep[];
+}
+
+const NCNAME = /^[\p{L}_][\p{L}\p{N}_.\-·]*$/u;
+
+export class XPathSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XPathSyntaxError';
+  }
+}
+
+/**
+ * Evaluates the XPath subset XML Schema allows in identity constraints:
+ * unions of child-axis paths that may start with ".//", and for fields a
+ * final attribute step.
+ */
+export class RestrictedXPath {
+  private paths: XPathPath[];
+
+  /**
+   * @param expression The selector or field expression
+   * @param namespaces Prefix bindings for name tests; unprefixed names have no namespace
+   * @param allowAttributes Whether the last step may select an attribute, as in fields
+   */
+  constructor(readonly expression: string, namespaces: Record<string, string> = {}, allowAttributes = false) {
+    this.paths = expression.split('|').map(path => this.parsePath(path.trim(), namespaces, allowAttributes));
+  }
+
+  /**
+   * Returns the matching nodes and attributes in document order.
+   */
+  evaluate(context: XmlNode): XPathMatch[] {
+    const matches: XPathMatch[] = [];
+    const seen = new Set<string>();
+    const order = new Map<XmlNode, number>();
+    this.collectDescendants(context).forEach((node, index) => order.set(node, index));
+
+    for (const path of this.paths) {
+      let current: XPathMatch[] = (path.descendant ? this.collectDescendants(context) : [context]).map(node => ({ node }));
+
+      for (const step of path.steps) {
+        current = current.flatMap(match => this.applyStep(match.node, step));
+      }
+
+      for (const match of current) {
+        const matchKey = `${order.get(match.node)}@${match.attribute ?? ''}`;
+        if (!seen.has(matchKey)) {
+          seen.add(matchKey);
+          matches.push(match);
+        }
+      }
+    }
+
+    return matches.sort((a, b) => (order.get(a.node) ?? 0) - (order.get(b.node) ?? 0));
+  }
+
+  private parsePath(path: string, namespaces: Record<string, string>, allowAttributes: boolean): XPathPath {
+    const descendant = path.startsWith('.//');
+    const stepTexts = (descendant ? path.substring(3) : path).split('/').map(step => step.trim());
+
+    const steps = stepTexts.map((stepText, index): XPathStep => {
+      if (stepText === '.') {
+        return { axis: 'self' };
+      }
+
+      const isAttribute = stepText.startsWith('@') || stepText.startsWith('attribute::');
+      if (isAttribute) {
+        if (!allowAttributes || index !== stepTexts.length - 1) {
+          throw new XPathSyntaxError(`Attribute step '${stepText}' is only allowed at the end of a field in '${this.expression}'`);
+        }
+        return { axis: 'attribute', test: this.parseNameTest(stepText.replace(/^(@|attribute::)/, '').trim(), namespaces) };
+      }
+
+      return { axis: 'child', test: this.parseNameTest(stepText.replace(/^child::/, '').trim(), namespaces) };
+    });
+
+    return { descendant, steps };
+  }
+
+  private parseNameTest(qname: string, namespaces: Record<string, string>): NameTest {
+    if (qname === '*') {
+      return { qname, localName: '*', anyNamespace: true };
+    }
+
+    const parts = qname.split(':');
+    const localName = parts[parts.length - 1];
+    const prefix = parts.length === 2 ? parts[0] : undefined;
+
+    if (parts.length > 2 || (prefix !== undefined && !NCNAME.test(prefix)) || (localName !== '*' && !NCNAME.test(localName))) {
+      throw new XPathSyntaxError(`'${qname}' is not a valid name test in '${this.expression}'`);
+    }
+    if (prefix !== undefined && namespaces[prefix] === undefined) {
+      throw new XPathSyntaxError(`Namespace prefix '${prefix}' in '${this.expression}' is not declared`);
+    }
+
+    return { qname, localName, namespace: prefix === undefined ? undefined : namespaces[prefix], anyNamespace: false };
+  }
+
+  private applyStep(node: XmlNode, step: XPathStep): XPathMatch[] {
+    switch (step.axis) {
+      case 'self':
+        return [{ node }];
+      case 'child':
+        return node.children
+          .filter(child => isElementNode(child) && this.matchesName(child.name, child.localName, child.namespace, step.test!))
+          .map(child => ({ node: child }));
+      case 'attribute':
+        return Object.keys(node.attributes)
+          .filter(attrName => {
+            const attrQName = node.attributeNames?.[attrName];
+            return attrQName?.namespace !== XMLNS_NAMESPACE &&
+              this.matchesName(attrName, attrQName?.localName, attrQName?.namespace, step.test!);
+          })
+          .map(attribute => ({ node, attribute }));
+    }
+  }
+
+  /**
+   * Trees parsed without namespace support only carry qualified names, which
+   * are compared with the name test as written.
+   */
+  private matchesName(name: string, localName: string | undefined, namespace: string | undefined, test: NameTest): boolean {
+    if (localName === undefined) {
+      return test.localName === '*' ? test.anyNamespace || name.startsWith(test.qname.slice(0, -1)) : name === test.qname;
+    }
+    return (test.anyNamespace || namespace === test.namespace) && (test.localName === '*' || localName === test.localName);
+  }
+
+  private collectDescendants(node: XmlNode): XmlNode[] {
+    return [node, ...node.children.filter(isElementNode).flatMap(child => this.collectDescendants(child))];
+  }
+}
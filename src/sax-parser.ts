@@ -0,0 +1,759 @@
+import { EventEmitter } from 'events';
+import { StringDecoder } from 'string_decoder';
+import {
+  XmlLocation,
+  XmlPosition,
+  XmlDoctype,
+  SaxParserOptions,
+  SaxStartElement,
+  SaxEndElement,
+  SaxCharacterData,
+  SaxProcessingInstruction
+} from './types';
+import {
+  NAME,
+  NAME_PATTERN,
+  LOOSE_REFERENCE_PATTERN,
+  XmlParseError,
+  ReferenceResolver,
+  checkCharacters,
+  checkXmlDeclaration,
+  checkComment,
+  checkProcessingInstructionTarget,
+  findSubsetEnd
+} from './xml-syntax';
+
+const REFERENCE_PATTERN = new RegExp(`&(#[^;<&\\s]*|${NAME});`, 'uy');
+const WHITESPACE_PATTERN = /[ \t\r\n]*/y;
+const DOCTYPE_PATTERN = new RegExp(
+  `<!DOCTYPE[ \\t\\r\\n]+(${NAME})(?:[ \\t\\r\\n]+(?:PUBLIC[ \\t\\r\\n]+("[^"]*"|'[^']*')[ \\t\\r\\n]+("[^"]*"|'[^']*')|SYSTEM[ \\t\\r\\n]+("[^"]*"|'[^']*')))?[ \\t\\r\\n]*`,
+  'uy'
+);
+
+/** Text longer than this is emitted before the markup that ends it arrives */
+const TEXT_FLUSH_SIZE = 64 * 1024;
+
+/**
+ * Reports an error by throwing it, as the first error ends parsing.
+ */
+function fail(error: XmlParseError): never {
+  throw error;
+}
+
+/**
+ * Events emitted by SaxParser, with their arguments.
+ */
+export interface SaxParserEvents {
+  startElement: [element: SaxStartElement];
+  endElement: [element: SaxEndElement];
+  text: [text: SaxCharacterData];
+  cdata: [cdata: SaxCharacterData];
+  comment: [comment: SaxCharacterData];
+  processingInstruction: [instruction: SaxProcessingInstruction];
+  doctype: [doctype: XmlDoctype];
+  /** The first well-formedness error; nothing is emitted after it */
+  error: [error: XmlParseError];
+  end: [];
+}
+
+/**
+ * Incremental, push-based XML parser. Chunks are written as they arrive and
+ * events are emitted for each piece of markup as soon as it is complete, so
+ * documents never have to be held in memory as a whole.
+ *
+ * Text is decoded but otherwise passed on as written, and may arrive in
+ * several text events. Internal DTD subsets are read for entities and
+ * attribute defaults; entities with markup emit the events of their
+ * replacement text, located at the reference.
+ */
+export class SaxParser extends EventEmitter<SaxParserEvents> {
+  private options: Required<SaxParserOptions>;
+  private decoder: StringDecoder;
+  /** Input received but not parsed yet */
+  private buffer = '';
+  private position = 0;
+  private line = 1;
+  private column = 1;
+  private offset = 0;
+  /** True once no input follows the buffer */
+  private final = false;
+  private ended = false;
+  private failed = false;
+  private started = false;
+  private markupSeen = false;
+  private rootSeen = false;
+  /** Names of the open elements, innermost last */
+  private openElements: string[] = [];
+  private references: ReferenceResolver;
+  /** Offset up to which the input has been checked for invalid characters */
+  private checkedOffset = 0;
+  /** Location of the outermost entity reference whose replacement text is being parsed */
+  private replacementLocation?: XmlLocation;
+  /** Number of elements open when the replacement text being parsed started */
+  private fragmentDepth = 0;
+
+  constructor(options: SaxParserOptions = {}) {
+    super();
+    this.options = {
+      encoding: options.encoding ?? 'utf8',
+      strict: options.strict ?? false,
+      maxEntityExpansions: options.maxEntityExpansions ?? 10000,
+      maxEntityExpansionSize: options.maxEntityExpansionSize ?? 1_000_000
+    };
+    this.decoder = new StringDecoder(this.options.encoding);
+    this.references = new ReferenceResolver(this.options, fail);
+  }
+
+  /**
+   * Parses the next chunk of the document. Buffers are decoded with the
+   * configured encoding and may end in the middle of a character.
+   */
+  write(chunk: Buffer | string): this {
+    if (this.ended) {
+      throw new Error('Cannot write to a SaxParser after end()');
+    }
+    this.receive(typeof chunk === 'string' ? chunk : this.decoder.write(chunk));
+    return this;
+  }
+
+  /**
+   * Parses the last chunk, if any, and checks that the document is complete.
+   * Emits 'end' unless an error was emitted.
+   */
+  end(chunk?: Buffer | string): this {
+    if (chunk !== undefined) {
+      this.write(chunk);
+    }
+    this.ended = true;
+    this.final = true;
+    this.receive(this.decoder.end());
+
+    this.run(() => {
+      if (this.openElements.length > 0) {
+        throw new XmlParseError(`Element '${this.openElements[this.openElements.length - 1]}' is not closed`, 'UNCLOSED_ELEMENT', this.getPosition());
+      }
+      if (!this.rootSeen) {
+        throw new XmlParseError('The document has no root element', 'MISSING_ROOT_ELEMENT', this.getPosition());
+      }
+      this.emit('end');
+    });
+    return this;
+  }
+
+  private receive(text: string): void {
+    if (this.failed) {
+      return;
+    }
+    if (!this.started && text !== '') {
+      this.started = true;
+      if (text.startsWith('\uFEFF')) {
+        text = text.substring(1); // Byte order mark
+        this.offset = 1;
+      }
+    }
+    this.buffer = this.buffer.substring(this.position) + text;
+    this.position = 0;
+    this.run(() => {
+      if (this.options.strict) {
+        this.checkCharacters();
+      }
+      this.process();
+    });
+  }
+
+  /**
+   * Checks the input received since the last check. A high surrogate at the
+   * end is left for the next chunk, which may hold the rest of the pair.
+   */
+  private checkCharacters(): void {
+    const from = Math.max(this.checkedOffset - this.offset, 0) + this.position;
+    let end = this.buffer.length;
+    const last = this.buffer.charCodeAt(end - 1);
+    if (!this.final && last >= 0xD800 && last <= 0xDBFF) {
+      end--;
+    }
+    checkCharacters(this.buffer.substring(from, end), index => this.positionAt(from + index), fail);
+    this.checkedOffset = this.offset + end - this.position;
+  }
+
+  /**
+   * Runs a parsing step, turning the first parse error into an 'error' event.
+   * The parser ignores its input from then on.
+   */
+  private run(step: () => void): void {
+    if (this.failed) {
+      return;
+    }
+    try {
+      step();
+    } catch (error) {
+      if (!(error instanceof XmlParseError)) {
+        throw error;
+      }
+      this.failed = true;
+      this.buffer = '';
+      this.position = 0;
+      this.emit('error', error);
+    }
+  }
+
+  /**
+   * Parses as much of the buffer as is complete.
+   */
+  private process(): void {
+    while (this.position < this.buffer.length) {
+      if (this.buffer[this.position] === '<') {
+        if (!this.parseMarkup()) {
+          return;
+        }
+      } else if (this.openElements.length === 0) {
+        this.parseOutsideRoot();
+      } else if (!this.parseText()) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Only whitespace, comments, processing instructions and the document type
+   * declaration may surround the root element.
+   */
+  private parseOutsideRoot(): void {
+    WHITESPACE_PATTERN.lastIndex = this.position;
+    WHITESPACE_PATTERN.test(this.buffer);
+    this.consume(WHITESPACE_PATTERN.lastIndex);
+    if (this.position < this.buffer.length && this.buffer[this.position] !== '<') {
+      throw this.rootSeen
+        ? new XmlParseError('Only comments and processing instructions may follow the root element', 'CONTENT_AFTER_ROOT', this.getPosition())
+        : new XmlParseError(`Expected '<' but found '${this.buffer[this.position]}'`, 'UNEXPECTED_CHARACTER', this.getPosition());
+    }
+  }
+
+  /**
+   * Parses text up to the next markup. Long text is emitted in pieces, cut
+   * before any reference that may be incomplete. Returns false to wait for
+   * more input.
+   */
+  private parseText(): boolean {
+    let end = this.buffer.indexOf('<', this.position);
+    if (end === -1) {
+      if (this.final) {
+        end = this.buffer.length;
+      } else if (this.buffer.length - this.position > TEXT_FLUSH_SIZE) {
+        end = this.findTextCut();
+      } else {
+        return false;
+      }
+      if (end <= this.position) {
+        return false;
+      }
+    }
+
+    if (this.options.strict) {
+      const cdataEnd = this.buffer.indexOf(']]>', this.position);
+      if (cdataEnd !== -1 && cdataEnd < end) {
+        throw new XmlParseError("']]>' is not allowed in text outside a CDATA section", 'CDATA_END_IN_TEXT', this.positionAt(cdataEnd));
+      }
+    }
+
+    let text = '';
+    let start = this.getPosition();
+    while (this.position < end) {
+      const reference = this.buffer.indexOf('&', this.position);
+      const stop = reference === -1 || reference > end ? end : reference;
+      text += this.buffer.substring(this.position, stop);
+      this.consume(stop);
+      if (stop === end) {
+        break;
+      }
+
+      const referenceStart = this.getPosition();
+      const name = this.readReference();
+      if (name === undefined) {
+        text += '&';
+        continue;
+      }
+      const resolved = this.references.resolve(name, false, referenceStart);
+      if (typeof resolved === 'string') {
+        text += resolved;
+      } else {
+        // Text before the reference is emitted first so events stay in document order
+        this.emitText(text, { start, end: referenceStart });
+        text = '';
+        const location = { start: referenceStart, end: this.getPosition() };
+        this.references.expand(resolved, () => this.parseReplacementText(resolved.value!, location));
+        start = this.getPosition();
+      }
+    }
+    this.emitText(text, { start, end: this.getPosition() });
+    return true;
+  }
+
+  /**
+   * Finds where text that is still arriving can be cut: before the last '&'
+   * when its reference is not complete, before ']' that may start ']]>', and
+   * never inside a surrogate pair.
+   */
+  private findTextCut(): number {
+    let cut = this.buffer.length;
+    const reference = this.buffer.lastIndexOf('&');
+    if (reference >= this.position && this.buffer.indexOf(';', reference) === -1) {
+      cut = reference;
+    }
+    while (cut > this.position && this.buffer[cut - 1] === ']') {
+      cut--;
+    }
+    const code = this.buffer.charCodeAt(cut - 1);
+    return code >= 0xD800 && code <= 0xDBFF ? cut - 1 : cut;
+  }
+
+  /**
+   * Parses the markup starting at '<'. Returns false to wait for more input.
+   */
+  private parseMarkup(): boolean {
+    const remaining = this.buffer.length - this.position;
+    if (!this.final && (remaining < 2 || (this.peek() === '!' && remaining < 9))) {
+      return false;
+    }
+
+    if (this.startsWith('<!--')) {
+      return this.parseDelimited('<!--', '-->', 'Unterminated comment', 'UNTERMINATED_COMMENT', (text, location) => {
+        if (this.options.strict) {
+          checkComment(text, location.start, fail);
+        }
+        this.emit('comment', { text, location });
+      });
+    }
+    if (this.startsWith('<![CDATA[')) {
+      return this.parseDelimited('<![CDATA[', ']]>', 'Unterminated CDATA section', 'UNTERMINATED_CDATA', (text, location) =>
+        this.emit('cdata', { text, location }));
+    }
+    if (this.startsWith('<!DOCTYPE')) {
+      return this.parseDoctype();
+    }
+    if (this.peek() === '?') {
+      return this.parseProcessingInstruction();
+    }
+    if (this.peek() === '/') {
+      return this.parseEndTag();
+    }
+    return this.parseStartTag();
+  }
+
+  private parseDelimited(
+    open: string,
+    close: string,
+    message: string,
+    code: string,
+    emit: (text: string, location: XmlLocation) => void
+  ): boolean {
+    const end = this.buffer.indexOf(close, this.position + open.length);
+    if (end === -1) {
+      return this.waitFor(message, code);
+    }
+    const start = this.getPosition();
+    const text = this.buffer.substring(this.position + open.length, end);
+    this.markupSeen = true;
+    this.consume(end + close.length);
+    emit(text, this.locate(start));
+    return true;
+  }
+
+  private parseProcessingInstruction(): boolean {
+    const end = this.buffer.indexOf('?>', this.position + 2);
+    if (end === -1) {
+      return this.waitFor('Unterminated processing instruction', 'UNTERMINATED_PROCESSING_INSTRUCTION');
+    }
+    const start = this.getPosition();
+    const target = this.readName(this.position + 2);
+    const data = this.buffer.substring(this.position + 2 + target.length, end).replace(/^[ \t\r\n]+/, '');
+    const isDeclaration = target === 'xml' && !this.markupSeen;
+    if (this.options.strict && isDeclaration) {
+      // Only the byte order mark may come before the declaration
+      checkXmlDeclaration(this.buffer.substring(this.position, end + 2), start.line === 1 && start.column === 1, start, fail);
+    } else if (this.options.strict) {
+      const targetEnd = this.position + 2 + target.length;
+      checkProcessingInstructionTarget(target, this.buffer.substring(targetEnd, targetEnd + 2), start, this.positionAt(targetEnd), fail);
+    }
+    this.markupSeen = true;
+    this.consume(end + 2);
+    if (!isDeclaration) {
+      this.emit('processingInstruction', { target, data, location: this.locate(start) });
+    }
+    return true;
+  }
+
+  /**
+   * Parses a document type declaration once it has arrived as a whole. The
+   * internal subset is read by DtdParser; external subsets are never loaded.
+   */
+  private parseDoctype(): boolean {
+    const end = this.findDoctypeEnd();
+    if (end === -1) {
+      return this.waitFor('Unterminated document type declaration', 'INVALID_DOCTYPE');
+    }
+    const start = this.getPosition();
+    if (this.references.doctype || this.rootSeen) {
+      throw new XmlParseError('A document can only have one document type declaration, before the root element', 'INVALID_DOCTYPE', start);
+    }
+
+    DOCTYPE_PATTERN.lastIndex = this.position;
+    const match = DOCTYPE_PATTERN.exec(this.buffer);
+    if (!match) {
+      throw new XmlParseError('Malformed document type declaration', 'INVALID_DOCTYPE', start);
+    }
+    const literal = (quoted?: string) => quoted?.slice(1, -1);
+    const doctype: XmlDoctype = {
+      name: match[1],
+      publicId: literal(match[2]),
+      systemId: literal(match[3] ?? match[4]),
+      entities: {},
+      elements: {},
+      attributeLists: {}
+    };
+    if (doctype.publicId === undefined) {
+      delete doctype.publicId;
+    }
+    if (doctype.systemId === undefined) {
+      delete doctype.systemId;
+    }
+
+    let position = DOCTYPE_PATTERN.lastIndex;
+    if (this.buffer[position] === '[') {
+      const subsetStart = position + 1;
+      const subsetEnd = this.buffer.lastIndexOf(']', end);
+      this.references.readInternalSubset(this.buffer.substring(subsetStart, subsetEnd), doctype, offset => this.positionAt(subsetStart + offset));
+      WHITESPACE_PATTERN.lastIndex = subsetEnd + 1;
+      WHITESPACE_PATTERN.test(this.buffer);
+      position = WHITESPACE_PATTERN.lastIndex;
+    }
+    if (position !== end) {
+      throw new XmlParseError(`Expected '>' to end the document type declaration but found '${this.buffer[position]}'`, 'INVALID_DOCTYPE', this.positionAt(position));
+    }
+
+    this.references.doctype = doctype;
+    this.markupSeen = true;
+    this.consume(end + 1);
+    this.emit('doctype', doctype);
+    return true;
+  }
+
+  /**
+   * Finds the '>' that ends the document type declaration, skipping quoted
+   * values and the internal subset. Returns -1 when it has not arrived yet.
+   */
+  private findDoctypeEnd(): number {
+    let position = this.position + '<!DOCTYPE'.length;
+    while (position < this.buffer.length) {
+      const char = this.buffer[position];
+      let end = position + 1;
+      if (char === '"' || char === "'") {
+        end = this.buffer.indexOf(char, position + 1) + 1;
+      } else if (char === '[') {
+        end = findSubsetEnd(this.buffer, position + 1) + 1;
+      } else if (char === '>') {
+        return position;
+      }
+      if (end <= position) {
+        return -1;
+      }
+      position = end;
+    }
+    return -1;
+  }
+
+  private parseEndTag(): boolean {
+    const end = this.buffer.indexOf('>', this.position + 2);
+    if (end === -1) {
+      return this.waitFor("Expected '>' in end tag", 'INVALID_END_TAG');
+    }
+    const start = this.getPosition();
+    const name = this.readName(this.position + 2);
+    if (this.openElements.length === 0) {
+      throw new XmlParseError('Unexpected end tag', 'UNEXPECTED_END_TAG', start);
+    }
+    if (this.openElements.length === this.fragmentDepth) {
+      throw new XmlParseError(`Entity '&${this.references.expanding};' contains an end tag without a start tag`,
+        'INVALID_ENTITY_REFERENCE', start);
+    }
+    const expectedName = this.openElements[this.openElements.length - 1];
+    if (name !== expectedName) {
+      throw new XmlParseError(`End tag '${name}' does not match start tag '${expectedName}'`, 'MISMATCHED_END_TAG', start);
+    }
+    WHITESPACE_PATTERN.lastIndex = this.position + 2 + name.length;
+    WHITESPACE_PATTERN.test(this.buffer);
+    if (WHITESPACE_PATTERN.lastIndex !== end) {
+      throw new XmlParseError("Expected '>' in end tag", 'INVALID_END_TAG', this.positionAt(WHITESPACE_PATTERN.lastIndex));
+    }
+
+    this.openElements.pop();
+    this.consume(end + 1);
+    this.emit('endElement', { name, location: this.locate(start) });
+    return true;
+  }
+
+  private parseStartTag(): boolean {
+    const end = this.findStartTagEnd();
+    if (end === -1) {
+      return this.waitFor('Unterminated start tag', 'INVALID_START_TAG');
+    }
+    const start = this.getPosition();
+    if (this.rootSeen && this.openElements.length === 0) {
+      throw new XmlParseError('Only comments and processing instructions may follow the root element', 'CONTENT_AFTER_ROOT', start);
+    }
+
+    const name = this.readName(this.position + 1);
+    const attributes: Record<string, string> = {};
+    const attributeLocations: Record<string, XmlLocation> = {};
+    let position = this.position + 1 + name.length;
+    let selfClosing = false;
+
+    while (true) {
+      WHITESPACE_PATTERN.lastIndex = position;
+      WHITESPACE_PATTERN.test(this.buffer);
+      position = WHITESPACE_PATTERN.lastIndex;
+      if (position === end) {
+        break;
+      }
+      if (this.buffer[position] === '/') {
+        if (position + 1 !== end) {
+          throw new XmlParseError("Expected '>' but found '/'", 'INVALID_START_TAG', this.positionAt(position));
+        }
+        selfClosing = true;
+        break;
+      }
+
+      const attrStart = this.positionAt(position);
+      const attrName = this.readName(position);
+      if (attrName in attributes) {
+        throw new XmlParseError(`Attribute '${attrName}' is specified more than once`, 'DUPLICATE_ATTRIBUTE', attrStart);
+      }
+      WHITESPACE_PATTERN.lastIndex = position + attrName.length;
+      WHITESPACE_PATTERN.test(this.buffer);
+      position = WHITESPACE_PATTERN.lastIndex;
+      if (this.buffer[position] !== '=') {
+        throw new XmlParseError(`Expected '=' after attribute name '${attrName}'`, 'MISSING_ATTRIBUTE_VALUE', this.positionAt(position));
+      }
+      WHITESPACE_PATTERN.lastIndex = position + 1;
+      WHITESPACE_PATTERN.test(this.buffer);
+      position = WHITESPACE_PATTERN.lastIndex;
+
+      const quote = this.buffer[position];
+      if (quote !== '"' && quote !== "'") {
+        throw new XmlParseError(`Expected quote but found '${quote}'`, 'UNQUOTED_ATTRIBUTE_VALUE', this.positionAt(position));
+      }
+      // findStartTagEnd has made sure the closing quote comes before the end of the tag
+      const valueEnd = this.buffer.indexOf(quote, position + 1);
+      const valueStart = position + 1;
+      attributes[attrName] = this.decodeAttribute(this.buffer.substring(valueStart, valueEnd), index => this.positionAt(valueStart + index));
+      position = valueEnd + 1;
+      attributeLocations[attrName] = this.replacementLocation ?? { start: attrStart, end: this.positionAt(position) };
+      if (this.options.strict && !/[ \t\r\n>\/]/.test(this.buffer[position])) {
+        throw new XmlParseError(`Expected whitespace after attribute '${attrName}'`, 'MISSING_WHITESPACE', this.positionAt(position));
+      }
+    }
+
+    this.references.applyAttributeDefaults(name, attributes, attributeLocations, this.replacementLocation ?? { start, end: start }, value =>
+      this.decodeAttribute(value, () => start));
+    this.rootSeen = true;
+    this.markupSeen = true;
+    this.consume(end + 1);
+    const location = this.locate(start);
+    this.emit('startElement', { name, attributes, attributeLocations, selfClosing, location });
+    if (selfClosing) {
+      this.emit('endElement', { name, location });
+    } else {
+      this.openElements.push(name);
+    }
+    return true;
+  }
+
+  /**
+   * Finds the '>' that ends a start tag, skipping quoted attribute values.
+   * Returns -1 when it has not arrived yet.
+   */
+  private findStartTagEnd(): number {
+    let position = this.position + 1;
+    while (position < this.buffer.length) {
+      const char = this.buffer[position];
+      if (char === '>') {
+        return position;
+      }
+      if (char === '"' || char === "'") {
+        const end = this.buffer.indexOf(char, position + 1);
+        if (end === -1) {
+          return -1;
+        }
+        position = end;
+      }
+      position++;
+    }
+    return -1;
+  }
+
+  /**
+   * Replaces the references in an attribute value.
+   * @param locate Position of the character at an index of the raw value
+   */
+  private decodeAttribute(raw: string, locate: (index: number) => XmlPosition): string {
+    if (this.options.strict && raw.includes('<')) {
+      throw new XmlParseError("'<' is not allowed in attribute values", 'LT_IN_ATTRIBUTE_VALUE', locate(raw.indexOf('<')));
+    }
+    let value = '';
+    let index = 0;
+    for (let reference = raw.indexOf('&'); reference !== -1; reference = raw.indexOf('&', index)) {
+      value += raw.substring(index, reference);
+      const match = this.matchReference(raw, reference, () => locate(reference));
+      if (!match) {
+        value += '&';
+        index = reference + 1;
+        continue;
+      }
+      value += this.resolveAttributeReference(match[1], locate(reference));
+      index = reference + match[0].length;
+    }
+    return value + raw.substring(index);
+  }
+
+  /**
+   * Resolves a reference in an attribute value to text. Entities with
+   * references have theirs replaced too.
+   */
+  private resolveAttributeReference(name: string, position: XmlPosition): string {
+    const resolved = this.references.resolve(name, true, position);
+    return typeof resolved === 'string' ? resolved : this.references.expand(resolved, () => this.decodeAttribute(resolved.value!, () => position));
+  }
+
+  /**
+   * Reads the reference at the current position and returns what it names,
+   * '#' and the code for character references. A bare '&' is skipped and
+   * nothing is returned.
+   */
+  private readReference(): string | undefined {
+    const match = this.matchReference(this.buffer, this.position, () => this.getPosition());
+    this.consume(this.position + (match ? match[0].length : 1));
+    return match?.[1];
+  }
+
+  /**
+   * Matches the reference at an index of the text. Lenient parsing takes
+   * anything up to a ';' for a reference and keeps a bare '&' as text.
+   * @param position Position of the '&', for the error
+   */
+  private matchReference(text: string, index: number, position: () => XmlPosition): RegExpExecArray | null {
+    const pattern = this.options.strict ? REFERENCE_PATTERN : LOOSE_REFERENCE_PATTERN;
+    pattern.lastIndex = index;
+    const match = pattern.exec(text);
+    if (!match && this.options.strict) {
+      throw new XmlParseError("'&' must start an entity or character reference", 'INVALID_REFERENCE', position());
+    }
+    return match;
+  }
+
+  /**
+   * Parses replacement text in place of the buffer. Its events and errors are
+   * located at the reference, and its elements must be balanced.
+   */
+  private parseReplacementText(text: string, location: XmlLocation): void {
+    const { buffer, position, line, column, offset, final, replacementLocation, fragmentDepth } = this;
+    this.buffer = text;
+    this.position = 0;
+    this.final = true;
+    this.replacementLocation ??= location;
+    this.fragmentDepth = this.openElements.length;
+    try {
+      this.process();
+      if (this.openElements.length > this.fragmentDepth) {
+        throw new XmlParseError(`Element '${this.openElements[this.openElements.length - 1]}' is not closed`, 'UNCLOSED_ELEMENT', this.getPosition());
+      }
+    } finally {
+      this.buffer = buffer;
+      this.position = position;
+      this.line = line;
+      this.column = column;
+      this.offset = offset;
+      this.final = final;
+      this.replacementLocation = replacementLocation;
+      this.fragmentDepth = fragmentDepth;
+    }
+  }
+
+  private emitText(text: string, location: XmlLocation): void {
+    if (text !== '') {
+      this.emit('text', { text, location: this.replacementLocation ?? location });
+    }
+  }
+
+  /**
+   * Waits for the rest of an incomplete token, unless no more input follows.
+   */
+  private waitFor(message: string, code: string): false {
+    if (this.final) {
+      throw new XmlParseError(message, code, this.getPosition());
+    }
+    return false;
+  }
+
+  private readName(position: number): string {
+    NAME_PATTERN.lastIndex = position;
+    const match = NAME_PATTERN.exec(this.buffer);
+    if (!match) {
+      throw new XmlParseError(`Invalid name start character: '${this.buffer[position] ?? ''}'`, 'INVALID_NAME', this.positionAt(position));
+    }
+    return match[0];
+  }
+
+  /**
+   * Moves the position to an index of the buffer, counting lines and columns
+   * over the text passed.
+   */
+  private consume(index: number): void {
+    let newline = this.buffer.indexOf('\n', this.position);
+    if (newline === -1 || newline >= index) {
+      this.column += index - this.position;
+    } else {
+      while (newline !== -1 && newline < index) {
+        this.line++;
+        this.column = index - newline;
+        newline = this.buffer.indexOf('\n', newline + 1);
+      }
+    }
+    this.offset += index - this.position;
+    this.position = index;
+  }
+
+  /**
+   * Position of an index of the buffer at or after the current position.
+   */
+  private positionAt(index: number): XmlPosition {
+    if (this.replacementLocation) {
+      return this.replacementLocation.start;
+    }
+    const passed = this.buffer.substring(this.position, index);
+    const lastNewline = passed.lastIndexOf('\n');
+    return {
+      line: this.line + passed.split('\n').length - 1,
+      column: lastNewline === -1 ? this.column + passed.length : passed.length - lastNewline,
+      offset: this.offset + passed.length
+    };
+  }
+
+  private getPosition(): XmlPosition {
+    return this.replacementLocation?.start ?? { line: this.line, column: this.column, offset: this.offset };
+  }
+
+  /**
+   * Location from a start position to the current one.
+   */
+  private locate(start: XmlPosition): XmlLocation {
+    return this.replacementLocation ?? { start, end: this.getPosition() };
+  }
+
+  private startsWith(text: string): boolean {
+    return this.buffer.startsWith(text, this.position);
+  }
+
+  private peek(): string {
+    return this.buffer[this.position + 1] || '';
+  }
+}
@@ -0,0 +1,33 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { XsdSchemaResolver } from './types';
+
+/**
+ * Creates a resolver that serves schema documents from memory, keyed by the
+ * location they are referenced under.
+ * @param schemas Schema content by location, e.g. { 'common/types.xsd': '<xs:schema ...' }
+ */
+export function createMapSchemaResolver(schemas: Record<string, string>): XsdSchemaResolver {
+  return location => schemas[location];
+}
+
+/**
+ * Creates a resolver that reads schema documents from the local filesystem.
+ * Locations that lead outside the base directory are not resolved.
+ * @param baseDirectory Directory relative locations are read from
+ */
+export function createFileSystemSchemaResolver(baseDirectory = process.cwd()): XsdSchemaResolver {
+  const base = path.resolve(baseDirectory);
+  return location => {
+    const file = path.resolve(base, location);
+    const relative = path.relative(base, file);
+    if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+      return undefined;
+    }
+    try {
+      return fs.readFileSync(file, 'utf8');
+    } catch {
+      return undefined;
+    }
+  };
+}
@@ -0,0 +1,347 @@
+import { XsdSchema, XsdSimpleType, XsdRestriction, XsdWhiteSpace, XsdTypedValue } from './types';
+import { XsdDatatypes } from './xsd-datatypes';
+import { compileXsdPattern } from './xsd-pattern';
+
+export interface SimpleValueIssue {
+  message: string;
+  code: string;
+}
+
+type SimpleTypeDefinition = string | XsdSimpleType;
+
+/**
+ * Validates lexical values against simple types: built-in types, restriction
+ * chains of user-defined types, lists and unions.
+ */
+export class SimpleTypeValidator {
+  private schema: XsdSchema;
+  private datatypes = new XsdDatatypes();
+
+  constructor(schema: XsdSchema) {
+    this.schema = schema;
+  }
+
+  /**
+   * @param value The lexical value to check
+   * @param type A built-in type name, a key of schema.simpleTypes or an anonymous simple type
+   * @param subject Describes the value's owner in messages, e.g. "element 'price'"
+   * @param invalidCode Error code used when the value is not valid for a built-in base type
+   */
+  validate(value: string, type: SimpleTypeDefinition, subject: string, invalidCode: string): SimpleValueIssue[] {
+    return this.check(value, this.resolve(type), subject, invalidCode, new Set());
+  }
+
+  /**
+   * Converts a valid lexical value into the typed value of its built-in base
+   * type. Lists yield arrays of item values and unions the value of the first
+   * member type the value is valid for. Returns undefined for invalid values.
+   */
+  parse(value: string, type: SimpleTypeDefinition): XsdTypedValue | undefined {
+    return this.toTypedValue(value, this.resolve(type), new Set());
+  }
+
+  /**
+   * Returns the built-in type at the root of a restriction chain. Lists and
+   * unions have no single primitive type and yield anySimpleType.
+   */
+  getBuiltInType(type: SimpleTypeDefinition): string {
+    const seen = new Set<XsdSimpleType>();
+    let current = this.resolve(type);
+
+    while (typeof current !== 'string') {
+      if (seen.has(current) || current.variety === 'list' || current.variety === 'union') {
+        return 'anySimpleType';
+      }
+      seen.add(current);
+      current = current.baseSimpleType ?? this.resolve(current.baseType);
+    }
+
+    return current;
+  }
+
+  resolve(type: SimpleTypeDefinition): SimpleTypeDefinition {
+    return typeof type === 'string' ? this.schema.simpleTypes[type] ?? type : type;
+  }
+
+  private check(value: string, type: SimpleTypeDefinition, subject: string, invalidCode: string, seen: Set<XsdSimpleType>): SimpleValueIssue[] {
+    if (typeof type === 'string') {
+      return this.datatypes.validate(value, type)
+        ? []
+        : [{ message: `Invalid value '${value}' for ${subject} of type '${type}'`, code: invalidCode }];
+    }
+
+    // Guards against circular derivations in hand-built schemas
+    if (seen.has(type)) {
+      return [];
+    }
+    seen.add(type);
+
+    const normalized = this.datatypes.normalizeWhiteSpace(value, this.getWhiteSpace(type));
+
+    if (type.variety === 'list') {
+      const itemType = this.resolve(type.itemSimpleType ?? type.itemType ?? 'anySimpleType');
+      for (const item of this.splitList(normalized)) {
+        const itemIssues = this.check(item, itemType, subject, invalidCode, new Set(seen));
+        if (itemIssues.length > 0) {
+          return itemIssues;
+        }
+      }
+      return [];
+    }
+
+    if (type.variety === 'union') {
+      const members = [
+        ...(type.memberTypes ?? []).map(memberType => this.resolve(memberType)),
+        ...(type.memberSimpleTypes ?? [])
+      ];
+      const matchesMember = members.some(member => this.check(normalized, member, subject, invalidCode, new Set(seen)).length === 0);
+      return matchesMember
+        ? []
+        : [{ message: `Value '${normalized}' in ${subject} does not match any member type of the union`, code: 'UNION_VIOLATION' }];
+    }
+
+    // Restrictions inherit every facet of their base types
+    const base = type.baseSimpleType ?? this.resolve(type.baseType);
+    const baseIssues = this.check(normalized, base, subject, invalidCode, seen);
+    return [...baseIssues, ...this.checkFacets(normalized, type, base, subject)];
+  }
+
+  private toTypedValue(value: string, type: SimpleTypeDefinition, seen: Set<XsdSimpleType>): XsdTypedValue | undefined {
+    if (typeof type === 'string') {
+      return this.datatypes.isBuiltInType(type) ? this.datatypes.parse(value, type) : value;
+    }
+    if (seen.has(type)) {
+      return value;
+    }
+    seen.add(type);
+
+    const normalized = this.datatypes.normalizeWhiteSpace(value, this.getWhiteSpace(type));
+
+    if (type.variety === 'list') {
+      const itemType = this.resolve(type.itemSimpleType ?? type.itemType ?? 'anySimpleType');
+      const items = this.splitList(normalized).map(item => this.toTypedValue(item, itemType, new Set(seen)));
+      return items.every(item => item !== undefined) ? items as XsdTypedValue[] : undefined;
+    }
+
+    if (type.variety === 'union') {
+      const member = [
+        ...(type.memberTypes ?? []).map(memberType => this.resolve(memberType)),
+        ...(type.memberSimpleTypes ?? [])
+      ].find(candidate => this.check(normalized, candidate, '', '', new Set(seen)).length === 0);
+      return member === undefined ? undefined : this.toTypedValue(normalized, member, new Set(seen));
+    }
+
+    return this.toTypedValue(normalized, type.baseSimpleType ?? this.resolve(type.baseType), seen);
+  }
+
+  private checkFacets(value: string, type: XsdSimpleType, base: SimpleTypeDefinition, subject: string): SimpleValueIssue[] {
+    const issues: SimpleValueIssue[] = [];
+    const builtInType = this.getBuiltInType(base);
+    // Length facets count items for types derived from lists and characters otherwise
+    const length = this.isList(base) ? this.splitList(value).length : Array.from(value).length;
+
+    for (const restriction of type.restrictions) {
+      switch (restriction.type) {
+        case 'length':
+          if (length !== Number(restriction.value)) {
+            issues.push({
+              message: `Value '${value}' in ${subject} must have length ${restriction.value}`,
+              code: 'LENGTH_VIOLATION'
+            });
+          }
+          break;
+        case 'minLength':
+          if (length < Number(restriction.value)) {
+            issues.push({
+              message: `Value '${value}' in ${subject} is too short. Minimum length is ${restriction.value}`,
+              code: 'MIN_LENGTH_VIOLATION'
+            });
+          }
+          break;
+        case 'maxLength':
+          if (length > Number(restriction.value)) {
+            issues.push({
+              message: `Value '${value}' in ${subject} is too long. Maximum length is ${restriction.value}`,
+              code: 'MAX_LENGTH_VIOLATION'
+            });
+          }
+          break;
+        case 'pattern':
+          if (!compileXsdPattern(String(restriction.value)).test(value)) {
+            issues.push({
+              message: `Value '${value}' in ${subject} does not match pattern '${restriction.value}'`,
+              code: 'PATTERN_VIOLATION'
+            });
+          }
+          break;
+        case 'enumeration':
+          const allowedValues = Array.isArray(restriction.value) ? restriction.value : [String(restriction.value)];
+          if (!allowedValues.some(allowed => this.isSameValue(value, String(allowed), base))) {
+            issues.push({
+              message: `Value '${value}' in ${subject} is not one of ${allowedValues.map(allowed => `'${allowed}'`).join(', ')}`,
+              code: 'ENUMERATION_VIOLATION'
+            });
+          }
+          break;
+        case 'minInclusive':
+          if (this.compareToBound(value, restriction.value, builtInType) < 0) {
+            issues.push({
+              message: `Value '${value}' in ${subject} is below minimum ${restriction.value}`,
+              code: 'MIN_INCLUSIVE_VIOLATION'
+            });
+          }
+          break;
+        case 'maxInclusive':
+          if (this.compareToBound(value, restriction.value, builtInType) > 0) {
+            issues.push({
+              message: `Value '${value}' in ${subject} is above maximum ${restriction.value}`,
+              code: 'MAX_INCLUSIVE_VIOLATION'
+            });
+          }
+          break;
+        case 'minExclusive':
+          if (this.compareToBound(value, restriction.value, builtInType) <= 0) {
+            issues.push({
+              message: `Value '${value}' in ${subject} must be greater than ${restriction.value}`,
+              code: 'MIN_EXCLUSIVE_VIOLATION'
+            });
+          }
+          break;
+        case 'maxExclusive':
+          if (this.compareToBound(value, restriction.value, builtInType) >= 0) {
+            issues.push({
+              message: `Value '${value}' in ${subject} must be less than ${restriction.value}`,
+              code: 'MAX_EXCLUSIVE_VIOLATION'
+            });
+          }
+          break;
+        case 'totalDigits':
+          const digits = this.countDigits(value);
+          if (digits && digits.total > Number(restriction.value)) {
+            issues.push({
+              message: `Value '${value}' in ${subject} has ${digits.total} digits but at most ${restriction.value} are allowed`,
+              code: 'TOTAL_DIGITS_VIOLATION'
+            });
+          }
+          break;
+        case 'fractionDigits':
+          const fraction = this.countDigits(value);
+          if (fraction && fraction.fraction > Number(restriction.value)) {
+            issues.push({
+              message: `Value '${value}' in ${subject} has ${fraction.fraction} fraction digits but at most ${restriction.value} are allowed`,
+              code: 'FRACTION_DIGITS_VIOLATION'
+            });
+          }
+          break;
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * The whiteSpace facet closest to the type wins; lists always collapse and
+   * unions leave normalization to their member types.
+   */
+  private getWhiteSpace(type: SimpleTypeDefinition): XsdWhiteSpace {
+    if (typeof type === 'string') {
+      return this.datatypes.getWhiteSpace(type);
+    }
+
+    const whiteSpace = type.restrictions.find(restriction => restriction.type === 'whiteSpace');
+    if (whiteSpace) {
+      return whiteSpace.value as XsdWhiteSpace;
+    }
+    if (type.variety === 'list') {
+      return 'collapse';
+    }
+    if (type.variety === 'union') {
+      return 'preserve';
+    }
+    const base = type.baseSimpleType ?? this.resolve(type.baseType);
+    return base === type ? 'preserve' : this.getWhiteSpace(base);
+  }
+
+  private isList(type: SimpleTypeDefinition): boolean {
+    const seen = new Set<XsdSimpleType>();
+    let current = type;
+
+    while (typeof current !== 'string') {
+      if (current.variety === 'list') {
+        return true;
+      }
+      if (current.variety === 'union' || seen.has(current)) {
+        return false;
+      }
+      seen.add(current);
+      current = current.baseSimpleType ?? this.resolve(current.baseType);
+    }
+
+    return ['NMTOKENS', 'IDREFS', 'ENTITIES'].includes(current);
+  }
+
+  private splitList(value: string): string[] {
+    return value.split(' ').filter(item => item !== '');
+  }
+
+  /**
+   * Compares a value with a range facet bound using the typed values of the
+   * built-in base type, so dates and large integers are ordered correctly.
+   * Values that cannot be ordered yield NaN, which never violates a bound.
+   */
+  private compareToBound(value: string, bound: XsdRestriction['value'], builtInType: string): number {
+    const typedValue = this.datatypes.parse(value, builtInType);
+    const typedBound = this.datatypes.parse(String(bound), builtInType);
+
+    if (typedValue !== undefined && typedBound !== undefined) {
+      return this.datatypes.compare(typedValue, typedBound) ?? NaN;
+    }
+
+    return Math.sign(Number(value) - Number(bound));
+  }
+
+  /**
+   * Enumeration values match in the value space of the restricted type, so a
+   * decimal 1 matches 1.0. Facet values are whitespace-normalized as instances are.
+   */
+  private isSameValue(value: string, allowed: string, base: SimpleTypeDefinition): boolean {
+    const normalized = this.datatypes.normalizeWhiteSpace(allowed, this.getWhiteSpace(base));
+    const typedValue = this.toTypedValue(value, base, new Set());
+    const typedAllowed = this.toTypedValue(normalized, base, new Set());
+    if (typedValue === undefined || typedAllowed === undefined) {
+      return value === normalized;
+    }
+    return this.equalTypedValues(typedValue, typedAllowed);
+  }
+
+  private equalTypedValues(a: XsdTypedValue, b: XsdTypedValue): boolean {
+    if (Array.isArray(a) || Array.isArray(b)) {
+      return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => this.equalTypedValues(item, b[i]));
+    }
+    if (a instanceof Uint8Array && b instanceof Uint8Array) {
+      return a.length === b.length && a.every((byte, i) => byte === b[i]);
+    }
+    if (typeof a === 'number' && typeof b === 'number' && isNaN(a) && isNaN(b)) {
+      return true;
+    }
+    const order = this.datatypes.compare(a, b);
+    if (order !== undefined) {
+      return order === 0;
+    }
+    return typeof a === 'object' && typeof b === 'object' ? JSON.stringify(a) === JSON.stringify(b) : a === b;
+  }
+
+  /**
+   * Counts significant digits of a decimal lexical value. Leading zeros of the
+   * integer part and trailing zeros of the fraction do not count.
+   */
+  private countDigits(value: string): { total: number; fraction: number } | null {
+    const match = /^[+-]?(\d*)(?:\.(\d*))?$/.exec(value.trim());
+    if (!match || (!match[1] && !match[2])) {
+      return null;
+    }
+    const integerDigits = match[1].replace(/^0+/, '');
+    const fractionDigits = (match[2] ?? '').replace(/0+$/, '');
+    return { total: Math.max(integerDigits.length + fractionDigits.length, 1), fraction: fractionDigits.length };
+  }
+}
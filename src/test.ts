@@ -1,4 +1,9 @@
-import XmlHelper from './index';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import XmlHelper, { XsdDatatypes, XmlParser, XmlValidator, XmlToJsonConverter, SaxParser, createMapSchemaResolver, createFileSystemSchemaResolver } from './index';
+import { CONFORMANCE_CASES } from './conformance-cases';
 
 // Test data
 const sampleXsdSchema = `<?xml version="1.0" encoding="UTF-8"?>
@@ -200,6 +205,1313 @@ async function runTests() {
   console.log('Complex JSON to XML result:');
   console.log(complexXml);
 
+  // Test 9: Error Positions
+  console.log('\n📍 Test 9: Error Positions');
+  const positionHelper = new XmlHelper();
+  positionHelper.loadSchema(`<schema>
+  <element name="order" type="Order"/>
+  <complexType name="Order">
+    <sequence>
+      <element name="item" type="OrderItem" maxOccurs="unbounded"/>
+    </sequence>
+  </complexType>
+  <complexType name="OrderItem">
+    <sequence>
+      <element name="quantity" type="int"/>
+    </sequence>
+    <attribute name="sku" type="string" use="required"/>
+  </complexType>
+</schema>`);
+  const positionErrors = positionHelper.validateXml(`<order>
+  <item sku="A-1">
+    <quantity>2</quantity>
+  </item>
+  <item>
+    <quantity>many</quantity>
+  </item>
+  <item sku="B-2" gift="yes">
+    <quantity>1</quantity>
+  </item>
+</order>`);
+  console.log('Errors reported at their source positions:', positionErrors.length === 3 &&
+    positionErrors.every(error => error.line > 1));
+  positionErrors.forEach(error => {
+    console.log(`  Line ${error.line}, column ${error.column}: ${error.message}`);
+  });
+
+  // Test 10: Namespace-aware Parsing
+  console.log('\n🏷️ Test 10: Namespace-aware Parsing');
+  const namespacedResult = xmlHelper.parseXml(validXml, { namespaceAware: true });
+  const namespacedRoot = namespacedResult.node;
+  console.log('Default namespace applied to descendants:', namespacedRoot !== null &&
+    namespacedRoot.children.every(child => child.namespace === 'http://example.com/book'));
+  if (namespacedRoot) {
+    console.log(`Root: {${namespacedRoot.namespace}}${namespacedRoot.localName}`);
+  }
+
+  const prefixedResult = xmlHelper.parseXml(
+    '<c:catalog xmlns:c="urn:catalog" xmlns:x="urn:extra"><c:item x:code="7" id="1"/></c:catalog>',
+    { namespaceAware: true }
+  );
+  const prefixedItem = prefixedResult.node?.children[0];
+  console.log('Prefixed element resolved:', prefixedItem?.localName === 'item' && prefixedItem.namespace === 'urn:catalog');
+  console.log('Prefixed attribute resolved:', prefixedItem?.attributeNames?.['x:code'].namespace === 'urn:extra');
+  console.log('Unprefixed attribute has no namespace:', prefixedItem?.attributeNames?.['id'].namespace === undefined);
+
+  const undeclaredResult = xmlHelper.parseXml('<a:root><b/></a:root>', { namespaceAware: true });
+  console.log('Undeclared prefix rejected:', undeclaredResult.errors.some(error => error.code === 'UNDECLARED_PREFIX'));
+
+  // Test 11: Target Namespace Validation
+  console.log('\n🌐 Test 11: Target Namespace Validation');
+  const namespaceHelper = new XmlHelper();
+  namespaceHelper.loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema" xmlns:o="urn:orders"
+           targetNamespace="urn:orders" elementFormDefault="qualified">
+  <xs:element name="order" type="o:Order"/>
+  <xs:complexType name="Order">
+    <xs:sequence>
+      <xs:element name="item" type="xs:string"/>
+    </xs:sequence>
+    <xs:attribute name="ref" type="xs:string"/>
+  </xs:complexType>
+</xs:schema>`);
+  const qualifiedErrors = namespaceHelper.validateXml('<order xmlns="urn:orders" ref="r1"><item>Pen</item></order>');
+  console.log('Document in target namespace accepted:', qualifiedErrors.length === 0);
+  const wrongNamespaceErrors = namespaceHelper.validateXml('<order xmlns="urn:invoices"><item>Pen</item></order>');
+  console.log('Document in wrong namespace rejected:', wrongNamespaceErrors.some(error => error.code === 'NAMESPACE_MISMATCH'));
+  const unqualifiedChildErrors = namespaceHelper.validateXml('<o:order xmlns:o="urn:orders"><item>Pen</item></o:order>');
+  console.log('Unqualified local element rejected:', unqualifiedChildErrors.some(error => error.code === 'NAMESPACE_MISMATCH'));
+  unqualifiedChildErrors.forEach(error => {
+    console.log(`  Line ${error.line}, column ${error.column}: ${error.message}`);
+  });
+
+  // Test 12: Type References
+  console.log('\n🔗 Test 12: Type References');
+  const typeHelper = new XmlHelper();
+  const typeSchemaErrors = typeHelper.loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema" xmlns:p="urn:prices"
+           targetNamespace="urn:prices" elementFormDefault="qualified">
+  <xs:element name="price" type="p:PriceType"/>
+  <xs:complexType name="PriceType">
+    <xs:sequence>
+      <xs:element name="amount" type="xs:decimal"/>
+      <xs:element name="code" type="p:CodeType"/>
+    </xs:sequence>
+  </xs:complexType>
+  <xs:simpleType name="CodeType">
+    <xs:restriction base="xs:string">
+      <xs:pattern value="[A-Z]{3}"/>
+    </xs:restriction>
+  </xs:simpleType>
+</xs:schema>`);
+  console.log('Prefixed type references resolved:', typeSchemaErrors.length === 0);
+  const typedErrors = typeHelper.validateXml('<price xmlns="urn:prices"><amount>ten</amount><code>usd</code></price>');
+  console.log('Built-in and named types applied:', typedErrors.some(error => error.code === 'INVALID_ELEMENT_VALUE') &&
+    typedErrors.some(error => error.code === 'PATTERN_VIOLATION'));
+
+  const unresolvedErrors = new XmlHelper().loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="price" type="xs:money"/>
+  <xs:element name="total" type="Missing"/>
+</xs:schema>`);
+  console.log('Unresolvable type references reported:', unresolvedErrors.length === 2 &&
+    unresolvedErrors.every(error => error.code === 'UNRESOLVED_TYPE'));
+  unresolvedErrors.forEach(error => {
+    console.log(`  Line ${error.line}, column ${error.column}: ${error.message}`);
+  });
+
+  // Test 13: Inline Anonymous Types
+  console.log('\n🪆 Test 13: Inline Anonymous Types');
+  const inlineHelper = new XmlHelper();
+  inlineHelper.loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="playlist">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="track" maxOccurs="unbounded">
+          <xs:complexType>
+            <xs:sequence>
+              <xs:element name="title" type="xs:string"/>
+              <xs:element name="seconds">
+                <xs:simpleType>
+                  <xs:restriction base="xs:int">
+                    <xs:maxInclusive value="600"/>
+                  </xs:restriction>
+                </xs:simpleType>
+              </xs:element>
+            </xs:sequence>
+            <xs:attribute name="position" type="xs:int" use="required"/>
+          </xs:complexType>
+        </xs:element>
+      </xs:sequence>
+    </xs:complexType>
+  </xs:element>
+</xs:schema>`);
+  const inlineValidErrors = inlineHelper.validateXml(
+    '<playlist><track position="1"><title>Intro</title><seconds>95</seconds></track></playlist>'
+  );
+  console.log('Nested inline types accepted:', inlineValidErrors.length === 0);
+  const inlineInvalidErrors = inlineHelper.validateXml(
+    '<playlist><track><title>Suite</title><seconds>1200</seconds><bonus/></track></playlist>'
+  );
+  console.log('Nested inline types enforced:', ['MISSING_REQUIRED_ATTRIBUTE', 'MAX_INCLUSIVE_VIOLATION', 'UNEXPECTED_ELEMENT']
+    .every(code => inlineInvalidErrors.some(error => error.code === code)));
+
+  // Test 14: Content Models
+  console.log('\n🧩 Test 14: Content Models');
+  const contentHelper = new XmlHelper();
+  contentHelper.loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="contact">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="name" type="xs:string"/>
+        <xs:choice>
+          <xs:element name="email" type="xs:string"/>
+          <xs:element name="phone" type="xs:string"/>
+        </xs:choice>
+        <xs:sequence minOccurs="0" maxOccurs="2">
+          <xs:element name="label" type="xs:string"/>
+          <xs:element name="value" type="xs:string"/>
+        </xs:sequence>
+        <xs:element name="meta" minOccurs="0">
+          <xs:complexType>
+            <xs:all>
+              <xs:element name="created" type="xs:date"/>
+              <xs:element name="source" type="xs:string" minOccurs="0"/>
+            </xs:all>
+          </xs:complexType>
+        </xs:element>
+      </xs:sequence>
+    </xs:complexType>
+  </xs:element>
+</xs:schema>`);
+  const contentValidErrors = contentHelper.validateXml(`<contact>
+  <name>Ada</name>
+  <phone>555-0100</phone>
+  <label>twitter</label><value>@ada</value>
+  <label>site</label><value>ada.dev</value>
+  <meta><source>import</source><created>2024-01-31</created></meta>
+</contact>`);
+  console.log('Sequence, choice, repeated group and all accepted:', contentValidErrors.length === 0);
+
+  const contentCases = [
+    { code: 'UNEXPECTED_ELEMENT_ORDER', xml: '<contact><email>a@b.c</email><name>Ada</name></contact>' },
+    { code: 'CHOICE_VIOLATION', xml: '<contact><name>Ada</name><email>a@b.c</email><phone>555</phone></contact>' },
+    { code: 'MIN_OCCURS_VIOLATION', xml: '<contact><name>Ada</name></contact>' },
+    { code: 'UNEXPECTED_ELEMENT_ORDER', xml: '<contact><name>Ada</name><email>a@b.c</email><label>x</label><label>y</label></contact>' },
+    { code: 'MIN_OCCURS_VIOLATION', xml: '<contact><name>Ada</name><email>a@b.c</email><meta><source>x</source></meta></contact>' }
+  ];
+  contentCases.forEach(({ code, xml }) => {
+    const caseErrors = contentHelper.validateXml(xml);
+    console.log(`  ${code} reported:`, caseErrors.some(error => error.code === code));
+    caseErrors.forEach(error => {
+      console.log(`    Column ${error.column}: ${error.message}`);
+    });
+  });
+
+  // Test 15: Facets
+  console.log('\n📐 Test 15: Facets');
+  const facetHelper = new XmlHelper();
+  facetHelper.loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="payment">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="currency">
+          <xs:simpleType>
+            <xs:restriction base="xs:string">
+              <xs:whiteSpace value="collapse"/>
+              <xs:length value="3"/>
+              <xs:enumeration value="EUR"/>
+              <xs:enumeration value="USD"/>
+            </xs:restriction>
+          </xs:simpleType>
+        </xs:element>
+        <xs:element name="amount">
+          <xs:simpleType>
+            <xs:restriction base="xs:decimal">
+              <xs:totalDigits value="5"/>
+              <xs:fractionDigits value="2"/>
+              <xs:minExclusive value="0"/>
+              <xs:maxExclusive value="1000"/>
+            </xs:restriction>
+          </xs:simpleType>
+        </xs:element>
+      </xs:sequence>
+    </xs:complexType>
+  </xs:element>
+</xs:schema>`);
+  console.log('Valid facet values accepted:',
+    facetHelper.validateXml('<payment><currency>EUR</currency><amount>999.50</amount></payment>').length === 0);
+  const facetCases = [
+    { code: 'ENUMERATION_VIOLATION', xml: '<payment><currency>GBP</currency><amount>1</amount></payment>' },
+    { code: 'LENGTH_VIOLATION', xml: '<payment><currency>EURO</currency><amount>1</amount></payment>' },
+    { code: 'TOTAL_DIGITS_VIOLATION', xml: '<payment><currency>USD</currency><amount>123.456</amount></payment>' },
+    { code: 'FRACTION_DIGITS_VIOLATION', xml: '<payment><currency>USD</currency><amount>1.005</amount></payment>' },
+    { code: 'MIN_EXCLUSIVE_VIOLATION', xml: '<payment><currency>USD</currency><amount>0</amount></payment>' },
+    { code: 'MAX_EXCLUSIVE_VIOLATION', xml: '<payment><currency>USD</currency><amount>1000</amount></payment>' }
+  ];
+  facetCases.forEach(({ code, xml }) => {
+    console.log(`  ${code} reported:`, facetHelper.validateXml(xml).some(error => error.code === code));
+  });
+  const enumerationHelper = new XmlHelper();
+  enumerationHelper.loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="levels">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="rate" maxOccurs="unbounded">
+          <xs:simpleType>
+            <xs:restriction base="xs:decimal"><xs:enumeration value="1.0"/><xs:enumeration value="2.5"/></xs:restriction>
+          </xs:simpleType>
+        </xs:element>
+        <xs:element name="size" maxOccurs="unbounded">
+          <xs:simpleType>
+            <xs:restriction base="xs:token"><xs:enumeration value=" extra   large "/></xs:restriction>
+          </xs:simpleType>
+        </xs:element>
+      </xs:sequence>
+    </xs:complexType>
+  </xs:element>
+</xs:schema>`);
+  console.log('Enumerations compared in value space:',
+    enumerationHelper.validateXml('<levels><rate>1</rate><rate> 02.50 </rate><size>extra  large</size></levels>').length === 0 &&
+    enumerationHelper.validateXml('<levels><rate>1.5</rate><size>extra large</size></levels>').some(error => error.code === 'ENUMERATION_VIOLATION'));
+  const patternHelper = new XmlHelper();
+  patternHelper.loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="codes">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="name" maxOccurs="unbounded">
+          <xs:simpleType><xs:restriction base="xs:string"><xs:pattern value="\\i\\c*"/></xs:restriction></xs:simpleType>
+        </xs:element>
+        <xs:element name="word" maxOccurs="unbounded">
+          <xs:simpleType><xs:restriction base="xs:string"><xs:pattern value="\\p{L}+"/></xs:restriction></xs:simpleType>
+        </xs:element>
+        <xs:element name="ascii" maxOccurs="unbounded">
+          <xs:simpleType><xs:restriction base="xs:string"><xs:pattern value="[\\p{IsBasicLatin}-[aeiou]]+"/></xs:restriction></xs:simpleType>
+        </xs:element>
+        <xs:element name="price" maxOccurs="unbounded">
+          <xs:simpleType><xs:restriction base="xs:string"><xs:pattern value="$\\d+(\\.\\d{2})?"/></xs:restriction></xs:simpleType>
+        </xs:element>
+      </xs:sequence>
+    </xs:complexType>
+  </xs:element>
+</xs:schema>`);
+  console.log('XSD pattern syntax translated:',
+    patternHelper.validateXml('<codes><name>abc</name><word>Zoë</word><ascii>xyz</ascii><price>$12.50</price></codes>').length === 0 &&
+    patternHelper.validateXml('<codes><name>1abc</name><word>p{L}</word><ascii>Zoë</ascii><ascii>abc</ascii><price>12</price></codes>')
+      .filter(error => error.code === 'PATTERN_VIOLATION').length === 5);
+  const invalidPatternErrors = new XmlHelper().loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:simpleType name="lazy"><xs:restriction base="xs:string"><xs:pattern value="a*?"/></xs:restriction></xs:simpleType>
+  <xs:simpleType name="group"><xs:restriction base="xs:string"><xs:pattern value="(?:a)"/></xs:restriction></xs:simpleType>
+  <xs:simpleType name="block"><xs:restriction base="xs:string"><xs:pattern value="\\p{IsKlingon}"/></xs:restriction></xs:simpleType>
+</xs:schema>`);
+  console.log('Patterns checked in XSD syntax at load:',
+    invalidPatternErrors.filter(error => error.code === 'INVALID_FACET').length === 3);
+
+  // Test 16: Built-in Datatypes
+  console.log('\n🔢 Test 16: Built-in Datatypes');
+  const datatypes = new XsdDatatypes();
+  const datatypeCases: Array<[string, string, boolean]> = [
+    ['2024-02-29', 'date', true],
+    ['2023-02-29', 'date', false],
+    ['2024-13-45', 'date', false],
+    ['2024-06-01T24:00:00Z', 'dateTime', true],
+    ['9223372036854775807', 'long', true],
+    ['9223372036854775808', 'long', false],
+    ['0', 'positiveInteger', false],
+    ['256', 'unsignedByte', false],
+    ['P1Y2M3DT4H', 'duration', true],
+    ['P1Y2MT', 'duration', false],
+    ['--02-29', 'gMonthDay', true],
+    ['1999', 'gYear', true],
+    ['en-US', 'language', true],
+    ['1abc', 'NCName', false],
+    ['  a   b  ', 'NMTOKENS', true],
+    ['tns:Book', 'QName', true],
+    ['http://example.com/a b', 'anyURI', false],
+    ['SGVsbG8=', 'base64Binary', true],
+    ['ABC', 'hexBinary', false],
+    ['-INF', 'double', true]
+  ];
+  const datatypeFailures = datatypeCases.filter(([value, type, expected]) => datatypes.validate(value, type) !== expected);
+  console.log('Lexical forms and ranges checked:', datatypeFailures.length === 0);
+  datatypeFailures.forEach(([value, type]) => console.log(`  Unexpected result for '${value}' as ${type}`));
+
+  const typedDate = datatypes.parse('2024-01-31+02:00', 'date');
+  console.log('Typed values parsed:',
+    datatypes.parse(' 42 ', 'int') === 42 &&
+    datatypes.parse('18446744073709551615', 'unsignedLong') === BigInt('18446744073709551615') &&
+    datatypes.parse('0', 'boolean') === false &&
+    typedDate instanceof Date && typedDate.toISOString() === '2024-01-30T22:00:00.000Z');
+
+  // Test 17: List, union and derived simple types
+  console.log('\n🧬 Test 17: List, Union and Derived Simple Types');
+  const derivationHelper = new XmlHelper();
+  derivationHelper.loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:simpleType name="code">
+    <xs:restriction base="xs:string">
+      <xs:pattern value="[A-Z]+"/>
+    </xs:restriction>
+  </xs:simpleType>
+  <xs:simpleType name="shortCode">
+    <xs:restriction base="code">
+      <xs:maxLength value="4"/>
+    </xs:restriction>
+  </xs:simpleType>
+  <xs:simpleType name="twoLetterCode">
+    <xs:restriction base="shortCode">
+      <xs:length value="2"/>
+    </xs:restriction>
+  </xs:simpleType>
+  <xs:simpleType name="codeList">
+    <xs:list itemType="shortCode"/>
+  </xs:simpleType>
+  <xs:simpleType name="fewCodes">
+    <xs:restriction base="codeList">
+      <xs:maxLength value="3"/>
+    </xs:restriction>
+  </xs:simpleType>
+  <xs:simpleType name="size">
+    <xs:union memberTypes="xs:int">
+      <xs:simpleType>
+        <xs:restriction base="xs:string">
+          <xs:enumeration value="small"/>
+          <xs:enumeration value="large"/>
+        </xs:restriction>
+      </xs:simpleType>
+    </xs:union>
+  </xs:simpleType>
+  <xs:element name="item">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="country" type="twoLetterCode"/>
+        <xs:element name="size" type="size"/>
+      </xs:sequence>
+      <xs:attribute name="tags" type="fewCodes"/>
+    </xs:complexType>
+  </xs:element>
+</xs:schema>`);
+  const derivedXml = (country: string, tags: string, size: string) =>
+    `<item tags="${tags}"><country>${country}</country><size>${size}</size></item>`;
+  console.log('Valid derived values accepted:',
+    derivationHelper.validateXml(derivedXml('DE', ' AB  CDE ', '42')).length === 0 &&
+    derivationHelper.validateXml(derivedXml('FR', 'XYZ', 'large')).length === 0);
+  const derivationCases = [
+    { label: 'Facet inherited from base type', code: 'PATTERN_VIOLATION', xml: derivedXml('de', 'AB', '1') },
+    { label: 'Own facet of derived type', code: 'LENGTH_VIOLATION', xml: derivedXml('DEU', 'AB', '1') },
+    { label: 'Invalid list item', code: 'MAX_LENGTH_VIOLATION', xml: derivedXml('DE', 'AB TOOLONG', '1') },
+    { label: 'Too many list items', code: 'MAX_LENGTH_VIOLATION', xml: derivedXml('DE', 'A B C D', '1') },
+    { label: 'No matching union member', code: 'UNION_VIOLATION', xml: derivedXml('DE', 'AB', 'medium') }
+  ];
+  derivationCases.forEach(({ label, code, xml }) => {
+    console.log(`  ${label} reported as ${code}:`, derivationHelper.validateXml(xml).some(error => error.code === code));
+  });
+
+  const circularErrors = new XmlHelper().loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:simpleType name="a"><xs:restriction base="b"/></xs:simpleType>
+  <xs:simpleType name="b"><xs:restriction base="a"/></xs:simpleType>
+</xs:schema>`);
+  console.log('Circular derivation rejected:', circularErrors.some(error => error.code === 'CIRCULAR_DERIVATION'));
+
+  // Test 18: Complex type derivation
+  console.log('\n🏗️  Test 18: Complex Type Derivation');
+  const derivedTypeHelper = new XmlHelper();
+  const derivedTypeErrors = derivedTypeHelper.loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:complexType name="Vehicle" abstract="true">
+    <xs:sequence>
+      <xs:element name="make" type="xs:string"/>
+    </xs:sequence>
+    <xs:attribute name="id" type="xs:ID" use="required"/>
+  </xs:complexType>
+  <xs:complexType name="Car">
+    <xs:complexContent>
+      <xs:extension base="Vehicle">
+        <xs:sequence>
+          <xs:element name="doors" type="xs:int"/>
+        </xs:sequence>
+      </xs:extension>
+    </xs:complexContent>
+  </xs:complexType>
+  <xs:complexType name="Price">
+    <xs:simpleContent>
+      <xs:extension base="xs:decimal">
+        <xs:attribute name="currency" type="xs:string" use="required"/>
+      </xs:extension>
+    </xs:simpleContent>
+  </xs:complexType>
+  <xs:complexType name="SmallPrice">
+    <xs:simpleContent>
+      <xs:restriction base="Price">
+        <xs:maxInclusive value="100"/>
+      </xs:restriction>
+    </xs:simpleContent>
+  </xs:complexType>
+  <xs:complexType name="Note" mixed="true">
+    <xs:sequence>
+      <xs:element name="b" type="xs:string" minOccurs="0" maxOccurs="unbounded"/>
+    </xs:sequence>
+  </xs:complexType>
+  <xs:element name="garage">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="vehicle" type="Vehicle"/>
+        <xs:element name="price" type="Price"/>
+        <xs:element name="note" type="Note"/>
+      </xs:sequence>
+    </xs:complexType>
+  </xs:element>
+</xs:schema>`);
+  console.log('Derived types loaded:', derivedTypeErrors.length === 0);
+  const garageXml = (vehicle: string, price = '<price currency="EUR">20.50</price>', note = '<note>Needs <b>new</b> tyres</note>') =>
+    `<garage xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">${vehicle}${price}${note}</garage>`;
+  const carXml = '<vehicle id="v1" xsi:type="Car"><make>VW</make><doors>5</doors></vehicle>';
+  console.log('Extension with xsi:type, simple content and mixed content accepted:',
+    derivedTypeHelper.validateXml(garageXml(carXml)).length === 0);
+  const derivedTypeCases = [
+    { label: 'Abstract type used directly', code: 'ABSTRACT_TYPE', xml: garageXml('<vehicle id="v1"><make>VW</make></vehicle>') },
+    { label: 'Inherited attribute missing', code: 'MISSING_REQUIRED_ATTRIBUTE', xml: garageXml('<vehicle xsi:type="Car"><make>VW</make><doors>5</doors></vehicle>') },
+    { label: 'Inherited element missing', code: 'UNEXPECTED_ELEMENT_ORDER', xml: garageXml('<vehicle id="v1" xsi:type="Car"><doors>5</doors></vehicle>') },
+    { label: 'xsi:type not derived from declared type', code: 'INVALID_XSI_TYPE', xml: garageXml('<vehicle id="v1" xsi:type="Note"/>') },
+    { label: 'Simple content value', code: 'INVALID_SIMPLE_TYPE_VALUE', xml: garageXml(carXml, '<price currency="EUR">cheap</price>') },
+    { label: 'Restricted simple content', code: 'MAX_INCLUSIVE_VIOLATION', xml: garageXml(carXml, '<price currency="EUR" xsi:type="SmallPrice">250</price>') },
+    { label: 'Text in element-only content', code: 'INVALID_CONTENT', xml: garageXml(carXml.replace('<make>', 'fast<make>')) }
+  ];
+  derivedTypeCases.forEach(({ label, code, xml }) => {
+    console.log(`  ${label} reported as ${code}:`, derivedTypeHelper.validateXml(xml).some(error => error.code === code));
+  });
+
+  // Test 19: Schema composition
+  console.log('\n🧩 Test 19: Schema Composition');
+  const composedSchemas: Record<string, string> = {
+    'main.xsd': `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema" xmlns:o="urn:orders" xmlns:p="urn:party"
+    targetNamespace="urn:orders" elementFormDefault="qualified">
+  <xs:include schemaLocation="common/types.xsd"/>
+  <xs:import namespace="urn:party" schemaLocation="party.xsd"/>
+  <xs:element name="order">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="buyer" type="p:Party"/>
+        <xs:element name="quantity" type="o:Quantity"/>
+        <xs:element name="unit" type="o:Unit"/>
+      </xs:sequence>
+    </xs:complexType>
+  </xs:element>
+</xs:schema>`,
+    'common/types.xsd': `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:include schemaLocation="units.xsd"/>
+  <xs:simpleType name="Quantity"><xs:restriction base="xs:positiveInteger"/></xs:simpleType>
+</xs:schema>`,
+    'common/units.xsd': `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:include schemaLocation="types.xsd"/>
+  <xs:simpleType name="Unit">
+    <xs:restriction base="xs:string">
+      <xs:enumeration value="kg"/>
+      <xs:enumeration value="pcs"/>
+    </xs:restriction>
+  </xs:simpleType>
+</xs:schema>`,
+    'party.xsd': `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema" targetNamespace="urn:party" elementFormDefault="qualified">
+  <xs:complexType name="Party">
+    <xs:sequence><xs:element name="name" type="xs:string"/></xs:sequence>
+  </xs:complexType>
+</xs:schema>`
+  };
+  const orderXml = (quantity: string) =>
+    `<order xmlns="urn:orders" xmlns:p="urn:party"><buyer><p:name>ACME</p:name></buyer><quantity>${quantity}</quantity><unit>kg</unit></order>`;
+
+  const compositionHelper = new XmlHelper();
+  const compositionErrors = compositionHelper.loadSchemaSet(
+    [{ content: composedSchemas['main.xsd'], location: 'main.xsd' }],
+    createMapSchemaResolver(composedSchemas)
+  );
+  console.log('Include, circular include and import loaded:', compositionErrors.length === 0);
+  console.log('Components of all documents validated:',
+    compositionHelper.validateXml(orderXml('3')).length === 0 &&
+    compositionHelper.validateXml(orderXml('0')).some(error => error.code === 'INVALID_SIMPLE_TYPE_VALUE'));
+
+  const schemaDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'xml-helper-'));
+  for (const [location, content] of Object.entries(composedSchemas)) {
+    fs.mkdirSync(path.dirname(path.join(schemaDirectory, location)), { recursive: true });
+    fs.writeFileSync(path.join(schemaDirectory, location), content);
+  }
+  const fileSystemHelper = new XmlHelper();
+  const fileSystemErrors = fileSystemHelper.loadSchemaSet(
+    [{ content: composedSchemas['main.xsd'], location: 'main.xsd' }],
+    createFileSystemSchemaResolver(schemaDirectory)
+  );
+  fs.rmSync(schemaDirectory, { recursive: true, force: true });
+  console.log('Schemas loaded from the filesystem:',
+    fileSystemErrors.length === 0 && fileSystemHelper.validateXml(orderXml('3')).length === 0);
+
+  const redefineHelper = new XmlHelper();
+  redefineHelper.loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:redefine schemaLocation="address.xsd">
+    <xs:complexType name="Address">
+      <xs:complexContent>
+        <xs:extension base="Address">
+          <xs:sequence><xs:element name="city" type="xs:string"/></xs:sequence>
+        </xs:extension>
+      </xs:complexContent>
+    </xs:complexType>
+  </xs:redefine>
+  <xs:element name="address" type="Address"/>
+</xs:schema>`, createMapSchemaResolver({
+    'address.xsd': `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:complexType name="Address">
+    <xs:sequence><xs:element name="street" type="xs:string"/></xs:sequence>
+  </xs:complexType>
+</xs:schema>`
+  }));
+  console.log('Redefined type extends the original:',
+    redefineHelper.validateXml('<address><street>Main St</street><city>Springfield</city></address>').length === 0 &&
+    redefineHelper.validateXml('<address><street>Main St</street></address>').some(error => error.code === 'MIN_OCCURS_VIOLATION'));
+
+  const groupRedefineHelper = new XmlHelper();
+  const contactSchema = `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:group name="Contact">
+    <xs:sequence><xs:element name="email" type="xs:string"/></xs:sequence>
+  </xs:group>
+  <xs:attributeGroup name="Tracked">
+    <xs:attribute name="id" type="xs:string"/>
+  </xs:attributeGroup>
+</xs:schema>`;
+  groupRedefineHelper.loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:redefine schemaLocation="contact.xsd">
+    <xs:group name="Contact">
+      <xs:sequence><xs:group ref="Contact"/><xs:element name="phone" type="xs:string"/></xs:sequence>
+    </xs:group>
+    <xs:attributeGroup name="Tracked">
+      <xs:attributeGroup ref="Tracked"/>
+      <xs:attribute name="version" type="xs:int" use="required"/>
+    </xs:attributeGroup>
+  </xs:redefine>
+  <xs:element name="contact">
+    <xs:complexType><xs:group ref="Contact"/><xs:attributeGroup ref="Tracked"/></xs:complexType>
+  </xs:element>
+</xs:schema>`, createMapSchemaResolver({ 'contact.xsd': contactSchema }));
+  console.log('Redefined groups extend the originals:',
+    groupRedefineHelper.validateXml('<contact id="c1" version="2"><email>a@b.c</email><phone>123</phone></contact>').length === 0 &&
+    groupRedefineHelper.validateXml('<contact version="2"><email>a@b.c</email></contact>').some(error => error.code === 'MIN_OCCURS_VIOLATION') &&
+    groupRedefineHelper.validateXml('<contact><email>a@b.c</email><phone>123</phone></contact>').some(error => error.code === 'MISSING_REQUIRED_ATTRIBUTE'));
+  const groupRedefineErrors = new XmlHelper().loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:redefine schemaLocation="contact.xsd"><xs:group name="Missing"><xs:sequence/></xs:group></xs:redefine>
+</xs:schema>`, createMapSchemaResolver({ 'contact.xsd': contactSchema }));
+  console.log('Redefining an unknown group reported:',
+    groupRedefineErrors.some(error => error.code === 'SCHEMA_ERROR' && error.message.includes("Redefined group 'Missing'")));
+
+  const duplicateErrors = new XmlHelper().loadSchemaSet([
+    { content: composedSchemas['party.xsd'], location: 'party.xsd' },
+    { content: composedSchemas['party.xsd'].replace('<xs:sequence>', '<xs:sequence><xs:element name="id" type="xs:string"/>'), location: 'party-copy.xsd' }
+  ]);
+  console.log('Duplicate component reported with its source:',
+    duplicateErrors.some(error => error.code === 'DUPLICATE_COMPONENT' && error.source === 'party-copy.xsd'));
+  const missingErrors = new XmlHelper().loadSchema(
+    '<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"><xs:include schemaLocation="missing.xsd"/></xs:schema>',
+    createMapSchemaResolver({})
+  );
+  console.log('Unresolvable schema location reported:', missingErrors.some(error => error.code === 'SCHEMA_NOT_FOUND'));
+  const unresolvedLocationErrors = new XmlHelper().loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:include schemaLocation="missing.xsd"/>
+  <xs:import namespace="urn:party" schemaLocation="party.xsd"/>
+  <xs:element name="note" type="xs:string"/>
+</xs:schema>`);
+  console.log('Schema locations skipped without a resolver:', unresolvedLocationErrors.length === 0);
+  const circularGroupErrors = new XmlHelper().loadSchemaSet([{ content: `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:include schemaLocation="groups.xsd"/>
+  <xs:group name="Outer"><xs:sequence><xs:group ref="Inner"/></xs:sequence></xs:group>
+</xs:schema>`, location: 'main.xsd' }], createMapSchemaResolver({ 'groups.xsd': `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:group name="Inner"><xs:sequence><xs:group ref="Outer"/></xs:sequence></xs:group>
+</xs:schema>` }));
+  console.log('Circular group reported once with its location:',
+    circularGroupErrors.length === 1 && circularGroupErrors[0].code === 'CIRCULAR_REFERENCE' && circularGroupErrors[0].line > 1);
+  const confinedDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'xml-helper-'));
+  fs.mkdirSync(path.join(confinedDirectory, 'schemas'));
+  fs.writeFileSync(path.join(confinedDirectory, 'secret.xsd'), composedSchemas['party.xsd']);
+  const confinedResolver = createFileSystemSchemaResolver(path.join(confinedDirectory, 'schemas'));
+  const confinedErrors = new XmlHelper().loadSchema(
+    '<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"><xs:import namespace="urn:party" schemaLocation="../secret.xsd"/></xs:schema>',
+    confinedResolver
+  );
+  console.log('Filesystem resolver stays in its directory:',
+    confinedErrors.some(error => error.code === 'SCHEMA_NOT_FOUND') &&
+    confinedResolver(path.join(confinedDirectory, 'secret.xsd')) === undefined);
+  fs.rmSync(confinedDirectory, { recursive: true, force: true });
+
+  // Test 20: Global components and references
+  console.log('\n🔗 Test 20: Global Attributes, Groups and References');
+  const referenceHelper = new XmlHelper();
+  const referenceErrors = referenceHelper.loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:attribute name="lang" type="xs:language"/>
+  <xs:attributeGroup name="audit">
+    <xs:attribute name="createdBy" type="xs:string" use="required"/>
+    <xs:attributeGroup ref="tracking"/>
+  </xs:attributeGroup>
+  <xs:attributeGroup name="tracking">
+    <xs:attribute name="revision" type="xs:positiveInteger"/>
+  </xs:attributeGroup>
+  <xs:group name="naming">
+    <xs:sequence>
+      <xs:element name="first" type="xs:string"/>
+      <xs:element name="last" type="xs:string"/>
+    </xs:sequence>
+  </xs:group>
+  <xs:element name="nickname" type="xs:string"/>
+  <xs:element name="person">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:group ref="naming"/>
+        <xs:element ref="nickname" minOccurs="0" maxOccurs="2"/>
+      </xs:sequence>
+      <xs:attribute ref="lang" use="required"/>
+      <xs:attributeGroup ref="audit"/>
+    </xs:complexType>
+  </xs:element>
+</xs:schema>`);
+  console.log('Global components and references loaded:', referenceErrors.length === 0);
+  console.log('Expanded definitions accepted:', referenceHelper.validateXml(
+    '<person lang="en" createdBy="admin" revision="2"><first>Ada</first><last>Lovelace</last><nickname>Countess</nickname></person>'
+  ).length === 0);
+  const referenceCases = [
+    { label: 'Referenced attribute type', code: 'INVALID_ATTRIBUTE_VALUE', xml: '<person lang="e n" createdBy="a"><first>A</first><last>L</last></person>' },
+    { label: 'Referenced attribute use', code: 'MISSING_REQUIRED_ATTRIBUTE', xml: '<person createdBy="a"><first>A</first><last>L</last></person>' },
+    { label: 'Nested attribute group', code: 'INVALID_ATTRIBUTE_VALUE', xml: '<person lang="en" createdBy="a" revision="0"><first>A</first><last>L</last></person>' },
+    { label: 'Group content', code: 'UNEXPECTED_ELEMENT_ORDER', xml: '<person lang="en" createdBy="a"><last>L</last><first>A</first></person>' },
+    { label: 'Element reference occurrence', code: 'MAX_OCCURS_VIOLATION', xml: '<person lang="en" createdBy="a"><first>A</first><last>L</last><nickname>x</nickname><nickname>y</nickname><nickname>z</nickname></person>' }
+  ];
+  referenceCases.forEach(({ label, code, xml }) => {
+    console.log(`  ${label} reported as ${code}:`, referenceHelper.validateXml(xml).some(error => error.code === code));
+  });
+  const unresolvedReferenceErrors = new XmlHelper().loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="a"><xs:complexType><xs:sequence><xs:element ref="missing"/></xs:sequence></xs:complexType></xs:element>
+</xs:schema>`);
+  console.log('Unresolved reference reported:', unresolvedReferenceErrors.some(error => error.code === 'UNRESOLVED_REFERENCE'));
+
+  // Test 21: Identity constraints
+  console.log('\n🔑 Test 21: Identity Constraints');
+  const identityHelper = new XmlHelper();
+  const identityErrors = identityHelper.loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="library">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="author" minOccurs="0" maxOccurs="unbounded">
+          <xs:complexType>
+            <xs:sequence><xs:element name="email" type="xs:string" minOccurs="0"/></xs:sequence>
+            <xs:attribute name="id" type="xs:string"/>
+          </xs:complexType>
+        </xs:element>
+        <xs:element name="book" minOccurs="0" maxOccurs="unbounded">
+          <xs:complexType>
+            <xs:attribute name="isbn" type="xs:string"/>
+            <xs:attribute name="author" type="xs:string"/>
+          </xs:complexType>
+        </xs:element>
+      </xs:sequence>
+    </xs:complexType>
+    <xs:key name="authorKey">
+      <xs:selector xpath="author"/>
+      <xs:field xpath="@id"/>
+    </xs:key>
+    <xs:unique name="authorEmail">
+      <xs:selector xpath=".//author"/>
+      <xs:field xpath="email"/>
+    </xs:unique>
+    <xs:keyref name="bookAuthor" refer="authorKey">
+      <xs:selector xpath="book"/>
+      <xs:field xpath="@author"/>
+    </xs:keyref>
+  </xs:element>
+</xs:schema>`);
+  console.log('Identity constraints loaded:', identityErrors.length === 0);
+  const libraryXml = (authors: string, books: string) => `<library>${authors}${books}</library>`;
+  console.log('Unique keys and matching keyrefs accepted:', identityHelper.validateXml(libraryXml(
+    '<author id="a1"><email>ada@example.com</email></author><author id="a2"/>',
+    '<book isbn="1" author="a1"/><book isbn="2" author=" a2 "/>'
+  )).length === 0);
+  const duplicateKeyErrors = identityHelper.validateXml(libraryXml('<author id="a1"/>\n<author id="a1"/>', ''));
+  console.log('Duplicate key reported at the second node:',
+    duplicateKeyErrors.some(error => error.code === 'DUPLICATE_KEY' && error.line === 2));
+  const identityCases = [
+    { label: 'Dangling reference', code: 'KEYREF_NOT_FOUND', xml: libraryXml('<author id="a1"/>', '<book isbn="1" author="a9"/>') },
+    { label: 'Duplicate unique value', code: 'DUPLICATE_KEY', xml: libraryXml('<author id="a1"><email>x</email></author><author id="a2"><email>x</email></author>', '') },
+    { label: 'Missing key field', code: 'KEY_FIELD_MISSING', xml: libraryXml('<author/>', '') }
+  ];
+  identityCases.forEach(({ label, code, xml }) => {
+    console.log(`  ${label} reported as ${code}:`, identityHelper.validateXml(xml).some(error => error.code === code));
+  });
+  const invalidXPathErrors = new XmlHelper().loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="a">
+    <xs:unique name="u"><xs:selector xpath="b/@c"/><xs:field xpath="."/></xs:unique>
+  </xs:element>
+</xs:schema>`);
+  console.log('Attribute step in selector rejected:', invalidXPathErrors.some(error => error.code === 'INVALID_XPATH'));
+  const typedKeyHelper = new XmlHelper();
+  typedKeyHelper.loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="shop">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="item" minOccurs="0" maxOccurs="unbounded">
+          <xs:complexType><xs:attribute name="id" type="xs:int"/></xs:complexType>
+        </xs:element>
+        <xs:element name="order" minOccurs="0" maxOccurs="unbounded" type="xs:int"/>
+      </xs:sequence>
+    </xs:complexType>
+    <xs:key name="itemKey"><xs:selector xpath="item"/><xs:field xpath="@id"/></xs:key>
+    <xs:keyref name="orderItem" refer="itemKey"><xs:selector xpath="order"/><xs:field xpath="."/></xs:keyref>
+  </xs:element>
+</xs:schema>`);
+  console.log('Key values compared by type:',
+    typedKeyHelper.validateXml('<shop><item id="1"/><item id="2"/><order>01</order><order>+2</order></shop>').length === 0 &&
+    typedKeyHelper.validateXml('<shop><item id="1"/><item id="01"/></shop>').some(error => error.code === 'DUPLICATE_KEY'));
+
+  // Test 22: Wildcards
+  console.log('\n🃏 Test 22: Wildcards');
+  const wildcardHelper = new XmlHelper();
+  const wildcardErrors = wildcardHelper.loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema" xmlns:d="urn:doc"
+    targetNamespace="urn:doc" elementFormDefault="qualified">
+  <xs:element name="note" type="xs:string"/>
+  <xs:attribute name="priority" type="xs:int"/>
+  <xs:element name="doc">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="title" type="xs:string"/>
+        <xs:any namespace="##other" processContents="lax" minOccurs="0" maxOccurs="unbounded"/>
+        <xs:any namespace="##targetNamespace" processContents="strict" minOccurs="0"/>
+        <xs:element name="extra" minOccurs="0">
+          <xs:complexType>
+            <xs:sequence>
+              <xs:any namespace="urn:a ##local" processContents="skip"/>
+            </xs:sequence>
+          </xs:complexType>
+        </xs:element>
+      </xs:sequence>
+      <xs:anyAttribute namespace="##targetNamespace urn:meta" processContents="lax"/>
+    </xs:complexType>
+  </xs:element>
+</xs:schema>`);
+  console.log('Wildcards loaded:', wildcardErrors.length === 0);
+  const docXml = (attributes: string, content: string) =>
+    `<doc xmlns="urn:doc" xmlns:d="urn:doc" xmlns:x="urn:x" xmlns:m="urn:meta" xmlns:a="urn:a"${attributes}><title>T</title>${content}</doc>`;
+  console.log('Wildcard content accepted:', wildcardHelper.validateXml(docXml(
+    ' m:source="scan" d:priority="2"',
+    '<x:foreign><x:anything/></x:foreign><note>N</note><extra><plain xmlns=""><deep/></plain></extra>'
+  )).length === 0);
+  const wildcardCases = [
+    { label: '##other rejects unqualified elements', code: 'UNEXPECTED_ELEMENT', xml: docXml('', '<plain xmlns=""/>') },
+    { label: 'Strict wildcard without declaration', code: 'ELEMENT_NOT_FOUND', xml: docXml('', '<summary>S</summary>') },
+    { label: 'Strict wildcard validates declaration', code: 'INVALID_CONTENT', xml: docXml('', '<note><x:b/></note>') },
+    { label: 'Namespace list rejects other namespace', code: 'UNEXPECTED_ELEMENT', xml: docXml('', '<extra><x:y/></extra>') },
+    { label: 'Attribute outside namespace constraint', code: 'UNEXPECTED_ATTRIBUTE', xml: docXml(' x:flag="1"', '') },
+    { label: 'Lax attribute with declaration', code: 'INVALID_ATTRIBUTE_VALUE', xml: docXml(' d:priority="high"', '') }
+  ];
+  wildcardCases.forEach(({ label, code, xml }) => {
+    console.log(`  ${label} reported as ${code}:`, wildcardHelper.validateXml(xml).some(error => error.code === code));
+  });
+
+  const anyTypeHelper = new XmlHelper();
+  anyTypeHelper.loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="count" type="xs:int"/>
+  <xs:element name="box" type="xs:anyType"/>
+</xs:schema>`);
+  console.log('xs:anyType accepts any attributes and mixed content:',
+    anyTypeHelper.validateXml('<box id="1" x:flag="yes" xmlns:x="urn:x">text <item a="b"><deep/></item> more <x:other/></box>').length === 0);
+  console.log('xs:anyType validates declared children laxly:',
+    anyTypeHelper.validateXml('<box><count>many</count></box>').some(error => error.code === 'INVALID_ELEMENT_VALUE'));
+
+  // Test 23: Attribute handling
+  console.log('\n🏷️ Test 23: Attribute handling');
+  const attributeHelper = new XmlHelper();
+  const attributeSchemaErrors = attributeHelper.loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema" xmlns:p="urn:p"
+    targetNamespace="urn:p" attributeFormDefault="unqualified">
+  <xs:complexType name="BaseType">
+    <xs:attribute name="legacy" type="xs:string" use="prohibited"/>
+    <xs:attribute name="unit" default="cm">
+      <xs:simpleType>
+        <xs:restriction base="xs:string">
+          <xs:enumeration value="cm"/>
+          <xs:enumeration value="in"/>
+        </xs:restriction>
+      </xs:simpleType>
+    </xs:attribute>
+    <xs:attribute name="version" type="xs:int" fixed="2"/>
+  </xs:complexType>
+  <xs:element name="size" type="p:BaseType"/>
+  <xs:element name="label" type="xs:string"/>
+</xs:schema>`);
+  console.log('Attribute schema loaded:', attributeSchemaErrors.length === 0);
+  const sizeXml = (attributes: string) =>
+    `<p:size xmlns:p="urn:p" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="urn:p size.xsd"${attributes}/>`;
+  console.log('Inline attribute type and xsi attributes accepted:', attributeHelper.validateXml(sizeXml(' unit="in"')).length === 0);
+  const attributeCases = [
+    { label: 'Inline attribute type', code: 'ENUMERATION_VIOLATION', xml: sizeXml(' unit="mm"') },
+    { label: 'Prohibited attribute', code: 'PROHIBITED_ATTRIBUTE', xml: sizeXml(' legacy="x"') },
+    { label: 'Fixed attribute', code: 'FIXED_VALUE_VIOLATION', xml: sizeXml(' version="3"') },
+    { label: 'Attribute on a simple type element', code: 'UNEXPECTED_ATTRIBUTE', xml: '<p:label xmlns:p="urn:p" lang="en">L</p:label>' }
+  ];
+  attributeCases.forEach(({ label, code, xml }) => {
+    console.log(`  ${label} reported as ${code}:`, attributeHelper.validateXml(xml).some(error => error.code === code));
+  });
+  const sizeNode = new XmlParser({ namespaceAware: true }).parse(sizeXml('')).node!;
+  const attributeValidator = new XmlValidator(attributeHelper.getSchema()!);
+  console.log('Defaults applied to the tree:',
+    attributeValidator.validate(sizeNode).length === 0 && sizeNode.attributes.unit === 'cm' && sizeNode.attributes.version === '2');
+  const plainSizeNode = new XmlParser().parse('<size xmlns="urn:p"/>').node!;
+  console.log('Defaults can be left out:',
+    new XmlValidator(attributeHelper.getSchema()!, { applyDefaultAttributes: false }).validate(plainSizeNode).length === 0 &&
+    plainSizeNode.attributes.unit === undefined);
+  console.log('Default on a required attribute rejected:', new XmlHelper().loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="a"><xs:complexType><xs:attribute name="b" use="required" default="x"/></xs:complexType></xs:element>
+</xs:schema>`).some(error => error.code === 'SCHEMA_ERROR'));
+
+  // Test 24: Annotated tree and typed values
+  console.log('\n🔬 Test 24: Annotated tree and typed values');
+  const infosetHelper = new XmlHelper();
+  const infosetSchemaErrors = infosetHelper.loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:simpleType name="Sizes">
+    <xs:list itemType="xs:int"/>
+  </xs:simpleType>
+  <xs:element name="order">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="zip" type="xs:string"/>
+        <xs:element name="code" type="xs:string"/>
+        <xs:element name="amount" type="xs:decimal"/>
+        <xs:element name="placed" type="xs:date"/>
+        <xs:element name="express" type="xs:boolean" default="false"/>
+        <xs:element name="currency" type="xs:string" fixed="EUR" minOccurs="0"/>
+      </xs:sequence>
+      <xs:attribute name="sizes" type="Sizes"/>
+      <xs:attribute name="count" type="xs:int" default="1"/>
+    </xs:complexType>
+  </xs:element>
+</xs:schema>`);
+  console.log('Infoset schema loaded:', infosetSchemaErrors.length === 0);
+  const annotated = infosetHelper.annotateXml(
+    '<order sizes="1 2 3"><zip>00123</zip><code>1e5</code><amount>12.50</amount><placed>2024-01-31</placed><express/><currency/></order>'
+  );
+  const orderNode = annotated.node!;
+  const childNode = (name: string) => orderNode.children.find(child => child.name === name)!;
+  console.log('Annotated document is valid:', annotated.errors.length === 0);
+  console.log('Resolved types recorded:', orderNode.schemaType === '#inline-order' && childNode('placed').schemaType === 'date');
+  console.log('Typed values recorded:',
+    childNode('zip').typedValue === '00123' && childNode('amount').typedValue === 12.5 && childNode('placed').typedValue instanceof Date);
+  console.log('List attribute typed as array:', JSON.stringify(orderNode.typedAttributes?.sizes) === '[1,2,3]');
+  console.log('Element defaults filled:', childNode('express').typedValue === false && childNode('currency').text === 'EUR');
+  console.log('Attribute defaults filled:', orderNode.typedAttributes?.count === 1);
+  const typedJson = new XmlToJsonConverter().convert(orderNode);
+  console.log('JSON uses schema types:',
+    typedJson.zip === '00123' && typedJson.code === '1e5' && typedJson.amount === 12.5 && typedJson.express === false &&
+    JSON.stringify(typedJson['@sizes']) === '[1,2,3]' && typedJson.placed === '2024-01-31');
+  console.log('Fixed element value enforced:', infosetHelper.validateXml(
+    '<order><zip>1</zip><code>c</code><amount>1</amount><placed>2024-01-31</placed><express/><currency>USD</currency></order>'
+  ).some(error => error.code === 'FIXED_VALUE_VIOLATION'));
+
+  // Test 25: Schema-driven XML to JSON
+  console.log('\n🧭 Test 25: Schema-driven XML to JSON');
+  const shapeHelper = new XmlHelper();
+  const shapeSchemaErrors = shapeHelper.loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="shelf">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="label" type="xs:string"/>
+        <xs:element name="book" maxOccurs="unbounded">
+          <xs:complexType>
+            <xs:sequence>
+              <xs:element name="title" type="xs:string"/>
+              <xs:element name="isbn" type="xs:string"/>
+            </xs:sequence>
+            <xs:attribute name="id" type="xs:string"/>
+            <xs:attribute name="pages" type="xs:int"/>
+          </xs:complexType>
+        </xs:element>
+        <xs:sequence maxOccurs="3">
+          <xs:element name="tag" type="xs:token"/>
+        </xs:sequence>
+      </xs:sequence>
+    </xs:complexType>
+  </xs:element>
+</xs:schema>`);
+  console.log('Shape schema loaded:', shapeSchemaErrors.length === 0);
+  const shapeResult = shapeHelper.xmlToJson(
+    '<shelf><label>007</label><book pages="120" id="0042"><isbn>0123456789</isbn><title>true</title></book><tag>new</tag></shelf>',
+    { useSchema: true }
+  );
+  const shelf = shapeResult.data;
+  console.log('Single entries of repeated elements are arrays:',
+    shapeResult.success && Array.isArray(shelf.book) && shelf.book.length === 1 && Array.isArray(shelf.tag));
+  console.log('Values coerced by declared type:',
+    shelf.label === '007' && shelf.book[0]['@id'] === '0042' && shelf.book[0]['@pages'] === 120 && shelf.book[0].title === 'true');
+  console.log('Keys follow declaration order:', JSON.stringify(Object.keys(shelf.book[0])) === '["@id","@pages","title","isbn"]');
+  const jsonSafeHelper = new XmlHelper();
+  jsonSafeHelper.loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="event">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="big" type="xs:long"/>
+        <xs:element name="huge" type="xs:integer"/>
+        <xs:element name="small" type="xs:integer"/>
+        <xs:element name="on" type="xs:date"/>
+        <xs:element name="at" type="xs:dateTime"/>
+        <xs:element name="data" type="xs:hexBinary"/>
+      </xs:sequence>
+    </xs:complexType>
+  </xs:element>
+</xs:schema>`);
+  const jsonSafeResult = jsonSafeHelper.xmlToJson(
+    '<event><big>9007199254740993</big><huge>-123456789012345678901234567890</huge><small>42</small>' +
+    '<on>2024-02-29+05:00</on><at> 2024-02-29T10:30:00-08:00 </at><data>0AFF</data></event>',
+    { useSchema: true }
+  );
+  console.log('Schema-typed JSON can be serialized:', JSON.stringify(jsonSafeResult.data) ===
+    '{"big":"9007199254740993","huge":"-123456789012345678901234567890","small":42,' +
+    '"on":"2024-02-29+05:00","at":"2024-02-29T10:30:00-08:00","data":"0AFF"}');
+  console.log('Without schema single entries stay objects:', !Array.isArray(shapeHelper.xmlToJson('<shelf><book id="1"/></shelf>').data.book));
+
+  // Test 26: Ordered round trip
+  console.log('\n🔁 Test 26: Ordered round trip');
+  const orderedXml = '<doc xmlns="urn:d" xmlns:x="urn:x" x:id="1 &lt; 2"><title>T</title><x:note>N&amp;M</x:note>' +
+    '<title>U</title><p>Hello,<b>World</b>!</p><empty></empty></doc>';
+  const orderedResult = xmlHelper.xmlToJson(orderedXml, { format: 'ordered' });
+  const orderedDoc = orderedResult.data;
+  console.log('Ordered form is JsonML-like:',
+    orderedResult.success && orderedDoc[0] === 'doc' && orderedDoc[1]['x:id'] === '1 < 2' && orderedDoc[2][0] === 'title');
+  console.log('Sibling order kept:', JSON.stringify(orderedDoc.slice(2).map((child: any[]) => child[0])) ===
+    '["title","x:note","title","p","empty"]');
+  console.log('Mixed content kept:', JSON.stringify(orderedDoc[5]) === '["p","Hello,",["b","World"],"!"]');
+  console.log('Round trip is byte-equivalent:',
+    xmlHelper.jsonToXml(orderedDoc, undefined, { format: 'ordered', declaration: false }) === orderedXml);
+  const markedUpXml = '<!-- pre -->\n<?pi x?>\n<r/>\n<!-- post -->';
+  const markedUpDoc = xmlHelper.xmlToJson(markedUpXml, { format: 'ordered' }).data;
+  console.log('Markup around the root kept in a document array:',
+    JSON.stringify(markedUpDoc) === '["#document",["#comment"," pre "],["?pi","x"],["r"],["#comment"," post "]]');
+  console.log('Document round trip is canonical XML:',
+    xmlHelper.jsonToXml(markedUpDoc, undefined, { format: 'ordered', declaration: false }) === '<!-- pre -->\n<?pi x?>\n<r></r>\n<!-- post -->');
+  console.log('Documents without markup around the root stay a single element:',
+    xmlHelper.xmlToJson('<!-- pre --><r/>', { format: 'ordered', comments: false }).data[0] === 'r');
+  const misplacedAttributesRejected = [['r', {}, { x: 1 }], ['r', 'text', { x: 1 }], ['r', ['c', {}, {}]]].every(element => {
+    try {
+      xmlHelper.jsonToXml(element, undefined, { format: 'ordered', declaration: false });
+      return false;
+    } catch (error) {
+      return error instanceof Error && error.message.includes('attribute object');
+    }
+  });
+  console.log('Objects after the attributes position rejected:', misplacedAttributesRejected);
+  orderedDoc[3][1] = 'Edited';
+  console.log('Edited document written back:',
+    xmlHelper.jsonToXml(orderedDoc, undefined, { format: 'ordered', declaration: false }).includes('<x:note>Edited</x:note><title>U</title>'));
+
+  // Test 27: CDATA, comments and processing instructions
+  console.log('\n💬 Test 27: CDATA, comments and processing instructions');
+  const feedBody = '<feed><title><![CDATA[<b>Bold</b> & more]]></title><!-- note --><item>1</item><?proc data?></feed>';
+  const feedXml = `<?xml version="1.0"?>\n<!-- head -->\n<?xml-stylesheet href="s.xsl"?>\n${feedBody}\n<!-- tail -->`;
+  const { node: feedNode, errors: feedErrors } = xmlHelper.parseXml(feedXml);
+  console.log('Document with markup parsed:', feedErrors.length === 0 && feedNode !== null);
+  console.log('Prolog and epilog kept:',
+    feedNode!.prolog?.map(node => node.name).join() === '#comment,#processing-instruction' &&
+    feedNode!.prolog?.[1].target === 'xml-stylesheet' && feedNode!.prolog?.[1].location?.start.line === 3 &&
+    feedNode!.epilog?.[0].text === ' tail ');
+  const titleNode = feedNode!.children[0];
+  console.log('CDATA section is a node with its text:',
+    titleNode.children[0].name === '#cdata-section' && titleNode.text === '<b>Bold</b> & more' && titleNode.children[0].location?.start.line === 4);
+  console.log('Comment and processing instruction in content:',
+    feedNode!.children.map(node => node.name).join() === 'title,#comment,item,#processing-instruction' && feedNode!.children[3].text === 'data');
+  const compactFeed = xmlHelper.xmlToJson(feedXml).data;
+  console.log('Compact form drops markup by default:', compactFeed.title === '<b>Bold</b> & more' && compactFeed['#comment'] === undefined);
+  console.log('Compact form keeps markup on request:',
+    xmlHelper.xmlToJson(feedXml, { comments: true, processingInstructions: true }).data['#comment'] === ' note ');
+  const feedWithMarkup = xmlHelper.xmlToJson(feedXml, { comments: true, processingInstructions: true }).data;
+  console.log('Compact form keeps markup around the root on request:',
+    JSON.stringify(feedWithMarkup['#prolog']) === '[["#comment"," head "],["?xml-stylesheet","href=\\"s.xsl\\""]]' &&
+    JSON.stringify(feedWithMarkup['#epilog']) === '[["#comment"," tail "]]' && compactFeed['#prolog'] === undefined);
+  const feedWritten = xmlHelper.jsonToXml(feedWithMarkup, 'feed');
+  console.log('Markup around the root written from compact JSON:',
+    feedWritten.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<!-- head -->\n<?xml-stylesheet href="s.xsl"?>\n<feed>') &&
+    feedWritten.endsWith('</feed>\n<!-- tail -->\n') &&
+    !xmlHelper.jsonToXml(feedWithMarkup, 'feed', { comments: false }).includes('head'));
+  console.log('Text-only root keeps its text next to the markup:',
+    JSON.stringify(xmlHelper.xmlToJson('<!-- c --><n>5</n>', { comments: true }).data) === '{"#prolog":[["#comment"," c "]],"#text":5}');
+  const orderedFeed = xmlHelper.xmlToJson(feedXml, { format: 'ordered' }).data;
+  console.log('Ordered form keeps markup:', JSON.stringify(orderedFeed[3].slice(1, 3)) ===
+    '[["title",["#cdata-section","<b>Bold</b> & more"]],["#comment"," note "]]' &&
+    JSON.stringify(orderedFeed[2]) === '["?xml-stylesheet","href=\\"s.xsl\\""]');
+  console.log('Ordered round trip keeps markup:', xmlHelper.jsonToXml(orderedFeed, undefined, { format: 'ordered', declaration: false }) ===
+    `<!-- head -->\n<?xml-stylesheet href="s.xsl"?>\n${feedBody}\n<!-- tail -->`);
+  console.log('Markup dropped on request:',
+    xmlHelper.jsonToXml(orderedFeed, undefined, { format: 'ordered', declaration: false, comments: false, processingInstructions: false, cdata: false }) ===
+    '<feed><title>&lt;b&gt;Bold&lt;/b&gt; &amp; more</title><item>1</item></feed>');
+  console.log('Comments written from compact JSON:',
+    xmlHelper.jsonToXml({ '#comment': 'generated', value: 1 }, 'data', { declaration: false }).includes('<!--generated-->'));
+  const commentHelper = new XmlHelper();
+  commentHelper.loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"><xs:element name="count" type="xs:int"/></xs:schema>`);
+  console.log('Comments ignored by validation:', commentHelper.validateXml('<count><!-- five -->5</count>').length === 0);
+
+  // Test 28: Whitespace and mixed content
+  console.log('\n␣ Test 28: Whitespace and mixed content');
+  const proseNode = xmlHelper.parseXml('<p>Hello <b>world</b>! <i>Bye</i></p>').node!;
+  console.log('Text runs kept exactly:', JSON.stringify(proseNode.children.map(child => child.name === '#text' ? child.text : child.name)) ===
+    '["Hello ","b","! ","i"]');
+  console.log('Text-only content not trimmed:', xmlHelper.parseXml('<a>  two  spaces </a>').node!.text === '  two  spaces ');
+  const indentedXml = '<r>\n  <a>1</a>\n  <b>2</b>\n</r>';
+  console.log('Whitespace between elements normalized:',
+    xmlHelper.parseXml(indentedXml).node!.children.map(child => child.name).join() === 'a,b');
+  console.log('Whitespace between elements preserved on request:',
+    xmlHelper.parseXml(indentedXml, { whitespace: 'preserve' }).node!.children.length === 5);
+  const spaceNode = xmlHelper.parseXml('<r xml:space="preserve"> <a> <x/> </a> <b xml:space="default"> <x/> </b></r>').node!;
+  console.log('xml:space="preserve" is inherited and reset by "default":',
+    spaceNode.children.length === 4 && spaceNode.children[1].children.length === 3 && spaceNode.children[3].children.length === 1);
+  const prettyXml = '<doc>\n  <p>Hello <b>world</b>!</p>\n  <p>Tab\there</p>\n</doc>';
+  console.log('Ordered round trip keeps indentation:', xmlHelper.jsonToXml(
+    xmlHelper.xmlToJson(prettyXml, { format: 'ordered' }).data, undefined, { format: 'ordered', declaration: false }
+  ) === prettyXml);
+  console.log('Compact form joins text runs:', xmlHelper.xmlToJson('<p>Hello <b>world</b>!</p>').data['#text'] === 'Hello !');
+  const personJson = xmlHelper.xmlToJson('<person>\n  <name>\n    Ann\n  </name>\n  <age>\n    30\n  </age>\n</person>').data;
+  console.log('Compact form trims pretty-printed leaf text:', personJson.name === 'Ann' && personJson.age === 30);
+  console.log('Compact form keeps text where xml:space="preserve" applies:',
+    JSON.stringify(xmlHelper.xmlToJson('<r xml:space="preserve"><code> x = 1 </code></r>').data) === '{"@xml:space":"preserve","code":" x = 1 "}');
+  console.log('Trimming turned off on request:', xmlHelper.xmlToJson('<r><a> 30 </a></r>', { trimText: false }).data.a === ' 30 ');
+  const proseHelper = new XmlHelper();
+  proseHelper.loadSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="doc">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="p" maxOccurs="unbounded">
+          <xs:complexType mixed="true">
+            <xs:sequence><xs:element name="b" type="xs:string" minOccurs="0"/></xs:sequence>
+          </xs:complexType>
+        </xs:element>
+      </xs:sequence>
+    </xs:complexType>
+  </xs:element>
+</xs:schema>`);
+  console.log('Indented element-only content is valid:', proseHelper.validateXml('<doc>\n  <p>Hello <b>world</b>!</p>\n</doc>').length === 0);
+  console.log('Text in element-only content still rejected:',
+    proseHelper.validateXml('<doc> stray <p>x</p></doc>').some(error => error.code === 'INVALID_CONTENT'));
+
+  // Test 29: DTD
+  console.log('\n📜 Test 29: DTD');
+  const dtdXml = `<!DOCTYPE library [
+  <!ENTITY publisher "Acme &amp; Sons">
+  <!ENTITY imprint "&publisher; Ltd">
+  <!ENTITY notice "<note>Reprinted by &imprint;</note>">
+  <!ELEMENT library (book+, note?)>
+  <!ELEMENT book (#PCDATA)>
+  <!ELEMENT note (#PCDATA)>
+  <!ATTLIST book
+    id ID #REQUIRED
+    lang (en|de) "en"
+    series IDREF #IMPLIED>
+]>
+<library>
+  <book id="b1">&imprint;</book>
+  <book id="b2" lang="de" series="b1">Zwei</book>
+  &notice;
+</library>`;
+  const dtdNode = xmlHelper.parseXml(dtdXml).node!;
+  console.log('Doctype recorded on the root:', dtdNode.doctype?.name === 'library' && Object.keys(dtdNode.doctype.elements).length === 3);
+  console.log('Nested entities expanded:', dtdNode.children[0].text === 'Acme & Sons Ltd');
+  console.log('Markup entities become nodes:', dtdNode.children[2]?.name === 'note' && dtdNode.children[2].text === 'Reprinted by Acme & Sons Ltd');
+  console.log('Default attributes applied:', dtdNode.children[0].attributes.lang === 'en' && dtdNode.children[1].attributes.lang === 'de');
+  console.log('Valid document passes DTD validation:', xmlHelper.validateDtd(dtdXml).length === 0);
+  const invalidDtdErrors = xmlHelper.validateDtd(dtdXml
+    .replace('<book id="b1">', '<book id="b2" lang="fr">')
+    .replace('&notice;', '<note/><note/>'));
+  console.log('DTD errors reported:', ['DUPLICATE_ID', 'INVALID_ATTRIBUTE_VALUE', 'INVALID_CONTENT']
+    .every(code => invalidDtdErrors.some(error => error.code === code)));
+  console.log('Missing IDs and required attributes reported:', xmlHelper.validateDtd(dtdXml.replace(' series="b1"', ' series="b9"').replace(' id="b1"', ''))
+    .map(error => error.code).sort().join() === 'IDREF_NOT_FOUND,MISSING_REQUIRED_ATTRIBUTE');
+  console.log('Undeclared elements reported:', xmlHelper.validateDtd(dtdXml.replace('Zwei', '<b>Zwei</b>'))
+    .some(error => error.code === 'UNDECLARED_ELEMENT' && error.line === 15));
+  console.log('Documents without DTD reported:', xmlHelper.validateDtd('<root/>')[0]?.code === 'NO_DTD');
+
+  const laughs = Array.from({ length: 9 }, (_, i) => `<!ENTITY lol${i + 1} "${`&lol${i};`.repeat(10)}">`).join('');
+  const laughsResult = xmlHelper.parseXml(`<!DOCTYPE lolz [<!ENTITY lol0 "lol">${laughs}]><lolz>&lol9;</lolz>`);
+  console.log('Billion laughs stopped:', laughsResult.node === null && laughsResult.errors[0]?.code === 'ENTITY_EXPANSION_LIMIT');
+  const recursiveResult = xmlHelper.parseXml('<!DOCTYPE r [<!ENTITY a "&b;"><!ENTITY b "&a;">]>\n<r>&a;</r>');
+  console.log('Recursive entities rejected:', recursiveResult.errors[0]?.code === 'RECURSIVE_ENTITY' && recursiveResult.errors[0].line === 2);
+  console.log('Markup entities rejected in attributes:',
+    xmlHelper.parseXml('<!DOCTYPE r [<!ENTITY e "<x/>">]><r a="&e;"/>').errors[0]?.code === 'INVALID_ENTITY_REFERENCE');
+  const emptyAnyXml = '<!DOCTYPE a [<!ELEMENT a ANY><!ELEMENT br EMPTY>]><a><br/>text</a>';
+  const emptyAnyResult = xmlHelper.parseXml(emptyAnyXml);
+  console.log('EMPTY and ANY declarations followed by >:', emptyAnyResult.errors.length === 0 &&
+    emptyAnyResult.node?.doctype?.elements.a.content === 'any' && emptyAnyResult.node.doctype.elements.br.content === 'empty');
+  console.log('EMPTY and ANY content validated:', xmlHelper.validateDtd(emptyAnyXml).length === 0 &&
+    xmlHelper.validateDtd(emptyAnyXml.replace('<br/>', '<br>x</br>'))[0]?.code === 'INVALID_CONTENT' &&
+    xmlHelper.xmlToJson(emptyAnyXml).success);
+  const badDtdResult = xmlHelper.parseXml('<!DOCTYPE r [\n<!ELEMENT r (a|b,c)>\n]><r/>');
+  console.log('DTD syntax errors located:', badDtdResult.errors[0]?.code === 'INVALID_DTD' && badDtdResult.errors[0].line === 2);
+
+  // Test 30: Well-formedness conformance
+  console.log('\n📏 Test 30: Well-formedness conformance');
+  const strictParser = new XmlParser({ strict: true });
+  const failedCases = CONFORMANCE_CASES.filter(testCase => {
+    const { errors } = strictParser.parse(testCase.xml);
+    return testCase.code === undefined ? errors.length > 0 : errors[0]?.code !== testCase.code;
+  });
+  console.log(`All ${CONFORMANCE_CASES.length} conformance cases pass:`, failedCases.length === 0);
+  failedCases.forEach(testCase => console.log('  Failed:', testCase.id, JSON.stringify(strictParser.parse(testCase.xml).errors)));
+  console.log('Lenient mode keeps accepting sloppy documents:',
+    ['<doc a="1" a="2"/>', '<doc/>trailing', '<doc><a></a>', '<doc>\u0001</doc>'].every(xml => xmlHelper.parseXml(xml).errors.length === 0));
+  console.log('Astral character references decoded:', xmlHelper.parseXml('<doc>&#x1F600;</doc>').node?.text === '😀');
+  const invalidCharacterError = strictParser.parse('<doc>\n  ok\u0007</doc>').errors[0];
+  console.log('Invalid characters located:', invalidCharacterError?.line === 2 && invalidCharacterError.column === 5);
+
+  // Test 31: Error recovery
+  console.log('\n🩹 Test 31: Error recovery');
+  const brokenXml = '<catalog>\n  <book id="1>\n  <title>One</titel>\n  <book id=2><title>Two & more</title></book>\n</catalog>';
+  const stoppingResult = xmlHelper.parseXml(brokenXml);
+  console.log('Without recovery parsing stops at the first error:', stoppingResult.node === null && stoppingResult.errors.length === 1);
+  const bareAmpersand = xmlHelper.parseXml('<a t="x & y">A & B &amp; C</a>');
+  console.log('Lenient parsing keeps a bare & as text:', bareAmpersand.errors.length === 0 &&
+    bareAmpersand.node?.text === 'A & B & C' && bareAmpersand.node.attributes.t === 'x & y');
+  const recovered = xmlHelper.parseXml(brokenXml, { recover: true });
+  console.log('Every error reported with its code:', JSON.stringify(recovered.errors.map(error => error.code)) ===
+    '["UNTERMINATED_ATTRIBUTE","MISMATCHED_END_TAG","UNQUOTED_ATTRIBUTE_VALUE","INVALID_REFERENCE","MISMATCHED_END_TAG"]');
+  console.log('Errors located:', recovered.errors[0].line === 2 && recovered.errors[0].column === 12 && recovered.errors[1].line === 3);
+  // The misspelled end tag is skipped, so the second book ends up inside the open title
+  const recoveredTitle = recovered.node?.children[0]?.children[0];
+  console.log('Partial tree returned:', recovered.node?.name === 'catalog' && recovered.node.children[0].attributes.id === '1' &&
+    recoveredTitle?.name === 'title' && recoveredTitle.children.map(child => child.name).join() === '#text,book');
+  const secondBook = recoveredTitle?.children[1];
+  console.log('Content after errors kept:', secondBook?.attributes.id === '2' && secondBook.children[0]?.text === 'Two & more');
+  const strayEnd = xmlHelper.parseXml('<a><b>x</c></b><d>y</a>', { recover: true });
+  console.log('Stray end tags skipped, unclosed elements closed by their parent:',
+    strayEnd.node?.children.map(child => `${child.name}:${child.text}`).join() === 'b:x,d:y' &&
+    strayEnd.errors.map(error => error.code).join() === 'MISMATCHED_END_TAG,MISMATCHED_END_TAG');
+  console.log('Mismatched end tag code without recovery:', xmlHelper.parseXml('<a><b></a>').errors[0]?.code === 'MISMATCHED_END_TAG');
+  const recoveredStrict = new XmlParser({ recover: true, strict: true }).parse('<a x="1" x="2">]]>\u0001</a><b/>');
+  console.log('Strict errors collected too:', recoveredStrict.node !== null && recoveredStrict.errors.map(error => error.code).join() ===
+    'INVALID_CHARACTER,DUPLICATE_ATTRIBUTE,CDATA_END_IN_TEXT,CONTENT_AFTER_ROOT');
+
+  // Test 32: Streaming SAX parser
+  console.log('\n🌊 Test 32: Streaming SAX parser');
+  const saxEventNames = ['startElement', 'endElement', 'text', 'cdata', 'comment', 'processingInstruction', 'doctype', 'error', 'end'] as const;
+  // Events as [name, payload] pairs, with adjacent text events merged since text may be emitted in pieces
+  const collectSaxEvents = (chunks: (Buffer | string)[]) => {
+    const parser = new SaxParser();
+    const events: [string, any][] = [];
+    for (const eventName of saxEventNames) {
+      parser.on(eventName, (payload?: any) => {
+        const last = events[events.length - 1];
+        if (eventName === 'text' && last?.[0] === 'text') {
+          last[1] = { text: last[1].text + payload.text, location: { start: last[1].location.start, end: payload.location.end } };
+        } else {
+          events.push([eventName, payload]);
+        }
+      });
+    }
+    chunks.forEach(chunk => parser.write(chunk));
+    parser.end();
+    return events;
+  };
+  const saxXml = `<?xml version="1.0"?>
+<!DOCTYPE catalog [<!ENTITY credit "<by>Zoë &amp; Ann</by>">]>
+<catalog region="eu &amp; uk">
+  <item sku="a1">Crème brûlée &credit; 😀</item>
+  <![CDATA[<raw>]]><!-- note --><?render fast?><empty/>
+</catalog>`;
+  const saxBytes = Buffer.from(saxXml);
+  const saxEvents = collectSaxEvents([saxBytes]);
+  console.log('Events emitted in document order:', saxEvents.map(([eventName]) => eventName).join() ===
+    'doctype,startElement,text,startElement,text,startElement,text,endElement,text,endElement,text,cdata,comment,processingInstruction,startElement,endElement,text,endElement,end');
+  const saxItem = saxEvents.find(([eventName, payload]) => eventName === 'startElement' && payload.name === 'item')?.[1];
+  console.log('Start elements carry attributes and positions:', saxEvents[1][1].attributes.region === 'eu & uk' &&
+    saxItem?.location.start.line === 4 && saxItem.location.start.column === 3 && saxItem.attributeLocations.sku.start.column === 9);
+  console.log('Entity markup emitted at the reference:', saxEvents[5][1].name === 'by' && saxEvents[6][1].text === 'Zoë & Ann' &&
+    saxEvents[5][1].location.start.column === 31);
+  console.log('CDATA, comments and processing instructions emitted:', saxEvents[11][1].text === '<raw>' && saxEvents[12][1].text === ' note ' &&
+    saxEvents[13][1].target === 'render' && saxEvents[13][1].data === 'fast');
+  const saxEventsJson = JSON.stringify(saxEvents);
+  let splitMismatch = -1;
+  for (let split = 1; split < saxBytes.length && splitMismatch === -1; split++) {
+    if (JSON.stringify(collectSaxEvents([saxBytes.subarray(0, split), saxBytes.subarray(split)])) !== saxEventsJson) {
+      splitMismatch = split;
+    }
+  }
+  console.log('Same events for a split at every byte:', splitMismatch === -1);
+  console.log('Same events for one byte at a time:',
+    JSON.stringify(collectSaxEvents(Array.from(saxBytes, byte => Buffer.from([byte])))) === saxEventsJson);
+
+  const longText = 'a&amp;b\n'.repeat(20000);
+  const longTextParser = new SaxParser();
+  const longTextPieces: string[] = [];
+  longTextParser.on('text', ({ text }) => longTextPieces.push(text));
+  longTextParser.write('<log>');
+  for (let i = 0; i < longText.length; i += 4096) {
+    longTextParser.write(longText.substring(i, i + 4096));
+  }
+  console.log('Long text emitted before its end arrives:', longTextPieces.length > 0);
+  longTextParser.end('</log>');
+  console.log('Long text complete:', longTextPieces.join('') === 'a&b\n'.repeat(20000));
+
+  const saxErrorCode = (xml: string) => collectSaxEvents([xml]).find(([eventName]) => eventName === 'error')?.[1].code;
+  console.log('Well-formedness errors emitted:', [
+    ['<a><b></a>', 'MISMATCHED_END_TAG'],
+    ['<a><b>', 'UNCLOSED_ELEMENT'],
+    ['<a/><b/>', 'CONTENT_AFTER_ROOT'],
+    ['', 'MISSING_ROOT_ELEMENT'],
+    ['<a b="1" b="2"/>', 'DUPLICATE_ATTRIBUTE'],
+    ['<!DOCTYPE a [<!ENTITY e "<b>">]><a>&e;</a>', 'UNCLOSED_ELEMENT']
+  ].every(([xml, code]) => saxErrorCode(xml) === code));
+  const failedSaxEvents = collectSaxEvents(['<a>\n  <b></c>', '<d/></a>']);
+  const saxError = failedSaxEvents[failedSaxEvents.length - 1];
+  console.log('Nothing emitted after an error:', saxError[0] === 'error' && saxError[1].position.line === 2 && saxError[1].position.column === 6);
+  const strictSaxErrorCode = (chunks: string[]) => {
+    const parser = new SaxParser({ strict: true });
+    let code: string | undefined;
+    parser.on('error', error => code ??= error.code);
+    chunks.forEach(chunk => parser.write(chunk));
+    parser.end();
+    return code;
+  };
+  // Split into single UTF-16 code units, so surrogate pairs and every token arrive in pieces
+  const failedSaxCases = CONFORMANCE_CASES.filter(testCase =>
+    strictSaxErrorCode([testCase.xml]) !== testCase.code || strictSaxErrorCode(testCase.xml.split('')) !== testCase.code);
+  console.log(`All ${CONFORMANCE_CASES.length} conformance cases pass with strict SAX parsing, in any chunks:`, failedSaxCases.length === 0);
+  failedSaxCases.forEach(testCase => console.log('  Failed:', testCase.id, strictSaxErrorCode([testCase.xml])));
+  console.log('Lenient SAX parsing keeps accepting < in attribute values:', saxErrorCode('<a b="<"/>') === undefined);
+  const bareAmpersandEvents = collectSaxEvents(['<a t="x & y">A &', ' B</a>']);
+  console.log('Lenient SAX parsing keeps a bare & as text:',
+    bareAmpersandEvents.every(([eventName]) => eventName !== 'error') &&
+    bareAmpersandEvents.some(([eventName, payload]) => eventName === 'startElement' && payload.attributes.t === 'x & y') &&
+    bareAmpersandEvents.some(([eventName, payload]) => eventName === 'text' && payload.text === 'A & B'));
+
+  // Test 33: Stream conversion
+  console.log('\n🚰 Test 33: Stream conversion');
+  const catalogXml = `<?xml version="1.0"?>
+<library>
+  <book id="1"><title>Crème &amp; Co</title><price>9.5</price></book>
+  <book id="2"><title>Two</title><note>a <em>b</em> c</note></book>
+  <shelf><book id="3"/></shelf>
+</library>`;
+  const catalogBytes = Buffer.from(catalogXml);
+  const catalogChunks = Array.from({ length: Math.ceil(catalogBytes.length / 5) }, (_, i) => catalogBytes.subarray(i * 5, i * 5 + 5));
+  const readAll = async (stream: NodeJS.ReadableStream) => {
+    const items: any[] = [];
+    for await (const item of stream) {
+      items.push(item);
+    }
+    return items;
+  };
+
+  const bookRecords = await readAll(Readable.from(catalogChunks).pipe(xmlHelper.createXmlToJsonStream({ record: 'library/book' })));
+  console.log('Records converted as xmlToJson converts them:',
+    JSON.stringify(bookRecords) === JSON.stringify(xmlHelper.xmlToJson(catalogXml).data.book));
+  const anyDepthRecords = await readAll(Readable.from(catalogChunks).pipe(xmlHelper.createXmlToJsonStream({ record: 'book', format: 'ordered' })));
+  console.log('Records matched by name at any depth:', anyDepthRecords.length === 3 &&
+    JSON.stringify(anyDepthRecords[1][3]) === '["note","a ",["em","b"]," c"]');
+
+  const recordsXml = (await readAll(Readable.from(bookRecords).pipe(xmlHelper.createJsonToXmlStream({ rootElement: 'library', record: 'book' })))).join('');
+  const reparsedRecords = xmlHelper.xmlToJson(recordsXml).data.book;
+  // The compact form drops the order of mixed content, so only the first record survives the round trip unchanged
+  console.log('Records written back as XML:', recordsXml.startsWith('<?xml') && reparsedRecords.length === 2 &&
+    JSON.stringify(reparsedRecords[0]) === JSON.stringify(bookRecords[0]));
+  const orderedRecordsXml = (await readAll(Readable.from(anyDepthRecords)
+    .pipe(xmlHelper.createJsonToXmlStream({ rootElement: 'books', format: 'ordered', declaration: false })))).join('');
+  console.log('Ordered records written canonically:', orderedRecordsXml.startsWith('<books><book id="1"><title>Crème &amp; Co</title>') &&
+    orderedRecordsXml.endsWith('<book id="3"></book></books>'));
+  const emptyXml = (await readAll(Readable.from([]).pipe(xmlHelper.createJsonToXmlStream({ declaration: false })))).join('');
+  console.log('No records give an empty root:', emptyXml === '<root>\n</root>\n');
+
+  const streamError = await readAll(Readable.from(['<library><book>', '</library>']).pipe(xmlHelper.createXmlToJsonStream({ record: 'book' })))
+    .then(() => undefined, error => error);
+  console.log('Parse errors end the stream:', streamError?.code === 'MISMATCHED_END_TAG');
+
   console.log('\n🎉 All tests completed!');
 }
 
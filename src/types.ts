@@ -1,11 +1,169 @@
 // Types for XML and XSD handling
 
+export interface XmlPosition {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+export interface XmlLocation {
+  start: XmlPosition;
+  end: XmlPosition;
+}
+
+export interface XmlName {
+  localName: string;
+  prefix?: string;
+  namespace?: string;
+}
+
 export interface XmlNode {
+  /** Qualified name of elements; '#text', '#cdata-section', '#comment' or '#processing-instruction' for other nodes */
   name: string;
   attributes: Record<string, string>;
   children: XmlNode[];
   text?: string;
   namespace?: string;
+  localName?: string;
+  prefix?: string;
+  namespaces?: Record<string, string>;
+  attributeNames?: Record<string, XmlName>;
+  location?: XmlLocation;
+  attributeLocations?: Record<string, XmlLocation>;
+  textLocation?: XmlLocation;
+  /** Target of a processing instruction, whose data is in text */
+  target?: string;
+  /** Comments and processing instructions before the root element */
+  prolog?: XmlNode[];
+  /** Comments and processing instructions after the root element */
+  epilog?: XmlNode[];
+  /** Document type declaration, on the root element */
+  doctype?: XmlDoctype;
+  /** Set by annotating validation: key of the type the element was validated against */
+  schemaType?: string;
+  /** Set by annotating validation: typed value of simple content */
+  typedValue?: XsdTypedValue;
+  /** Set by annotating validation: typed values of valid declared attributes */
+  typedAttributes?: Record<string, XsdTypedValue>;
+}
+
+export interface XmlParserOptions {
+  namespaceAware?: boolean;
+  /**
+   * 'normalize' drops whitespace-only text between child elements unless
+   * xml:space="preserve" applies; 'preserve' keeps all text as written
+   */
+  whitespace?: 'preserve' | 'normalize';
+  /**
+   * Rejects everything XML 1.0 forbids, such as duplicate attributes,
+   * content after the root element and undeclared entities, each with its
+   * own error code
+   */
+  strict?: boolean;
+  /**
+   * Reports every error instead of stopping at the first, resynchronizing
+   * after each one and returning a best-effort tree
+   */
+  recover?: boolean;
+  /** Most entity references expanded per document, nested ones included */
+  maxEntityExpansions?: number;
+  /** Most characters produced by entity expansion per document */
+  maxEntityExpansionSize?: number;
+}
+
+export interface SaxParserOptions {
+  /** Encoding of Buffer chunks (default: 'utf8') */
+  encoding?: BufferEncoding;
+  /** Reject everything XML 1.0 forbids, as XmlParser does (default: false) */
+  strict?: boolean;
+  /** Most entity references expanded per document, nested ones included */
+  maxEntityExpansions?: number;
+  /** Most characters produced by entity expansion per document */
+  maxEntityExpansionSize?: number;
+}
+
+export interface SaxStartElement {
+  name: string;
+  attributes: Record<string, string>;
+  /** Start and end of each attribute */
+  attributeLocations: Record<string, XmlLocation>;
+  /** True for empty-element tags such as <br/>, which are followed by endElement at once */
+  selfClosing: boolean;
+  location: XmlLocation;
+}
+
+export interface SaxEndElement {
+  name: string;
+  location: XmlLocation;
+}
+
+/** Text, CDATA sections and comments */
+export interface SaxCharacterData {
+  text: string;
+  location: XmlLocation;
+}
+
+export interface SaxProcessingInstruction {
+  target: string;
+  data: string;
+  location: XmlLocation;
+}
+
+export interface DtdEntity {
+  name: string;
+  /** Replacement text of internal entities, with character references expanded */
+  value?: string;
+  publicId?: string;
+  systemId?: string;
+  /** Notation of unparsed entities */
+  notation?: string;
+}
+
+export interface DtdContentParticle {
+  kind: 'name' | 'sequence' | 'choice';
+  name?: string;
+  particles?: DtdContentParticle[];
+  occurs: '' | '?' | '*' | '+';
+}
+
+export interface DtdElementDeclaration {
+  name: string;
+  content: 'empty' | 'any' | 'mixed' | 'children';
+  /** Element names allowed in mixed content */
+  names?: string[];
+  particle?: DtdContentParticle;
+  /** Content specification as written, for messages */
+  model: string;
+}
+
+export type DtdAttributeType =
+  | 'CDATA' | 'ID' | 'IDREF' | 'IDREFS' | 'ENTITY' | 'ENTITIES' | 'NMTOKEN' | 'NMTOKENS' | 'NOTATION' | 'enumeration';
+
+export interface DtdAttributeDeclaration {
+  name: string;
+  type: DtdAttributeType;
+  /** Allowed values of enumerations and notation attributes */
+  values?: string[];
+  defaultType: 'required' | 'implied' | 'fixed' | 'default';
+  defaultValue?: string;
+}
+
+export interface XmlDoctype {
+  /** Name of the root element */
+  name: string;
+  publicId?: string;
+  /** External subset, which is recorded but never loaded */
+  systemId?: string;
+  entities: Record<string, DtdEntity>;
+  elements: Record<string, DtdElementDeclaration>;
+  attributeLists: Record<string, DtdAttributeDeclaration[]>;
+}
+
+export interface XmlValidatorOptions {
+  /** Adds absent attributes that declare a default or fixed value to the validated tree */
+  applyDefaultAttributes?: boolean;
+  /** Records types and typed values on the validated tree and fills empty elements that declare a default or fixed value */
+  annotate?: boolean;
 }
 
 export interface XmlParseResult {
@@ -19,6 +177,8 @@ export interface ValidationError {
   column: number;
   message: string;
   code: string;
+  /** Location of the schema document the error was found in, for schema sets */
+  source?: string;
 }
 
 export interface XsdElement {
@@ -30,6 +190,24 @@ export interface XsdElement {
   children: XsdElement[];
   namespace?: string;
   restrictions?: XsdRestriction[];
+  complexType?: XsdComplexType;
+  simpleType?: XsdSimpleType;
+  identityConstraints?: XsdIdentityConstraint[];
+  defaultValue?: string;
+  fixedValue?: string;
+}
+
+export interface XsdIdentityConstraint {
+  kind: 'key' | 'keyref' | 'unique';
+  name: string;
+  /** Restricted XPath selecting the nodes the constraint applies to, relative to the declaring element */
+  selector: string;
+  /** Restricted XPaths, relative to each selected node, whose values form the constraint's value */
+  fields: string[];
+  /** Namespace bindings in scope of the declaration, used for prefixes in the XPaths */
+  namespaces: Record<string, string>;
+  /** Key of the key or unique constraint a keyref refers to */
+  refer?: string;
 }
 
 export interface XsdAttribute {
@@ -38,38 +216,158 @@ export interface XsdAttribute {
   use: 'required' | 'optional' | 'prohibited';
   defaultValue?: string;
   fixedValue?: string;
+  namespace?: string;
+  simpleType?: XsdSimpleType;
 }
 
+export type XsdFacet =
+  | 'length' | 'minLength' | 'maxLength' | 'pattern' | 'enumeration' | 'whiteSpace'
+  | 'minInclusive' | 'maxInclusive' | 'minExclusive' | 'maxExclusive' | 'totalDigits' | 'fractionDigits';
+
 export interface XsdRestriction {
-  type: 'minLength' | 'maxLength' | 'pattern' | 'enumeration' | 'minInclusive' | 'maxInclusive';
-  value: string | number;
+  type: XsdFacet;
+  value: string | number | string[];
+}
+
+export interface XsdModelGroup {
+  kind: 'sequence' | 'choice' | 'all';
+  minOccurs: number;
+  maxOccurs: number | 'unbounded';
+  particles: XsdParticle[];
+}
+
+export type XsdProcessContents = 'strict' | 'lax' | 'skip';
+
+export interface XsdWildcard {
+  /** 'any' allows every namespace, 'list' only the given ones and 'not' all but the given ones */
+  namespaceMode: 'any' | 'list' | 'not';
+  /** undefined stands for elements and attributes without a namespace */
+  namespaces: Array<string | undefined>;
+  processContents: XsdProcessContents;
+}
+
+export interface XsdAny extends XsdWildcard {
+  minOccurs: number;
+  maxOccurs: number | 'unbounded';
 }
 
+export type XsdParticle = XsdElement | XsdModelGroup | XsdAny;
+
+export type XsdDerivation = 'extension' | 'restriction';
+
 export interface XsdComplexType {
   name: string;
   elements: XsdElement[];
   attributes: XsdAttribute[];
+  content?: XsdModelGroup;
+  baseType?: string;
+  derivation?: XsdDerivation;
+  simpleContent?: XsdSimpleType;
+  abstract?: boolean;
+  mixed?: boolean;
+  anyAttribute?: XsdWildcard;
 }
 
 export interface XsdSimpleType {
   name: string;
   baseType: string;
   restrictions: XsdRestriction[];
+  variety?: 'atomic' | 'list' | 'union';
+  baseSimpleType?: XsdSimpleType;
+  itemType?: string;
+  itemSimpleType?: XsdSimpleType;
+  memberTypes?: string[];
+  memberSimpleTypes?: XsdSimpleType[];
+}
+
+export type XsdForm = 'qualified' | 'unqualified';
+
+export type XsdWhiteSpace = 'preserve' | 'replace' | 'collapse';
+
+export interface XsdDuration {
+  negative: boolean;
+  years: number;
+  months: number;
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+export type XsdTypedValue = string | number | bigint | boolean | Date | Uint8Array | XsdDuration | XsdTypedValue[];
+
+export interface XsdGroup {
+  name: string;
+  content: XsdModelGroup;
+}
+
+export interface XsdAttributeGroup {
+  name: string;
+  attributes: XsdAttribute[];
 }
 
 export interface XsdSchema {
   targetNamespace?: string;
+  elementFormDefault: XsdForm;
+  attributeFormDefault: XsdForm;
   elements: Record<string, XsdElement>;
+  attributes: Record<string, XsdAttribute>;
   complexTypes: Record<string, XsdComplexType>;
   simpleTypes: Record<string, XsdSimpleType>;
+  groups: Record<string, XsdGroup>;
+  attributeGroups: Record<string, XsdAttributeGroup>;
+  identityConstraints: Record<string, XsdIdentityConstraint>;
   namespaces: Record<string, string>;
 }
 
+export interface XsdSchemaDocument {
+  content: string;
+  /** Used to resolve relative schemaLocation references and to load each document once */
+  location?: string;
+}
+
+/**
+ * Returns the content of the schema document at a resolved location, or
+ * undefined when it cannot be found.
+ */
+export type XsdSchemaResolver = (location: string) => string | undefined;
+
+/** 'compact' maps child elements to object keys; 'ordered' is a lossless JsonML-style array form */
+export type JsonFormat = 'compact' | 'ordered';
+
+export type OrderedJsonAttributes = Record<string, string>;
+
+/**
+ * Element in the ordered JSON form: the element name, an optional attribute
+ * object, then text strings and child elements in document order.
+ */
+export type OrderedJsonElement = [name: string, ...content: (OrderedJsonAttributes | OrderedJsonNode)[]];
+
+export type OrderedJsonNode = string | OrderedJsonElement;
+
+/**
+ * Document in the ordered JSON form: the comments and processing
+ * instructions before the root element, the root element, then those after
+ * it. Only used when there are any.
+ */
+export type OrderedJsonDocument = [name: '#document', ...nodes: OrderedJsonElement[]];
+
 export interface XmlToJsonOptions {
   preserveAttributes?: boolean;
   attributePrefix?: string;
   textKey?: string;
   ignoreNamespaces?: boolean;
+  /** Shape the output by the schema loaded in XmlHelper: declared arrays, typed values and declaration order */
+  useSchema?: boolean;
+  format?: JsonFormat;
+  /** Keep comments as '#comment' entries (default: true for the ordered format only) */
+  comments?: boolean;
+  /** Keep processing instructions as '?target' entries (default: true for the ordered format only) */
+  processingInstructions?: boolean;
+  /** Keep CDATA sections apart from text as '#cdata-section' entries (default: true for the ordered format only) */
+  cdata?: boolean;
+  /** Trim the text of elements unless xml:space="preserve" applies (default: true for the compact format only) */
+  trimText?: boolean;
 }
 
 export interface JsonToXmlOptions {
@@ -78,4 +376,21 @@ export interface JsonToXmlOptions {
   rootElement?: string;
   declaration?: boolean;
   indent?: string;
+  format?: JsonFormat;
+  /** Write '#comment' entries as comments (default: true) */
+  comments?: boolean;
+  /** Write '?target' entries as processing instructions (default: true) */
+  processingInstructions?: boolean;
+  /** Write '#cdata-section' entries as CDATA sections rather than escaped text (default: true) */
+  cdata?: boolean;
+}
+
+export interface XmlToJsonStreamOptions extends XmlToJsonOptions, SaxParserOptions {
+  /** Elements converted to records: a name such as 'book', or a path from the root such as 'library/book' */
+  record: string;
+}
+
+export interface JsonToXmlStreamOptions extends JsonToXmlOptions {
+  /** Element name each compact record is written as (default: 'item'); ordered records name their own element */
+  record?: string;
 }
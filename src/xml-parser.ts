@@ -1,69 +1,177 @@
-import { XmlNode, ValidationError } from './types';
+import { XmlNode, XmlName, XmlLocation, XmlPosition, XmlParserOptions, XmlDoctype, DtdEntity, ValidationError } from './types';
+import {
+  NAME_PATTERN,
+  LOOSE_REFERENCE_PATTERN,
+  XmlParseError,
+  ReferenceResolver,
+  checkCharacters,
+  checkXmlDeclaration,
+  checkComment,
+  checkProcessingInstructionTarget,
+  findSubsetEnd
+} from './xml-syntax';
+
+export { XmlParseError } from './xml-syntax';
+
+export const XML_NAMESPACE = 'http://www.w3.org/XML/1998/namespace';
+export const XMLNS_NAMESPACE = 'http://www.w3.org/2000/xmlns/';
+
+/**
+ * Element nodes are told apart from text, CDATA, comment and processing
+ * instruction nodes, whose names start with '#'.
+ */
+export function isElementNode(node: XmlNode): boolean {
+  return !node.name.startsWith('#');
+}
 
 export class XmlParser {
+  private options: Required<XmlParserOptions>;
   private position = 0;
   private line = 1;
   private column = 1;
   private xml = '';
+  private namespaceScopes: Record<string, string>[] = [];
+  private spacePreserveScopes: boolean[] = [];
+  private references: ReferenceResolver;
+  /** Names of the elements whose content is being parsed, innermost last */
+  private openElements: string[] = [];
+  private errors: ValidationError[] = [];
+  /** Offset of the last end tag reported as mismatched */
+  private mismatchedEndTag = -1;
+  /** Outermost entity reference whose replacement text is being parsed */
+  private replacementReference?: XmlPosition;
+
+  constructor(options: XmlParserOptions = {}) {
+    this.options = {
+      namespaceAware: options.namespaceAware ?? false,
+      whitespace: options.whitespace ?? 'normalize',
+      strict: options.strict ?? false,
+      recover: options.recover ?? false,
+      maxEntityExpansions: options.maxEntityExpansions ?? 10000,
+      maxEntityExpansionSize: options.maxEntityExpansionSize ?? 1_000_000
+    };
+    this.references = new ReferenceResolver(this.options, error => this.report(error));
+  }
 
   parse(xmlString: string): { node: XmlNode | null; errors: ValidationError[] } {
     this.xml = xmlString;
     this.position = 0;
     this.line = 1;
     this.column = 1;
-    const errors: ValidationError[] = [];
+    this.namespaceScopes = [{ xml: XML_NAMESPACE }];
+    this.spacePreserveScopes = [this.options.whitespace === 'preserve'];
+    this.references.reset();
+    this.openElements = [];
+    this.errors = [];
+    this.mismatchedEndTag = -1;
+    this.replacementReference = undefined;
 
     try {
+      if (this.current() === '\uFEFF') {
+        this.position++; // Byte order mark
+      }
+      if (this.options.strict) {
+        this.checkCharacters();
+        this.checkDeclaration();
+      }
       this.skipWhitespace();
       
       // Skip XML declaration if present
-      if (this.peek(5) === '<?xml') {
+      if (this.startsWith('<?xml') && this.isWhitespace(this.peek(5))) {
         this.skipDeclaration();
         this.skipWhitespace();
       }
 
-      // Skip any other processing instructions or comments
+      // Comments, processing instructions and the document type declaration before the root element
+      const prolog: XmlNode[] = [];
       while (this.position < this.xml.length && this.current() === '<') {
-        if (this.peek() === '!') {
-          // Skip comments or DOCTYPE
-          this.skipComment();
-          this.skipWhitespace();
-        } else if (this.peek() === '?') {
-          // Skip processing instructions
-          this.skipProcessingInstruction();
-          this.skipWhitespace();
+        if (this.startsWith('<!DOCTYPE')) {
+          this.references.doctype = this.parseDoctype();
+        } else if (this.startsWith('<!--') || this.peek() === '?') {
+          prolog.push(this.parseMisc());
         } else {
           // This should be the root element
           break;
         }
+        this.skipWhitespace();
       }
 
+      if (this.position < this.xml.length && this.current() !== '<') {
+        this.report(new XmlParseError(`Expected '<' but found '${this.current()}'`, 'UNEXPECTED_CHARACTER', this.getPosition()));
+        this.advanceTo(this.indexOrEnd('<'));
+      }
+      if (this.position >= this.xml.length) {
+        throw new XmlParseError('The document has no root element', 'MISSING_ROOT_ELEMENT', this.getPosition());
+      }
       const node = this.parseElement();
-      return { node, errors };
+
+      // Comments and processing instructions after the root element
+      const epilog: XmlNode[] = [];
+      this.skipWhitespace();
+      while (this.startsWith('<!--') || this.startsWith('<?')) {
+        epilog.push(this.parseMisc());
+        this.skipWhitespace();
+      }
+      if ((this.options.strict || this.options.recover) && this.position < this.xml.length) {
+        this.report(new XmlParseError('Only comments and processing instructions may follow the root element', 'CONTENT_AFTER_ROOT', this.getPosition()));
+      }
+
+      if (prolog.length > 0) {
+        node.prolog = prolog;
+      }
+      if (this.references.doctype) {
+        node.doctype = this.references.doctype;
+      }
+      if (epilog.length > 0) {
+        node.epilog = epilog;
+      }
+      return { node, errors: this.errors };
     } catch (error) {
-      errors.push({
-        line: this.line,
-        column: this.column,
-        message: error instanceof Error ? error.message : 'Unknown parsing error',
-        code: 'PARSE_ERROR'
-      });
-      return { node: null, errors };
+      this.addError(error);
+      return { node: null, errors: this.errors };
     }
   }
 
-  private parseElement(): XmlNode {
-    if (this.current() !== '<') {
-      throw new Error(`Expected '<' but found '${this.current()}'`);
+  /**
+   * Throws the error, or records it and lets parsing continue when
+   * recovering. Callers resynchronize after reporting.
+   */
+  private report(error: XmlParseError): void {
+    if (!this.options.recover) {
+      throw error;
     }
+    this.addError(error);
+  }
+
+  /**
+   * Errors inside entity replacement text are located at the reference.
+   */
+  private addError(error: unknown): void {
+    const position = this.replacementReference ??
+      (error instanceof XmlParseError && error.position ? error.position : this.getPosition());
+    this.errors.push({
+      line: position.line,
+      column: position.column,
+      message: error instanceof Error ? error.message : 'Unknown parsing error',
+      code: error instanceof XmlParseError ? error.code : 'PARSE_ERROR'
+    });
+  }
+
+  private parseElement(): XmlNode {
+    const start = this.getPosition();
 
     this.advance(); // Skip '<'
     
     if (this.current() === '/') {
-      throw new Error('Unexpected end tag');
+      throw new XmlParseError('Unexpected end tag', 'UNEXPECTED_END_TAG', start);
     }
 
     const name = this.parseName();
-    const attributes = this.parseAttributes();
+    const { attributes, attributeLocations } = this.parseAttributes();
+    this.applyAttributeDefaults(name, attributes, attributeLocations, start);
+    const namespaceInfo = this.options.namespaceAware
+      ? this.resolveNamespaces(name, attributes, attributeLocations, start)
+      : undefined;
     
     this.skipWhitespace();
     
@@ -71,95 +179,416 @@ export class XmlParser {
     if (this.current() === '/' && this.peek() === '>') {
       this.advance(); // Skip '/'
       this.advance(); // Skip '>'
-      return { name, attributes, children: [] };
+      return this.finishElementNode(
+        { name, attributes, children: [] },
+        { start, end: this.getPosition() },
+        attributeLocations,
+        namespaceInfo
+      );
     }
     
-    if (this.current() !== '>') {
-      throw new Error(`Expected '>' but found '${this.current()}'`);
+    if (this.current() === '>') {
+      this.advance(); // Skip '>'
+    } else {
+      // Recovery treats the start tag as ending here, or at the next '>' when something other than markup follows
+      this.report(new XmlParseError(`Expected '>' but found '${this.current()}'`, 'INVALID_START_TAG', this.getPosition()));
+      if (this.current() !== '<' && this.position < this.xml.length) {
+        this.advanceTo(this.indexOrEnd('>') + 1);
+      }
     }
     
-    this.advance(); // Skip '>'
-    
-    return this.parseElementContent(name, attributes);
+    // xml:space applies to the element's content and is inherited by its descendants
+    const xmlSpace = attributes['xml:space'];
+    const preserveSpace = this.options.whitespace === 'preserve' || xmlSpace === 'preserve' ||
+      (xmlSpace !== 'default' && this.spacePreserveScopes[this.spacePreserveScopes.length - 1]);
+    this.spacePreserveScopes.push(preserveSpace);
+    const node = this.parseElementContent(name, attributes);
+    this.spacePreserveScopes.pop();
+    return this.finishElementNode(node, { start, end: this.getPosition() }, attributeLocations, namespaceInfo);
+  }
+
+  private finishElementNode(
+    node: XmlNode,
+    location: XmlLocation,
+    attributeLocations: Record<string, XmlLocation>,
+    namespaceInfo?: Partial<XmlNode>
+  ): XmlNode {
+    node.location = location;
+    node.attributeLocations = attributeLocations;
+
+    if (namespaceInfo) {
+      Object.assign(node, namespaceInfo);
+      this.namespaceScopes.pop();
+    }
+
+    return node;
+  }
+
+  /**
+   * Opens a new namespace scope for an element and resolves the prefixes of
+   * its name and attributes against it. The scope is closed again by
+   * finishElementNode once the element's content has been parsed.
+   */
+  private resolveNamespaces(
+    name: string,
+    attributes: Record<string, string>,
+    attributeLocations: Record<string, XmlLocation>,
+    start: XmlPosition
+  ): Partial<XmlNode> {
+    const parentScope = this.namespaceScopes[this.namespaceScopes.length - 1];
+    let scope = parentScope;
+
+    for (const [attrName, value] of Object.entries(attributes)) {
+      if (attrName !== 'xmlns' && !attrName.startsWith('xmlns:')) {
+        continue;
+      }
+
+      const prefix = attrName === 'xmlns' ? '' : attrName.substring(6);
+      this.checkNamespaceDeclaration(prefix, value, attributeLocations[attrName].start);
+
+      if (scope === parentScope) {
+        scope = { ...parentScope };
+      }
+      if (value === '') {
+        delete scope[prefix];
+      } else {
+        scope[prefix] = value;
+      }
+    }
+
+    const elementName = this.splitQName(name, start);
+    if (elementName.prefix === 'xmlns') {
+      this.report(new XmlParseError(`Element '${name}' must not use the reserved prefix 'xmlns'`, 'RESERVED_PREFIX', start));
+    }
+    elementName.namespace = this.lookupNamespace(scope, elementName.prefix ?? '', name, start);
+
+    const attributeNames: Record<string, XmlName> = {};
+    const expandedNames = new Set<string>();
+
+    for (const attrName of Object.keys(attributes)) {
+      const attrStart = attributeLocations[attrName].start;
+      const attrQName = this.splitQName(attrName, attrStart);
+
+      if (attrName === 'xmlns' || attrQName.prefix === 'xmlns') {
+        attrQName.namespace = XMLNS_NAMESPACE;
+      } else if (attrQName.prefix !== undefined) {
+        attrQName.namespace = this.lookupNamespace(scope, attrQName.prefix, attrName, attrStart);
+      }
+
+      const expandedName = `{${attrQName.namespace ?? ''}}${attrQName.localName}`;
+      if (expandedNames.has(expandedName)) {
+        this.report(new XmlParseError(
+          `Attribute '${attrName}' duplicates another attribute with the same namespace and local name`,
+          'DUPLICATE_ATTRIBUTE',
+          attrStart
+        ));
+      }
+      expandedNames.add(expandedName);
+      attributeNames[attrName] = attrQName;
+    }
+
+    this.namespaceScopes.push(scope);
+
+    return {
+      localName: elementName.localName,
+      prefix: elementName.prefix,
+      namespace: elementName.namespace,
+      namespaces: scope,
+      attributeNames
+    };
+  }
+
+  private checkNamespaceDeclaration(prefix: string, uri: string, position: XmlPosition): void {
+    if (prefix === 'xmlns') {
+      this.report(new XmlParseError("The prefix 'xmlns' must not be declared", 'RESERVED_PREFIX', position));
+    } else if (prefix === 'xml' && uri !== XML_NAMESPACE) {
+      this.report(new XmlParseError(`The prefix 'xml' can only be bound to '${XML_NAMESPACE}'`, 'RESERVED_PREFIX', position));
+    } else if (prefix !== 'xml' && uri === XML_NAMESPACE) {
+      this.report(new XmlParseError(`Only the prefix 'xml' can be bound to '${XML_NAMESPACE}'`, 'RESERVED_NAMESPACE', position));
+    } else if (uri === XMLNS_NAMESPACE) {
+      this.report(new XmlParseError(`The namespace '${XMLNS_NAMESPACE}' must not be declared`, 'RESERVED_NAMESPACE', position));
+    } else if (prefix !== '' && uri === '') {
+      this.report(new XmlParseError(`Prefix '${prefix}' cannot be bound to an empty namespace`, 'INVALID_NAMESPACE_DECLARATION', position));
+    }
   }
 
+  private lookupNamespace(scope: Record<string, string>, prefix: string, qname: string, position: XmlPosition): string | undefined {
+    const namespace = scope[prefix];
+    if (namespace === undefined && prefix !== '') {
+      this.report(new XmlParseError(`Namespace prefix '${prefix}' in '${qname}' is not declared`, 'UNDECLARED_PREFIX', position));
+    }
+    return namespace;
+  }
+
+  private splitQName(qname: string, position: XmlPosition): XmlName {
+    const parts = qname.split(':');
+    if (parts.length === 1) {
+      return { localName: qname };
+    }
+    if (parts.length > 2 || !parts[0] || !parts[1]) {
+      this.report(new XmlParseError(`'${qname}' is not a valid qualified name`, 'INVALID_QNAME', position));
+      return { localName: qname };
+    }
+    return { prefix: parts[0], localName: parts[1] };
+  }
+
+  /**
+   * Parses the content of an element into text, CDATA, comment, processing
+   * instruction and element children. Text is kept exactly as written, except
+   * that whitespace-only text between child elements is dropped when
+   * whitespace is normalized and xml:space="preserve" is not in effect.
+   * Elements with nothing but text keep it on the node and have no children.
+   */
   private parseElementContent(name: string, attributes: Record<string, string>): XmlNode {
-    const children: XmlNode[] = [];
+    this.openElements.push(name);
+    const { children, text, textLocation } = this.parseContent();
+    this.parseEndTag(name);
+    this.openElements.pop();
+    return this.buildElementNode(name, attributes, children, text, textLocation);
+  }
+
+  /**
+   * Parses content up to an end tag or the end of the input. Text is only
+   * returned on its own when there are no other nodes.
+   */
+  private parseContent(): { children: XmlNode[]; text: string; textLocation?: XmlLocation } {
+    let children: XmlNode[] = [];
     let text = '';
+    let textStart: XmlPosition | null = null;
+    let textEnd: XmlPosition | null = null;
+    let contentStart: XmlPosition | null = null;
+
+    const flushText = () => {
+      if (text && textStart && textEnd) {
+        children.push(this.createContentNode('#text', text, { start: textStart, end: textEnd }));
+      }
+      text = '';
+      textStart = null;
+    };
     
     while (this.position < this.xml.length) {
-      this.skipWhitespace();
-      
       if (this.current() === '<') {
         if (this.peek() === '/') {
-          break; // End tag found
+          const endTagName = this.peekEndTagName();
+          if (!this.options.recover || this.replacementReference || this.openElements.includes(endTagName)) {
+            break; // End tag found
+          }
+          // Recovery skips end tags that close no open element
+          this.report(new XmlParseError(`End tag '${endTagName}' does not match any open element`, 'MISMATCHED_END_TAG', this.getPosition()));
+          this.advanceTo(this.indexOrEnd('>') + 1);
+          continue;
+        }
+        if (this.options.recover && !this.startsWith('<!') && this.peek() !== '?' && !this.isNameStart(this.position + 1)) {
+          // A stray '<' is kept as text
+          this.report(new XmlParseError("'<' must start markup; use '&lt;' in text", 'UNEXPECTED_CHARACTER', this.getPosition()));
+          textStart ??= this.getPosition();
+          text += '<';
+          this.advance();
+          textEnd = this.getPosition();
+          continue;
+        }
+
+        flushText();
+        if (this.startsWith('<![CDATA[')) {
+          contentStart ??= this.getPosition();
+          children.push(this.parseCData());
+          textEnd = this.getPosition();
+        } else if (this.startsWith('<!--') || this.peek() === '?') {
+          children.push(this.parseMisc());
         } else {
           // Child element
-          if (text.trim()) {
-            children.push({
-              name: '#text',
-              attributes: {},
-              children: [],
-              text: text.trim()
-            });
-            text = '';
-          }
           children.push(this.parseElement());
-          continue;
         }
+        continue;
       }
       
       // Text content
-      text += this.current();
-      this.advance();
+      if (!textStart) {
+        textStart = this.getPosition();
+      }
+      if (this.current() === '&') {
+        const replacement = this.parseReference(false);
+        if (typeof replacement === 'string') {
+          text += replacement;
+        } else {
+          flushText();
+          children.push(...replacement);
+        }
+      } else {
+        if (this.options.strict && this.startsWith(']]>')) {
+          this.report(new XmlParseError("']]>' is not allowed in text outside a CDATA section", 'CDATA_END_IN_TEXT', this.getPosition()));
+        }
+        text += this.current();
+        this.advance();
+      }
+      textEnd = this.getPosition();
+      if (text.trim()) {
+        contentStart ??= textStart;
+      }
     }
-    
-    this.parseEndTag(name);
-    
-    return this.buildElementNode(name, attributes, children, text);
+
+    const textOnly = children.length === 0;
+    const characterData = textOnly ? text : '';
+    if (!textOnly) {
+      flushText();
+    }
+
+    const preserveSpace = this.spacePreserveScopes[this.spacePreserveScopes.length - 1];
+    if (!preserveSpace && children.some(isElementNode)) {
+      children = children.filter(child => child.name !== '#text' || child.text!.trim() !== '');
+    }
+
+    const textLocation = textOnly && textStart && textEnd
+      ? { start: textStart, end: textEnd }
+      : contentStart && textEnd ? { start: contentStart, end: textEnd } : undefined;
+    return { children, text: characterData, textLocation };
   }
 
+  /**
+   * Parses the end tag of an element. When recovering, an end tag for an
+   * enclosing element closes this one too and is left for the enclosing
+   * element to consume.
+   */
   private parseEndTag(expectedName: string): void {
+    if ((this.options.strict || this.options.recover) && this.position >= this.xml.length) {
+      this.report(new XmlParseError(`Element '${expectedName}' is not closed`, 'UNCLOSED_ELEMENT', this.getPosition()));
+    }
     if (this.current() === '<' && this.peek() === '/') {
+      const start = this.getPosition();
       this.advance(); // Skip '<'
       this.advance(); // Skip '/'
       const endTagName = this.parseName();
       if (endTagName !== expectedName) {
-        throw new Error(`End tag '${endTagName}' does not match start tag '${expectedName}'`);
+        // Each enclosing element the end tag skips is closed, but the mismatch is reported once
+        if (this.mismatchedEndTag !== start.offset) {
+          this.mismatchedEndTag = start.offset;
+          this.report(new XmlParseError(`End tag '${endTagName}' does not match start tag '${expectedName}'`, 'MISMATCHED_END_TAG', start));
+        }
+        this.rewind(start);
+        return;
       }
       this.skipWhitespace();
-      if (this.current() !== '>') {
-        throw new Error("Expected '>' in end tag");
+      if (this.current() === '>') {
+        this.advance(); // Skip '>'
+      } else {
+        this.report(new XmlParseError("Expected '>' in end tag", 'INVALID_END_TAG', this.getPosition()));
+        if (this.current() !== '<') {
+          this.advanceTo(this.indexOrEnd('>') + 1);
+        }
       }
-      this.advance(); // Skip '>'
     }
   }
 
-  private buildElementNode(name: string, attributes: Record<string, string>, children: XmlNode[], text: string): XmlNode {
+  private peekEndTagName(): string {
+    NAME_PATTERN.lastIndex = this.position + 2;
+    return NAME_PATTERN.exec(this.xml)?.[0] ?? '';
+  }
+
+  private buildElementNode(
+    name: string,
+    attributes: Record<string, string>,
+    children: XmlNode[],
+    text: string,
+    textLocation?: XmlLocation
+  ): XmlNode {
     const node: XmlNode = { name, attributes, children };
 
-    if (text.trim() && children.length === 0) {
-      node.text = text.trim();
+    // Character data of elements without element children, CDATA included
+    const characterData = children.length === 0
+      ? text
+      : children.every(child => !isElementNode(child))
+        ? children.filter(child => child.name === '#text' || child.name === '#cdata-section').map(child => child.text).join('')
+        : '';
+
+    if (characterData) {
+      node.text = characterData;
+      node.textLocation = textLocation;
     }
 
     return node;
   }
 
-  private parseAttributes(): Record<string, string> {
+  private createContentNode(name: string, text: string, location: XmlLocation): XmlNode {
+    return { name, attributes: {}, children: [], text, location };
+  }
+
+  private parseCData(): XmlNode {
+    const start = this.getPosition();
+    let end = this.xml.indexOf(']]>', this.position + 9);
+    if (end === -1) {
+      this.report(new XmlParseError('Unterminated CDATA section', 'UNTERMINATED_CDATA', start));
+      end = this.xml.length;
+    }
+
+    const text = this.xml.substring(this.position + 9, end);
+    this.advanceTo(end + 3);
+    return this.createContentNode('#cdata-section', text, { start, end: this.getPosition() });
+  }
+
+  /**
+   * Parses a comment or processing instruction, which may appear in content
+   * and around the root element.
+   */
+  private parseMisc(): XmlNode {
+    const start = this.getPosition();
+
+    if (this.startsWith('<!--')) {
+      let end = this.xml.indexOf('-->', this.position + 4);
+      if (end === -1) {
+        this.report(new XmlParseError('Unterminated comment', 'UNTERMINATED_COMMENT', start));
+        end = this.xml.length;
+      }
+      const text = this.xml.substring(this.position + 4, end);
+      if (this.options.strict) {
+        checkComment(text, start, error => this.report(error));
+      }
+      this.advanceTo(end + 3);
+      return this.createContentNode('#comment', text, { start, end: this.getPosition() });
+    }
+
+    this.advance(); // Skip '<'
+    this.advance(); // Skip '?'
+    const target = this.parseName();
+    if (this.options.strict) {
+      checkProcessingInstructionTarget(target, this.xml.substring(this.position, this.position + 2), start, this.getPosition(), error => this.report(error));
+    }
+    let end = this.xml.indexOf('?>', this.position);
+    if (end === -1) {
+      this.report(new XmlParseError(`Unterminated processing instruction '${target}'`, 'UNTERMINATED_PROCESSING_INSTRUCTION', start));
+      end = this.xml.length;
+    }
+    const data = this.xml.substring(this.position, end).replace(/^[ \t\r\n]+/, '');
+    this.advanceTo(end + 2);
+    return { ...this.createContentNode('#processing-instruction', data, { start, end: this.getPosition() }), target };
+  }
+
+  private parseAttributes(): { attributes: Record<string, string>; attributeLocations: Record<string, XmlLocation> } {
     const attributes: Record<string, string> = {};
+    const attributeLocations: Record<string, XmlLocation> = {};
     
     while (this.position < this.xml.length) {
       this.skipWhitespace();
       
-      if (this.current() === '>' || this.current() === '/' || this.current() === '?') {
+      if (this.current() === '>' || this.current() === '/' || this.current() === '?' || (this.options.recover && this.current() === '<')) {
         break;
       }
       
+      const start = this.getPosition();
+      if (this.options.recover && !this.isNameStart(this.position)) {
+        this.report(new XmlParseError(`Invalid name start character: '${this.current()}'`, 'INVALID_NAME', start));
+        this.skipInvalidAttribute();
+        continue;
+      }
       const name = this.parseName();
+      if ((this.options.strict || this.options.recover) && name in attributes) {
+        this.report(new XmlParseError(`Attribute '${name}' is specified more than once`, 'DUPLICATE_ATTRIBUTE', start));
+      }
       this.skipWhitespace();
       
       if (this.current() !== '=') {
-        throw new Error(`Expected '=' after attribute name '${name}'`);
+        // Recovery drops the attribute
+        this.report(new XmlParseError(`Expected '=' after attribute name '${name}'`, 'MISSING_ATTRIBUTE_VALUE', this.getPosition()));
+        continue;
       }
       
       this.advance(); // Skip '='
@@ -167,105 +596,238 @@ export class XmlParser {
       
       const value = this.parseAttributeValue();
       attributes[name] = value;
+      attributeLocations[name] = { start, end: this.getPosition() };
+
+      if (this.options.strict && !this.isWhitespace(this.current()) && !['>', '/', '?'].includes(this.current())) {
+        this.report(new XmlParseError(`Expected whitespace after attribute '${name}'`, 'MISSING_WHITESPACE', this.getPosition()));
+      }
     }
     
-    return attributes;
+    return { attributes, attributeLocations };
   }
 
+  /**
+   * Parses a quoted attribute value. Recovery takes an unquoted value up to
+   * the next whitespace, and an unterminated one up to the end of the tag.
+   */
   private parseAttributeValue(): string {
+    const start = this.getPosition();
     const quote = this.current();
     if (quote !== '"' && quote !== "'") {
-      throw new Error(`Expected quote but found '${quote}'`);
+      this.report(new XmlParseError(`Expected quote but found '${quote}'`, 'UNQUOTED_ATTRIBUTE_VALUE', start));
+      return this.readUntil(/[ \t\r\n>]|\/>/g);
+    }
+
+    if (this.options.recover && this.xml.indexOf(quote, this.position + 1) === -1) {
+      this.report(new XmlParseError('Unterminated attribute value', 'UNTERMINATED_ATTRIBUTE', start));
+      this.advance(); // Skip opening quote
+      return this.readUntil(/\/?>/g);
     }
     
     this.advance(); // Skip opening quote
-    let value = '';
+    const value = this.parseAttributeText(quote);
     
+    if (this.current() !== quote) {
+      throw new XmlParseError('Unterminated attribute value', 'UNTERMINATED_ATTRIBUTE', start);
+    }
+    
+    this.advance(); // Skip closing quote
+    return value;
+  }
+
+  /**
+   * Skips an attribute whose name is invalid, along with any quoted value.
+   */
+  private skipInvalidAttribute(): void {
+    if (this.current() === '"' || this.current() === "'") {
+      this.advanceTo(this.indexOrEnd(this.current(), this.position + 1) + 1);
+    } else {
+      this.advance();
+      this.readUntil(/[ \t\r\n<>\/]/g);
+    }
+  }
+
+  /**
+   * Reads the input up to the next match of the pattern, or to its end.
+   */
+  private readUntil(pattern: RegExp): string {
+    pattern.lastIndex = this.position;
+    const end = pattern.exec(this.xml)?.index ?? this.xml.length;
+    const text = this.xml.substring(this.position, end);
+    this.advanceTo(end);
+    return text;
+  }
+
+  /**
+   * Reads attribute text up to the closing quote, or to the end of the input
+   * when the quote is ''.
+   */
+  private parseAttributeText(quote: string): string {
+    let value = '';
     while (this.position < this.xml.length && this.current() !== quote) {
       if (this.current() === '&') {
-        value += this.parseEntity();
+        value += this.parseReference(true) as string;
       } else {
+        if (this.options.strict && this.current() === '<') {
+          this.report(new XmlParseError("'<' is not allowed in attribute values", 'LT_IN_ATTRIBUTE_VALUE', this.getPosition()));
+        }
         value += this.current();
         this.advance();
       }
     }
-    
-    if (this.current() !== quote) {
-      throw new Error('Unterminated attribute value');
-    }
-    
-    this.advance(); // Skip closing quote
     return value;
   }
 
+  /**
+   * Adds the defaults the DTD declares for attributes the element leaves out.
+   * They are located at the element's start tag.
+   */
+  private applyAttributeDefaults(
+    name: string,
+    attributes: Record<string, string>,
+    attributeLocations: Record<string, XmlLocation>,
+    start: XmlPosition
+  ): void {
+    this.references.applyAttributeDefaults(name, attributes, attributeLocations, { start, end: start }, value =>
+      this.parseReplacementText(value, start, () => this.parseAttributeText('')));
+  }
+
   private parseName(): string {
-    let name = '';
-    
-    // First character has stricter rules
-    const firstChar = this.current();
-    if (!this.isNameStartChar(firstChar)) {
-      throw new Error(`Invalid name start character: '${firstChar}'`);
+    NAME_PATTERN.lastIndex = this.position;
+    const match = NAME_PATTERN.exec(this.xml);
+    if (!match) {
+      throw new XmlParseError(`Invalid name start character: '${this.current()}'`, 'INVALID_NAME', this.getPosition());
     }
-    
-    while (this.position < this.xml.length) {
-      const char = this.current();
-      if (this.isNameChar(char)) {
-        name += char;
+    this.advanceTo(this.position + match[0].length);
+    return match[0];
+  }
+
+  /**
+   * Parses an entity or character reference. Declared internal entities are
+   * expanded; in content, entities with markup become nodes. References to
+   * undeclared or external entities are kept as written.
+   */
+  private parseReference(inAttribute: boolean): string | XmlNode[] {
+    const start = this.getPosition();
+    if (!this.isReference()) {
+      if (this.options.strict || this.options.recover) {
+        this.report(new XmlParseError("'&' must start an entity or character reference", 'INVALID_REFERENCE', start));
+      }
+      // Lenient parsing still reads anything up to a ';' as a reference
+      LOOSE_REFERENCE_PATTERN.lastIndex = this.position;
+      if (this.options.strict || this.options.recover || !LOOSE_REFERENCE_PATTERN.test(this.xml)) {
+        // A bare '&' is kept as text
         this.advance();
-      } else {
-        break;
+        return '&';
       }
     }
+    this.advance(); // Skip '&'
+    let entity = '';
     
-    if (!name) {
-      throw new Error('Expected element name');
+    while (this.current() !== ';') {
+      entity += this.current();
+      this.advance();
     }
     
-    return name;
+    this.advance(); // Skip ';'
+
+    const resolved = this.references.resolve(entity, inAttribute, start);
+    return typeof resolved === 'string' ? resolved : this.expandEntity(resolved, inAttribute, start);
   }
 
-  private isNameStartChar(char: string): boolean {
-    if (!char) return false;
-    return /[a-zA-Z_]/.test(char) ||
-           (char.charCodeAt(0) >= 0xC0 && char.charCodeAt(0) <= 0xD6) ||
-           (char.charCodeAt(0) >= 0xD8 && char.charCodeAt(0) <= 0xF6) ||
-           (char.charCodeAt(0) >= 0xF8);
+  /**
+   * Parses the replacement text of an internal entity in place of the
+   * reference. In content, markup in it becomes nodes.
+   */
+  private expandEntity(entity: DtdEntity, inAttribute: boolean, start: XmlPosition): string | XmlNode[] {
+    const value = entity.value!;
+    if (inAttribute) {
+      return this.references.expand(entity, () => this.parseReplacementText(value, start, () => this.parseAttributeText('')));
+    }
+
+    const content = this.references.expand(entity, () => this.parseReplacementText(value, start, () => {
+      const content = this.parseContent();
+      if (this.position < this.xml.length) {
+        this.report(new XmlParseError(`Entity '&${entity.name};' contains an end tag without a start tag`, 'INVALID_ENTITY_REFERENCE'));
+      }
+      return content;
+    }));
+    if (content.children.length === 0) {
+      return content.text;
+    }
+    const location = { start, end: this.getPosition() };
+    content.children.forEach(child => this.relocate(child, location));
+    return content.children;
   }
 
-  private parseEntity(): string {
-    if (this.current() !== '&') {
-      throw new Error('Expected entity');
+  /**
+   * Runs a parse over replacement text instead of the document. Errors in it
+   * are reported at the reference.
+   */
+  private parseReplacementText<T>(text: string, reference: XmlPosition, parse: () => T): T {
+    const { xml, position, line, column, replacementReference } = this;
+    this.xml = text;
+    this.position = 0;
+    this.line = 1;
+    this.column = 1;
+    this.replacementReference ??= reference;
+    try {
+      return parse();
+    } catch (error) {
+      throw new XmlParseError(
+        error instanceof Error ? error.message : 'Unknown parsing error',
+        error instanceof XmlParseError ? error.code : 'PARSE_ERROR',
+        reference
+      );
+    } finally {
+      this.xml = xml;
+      this.position = position;
+      this.line = line;
+      this.column = column;
+      this.replacementReference = replacementReference;
     }
-    
-    this.advance(); // Skip '&'
-    let entity = '';
-    
-    while (this.position < this.xml.length && this.current() !== ';') {
-      entity += this.current();
-      this.advance();
+  }
+
+  /**
+   * Nodes from entity replacement text are located at the reference.
+   */
+  private relocate(node: XmlNode, location: XmlLocation): void {
+    node.location = location;
+    if (node.textLocation) {
+      node.textLocation = location;
     }
-    
-    if (this.current() !== ';') {
-      throw new Error('Unterminated entity');
+    if (node.attributeLocations) {
+      for (const attrName of Object.keys(node.attributeLocations)) {
+        node.attributeLocations[attrName] = location;
+      }
     }
-    
-    this.advance(); // Skip ';'
-    
-    // Convert common entities
-    switch (entity) {
-      case 'amp': return '&';
-      case 'lt': return '<';
-      case 'gt': return '>';
-      case 'quot': return '"';
-      case 'apos': return "'";
-      default:
-        if (entity.startsWith('#')) {
-          const code = entity.startsWith('#x') 
-            ? parseInt(entity.slice(2), 16)
-            : parseInt(entity.slice(1), 10);
-          return String.fromCharCode(code);
-        }
-        return `&${entity};`;
+    node.children.forEach(child => this.relocate(child, location));
+  }
+
+  /**
+   * Checks that '&' at the current position is followed by a name or
+   * character code and ';'.
+   */
+  private isReference(): boolean {
+    const charReference = /&#(x[0-9a-fA-F]+|[0-9]+);/y;
+    charReference.lastIndex = this.position;
+    if (charReference.test(this.xml)) {
+      return true;
+    }
+    NAME_PATTERN.lastIndex = this.position + 1;
+    const name = NAME_PATTERN.exec(this.xml);
+    return name !== null && this.xml[this.position + 1 + name[0].length] === ';';
+  }
+
+  private checkCharacters(): void {
+    checkCharacters(this.xml, index => this.positionAt(index), error => this.report(error));
+  }
+
+  private checkDeclaration(): void {
+    const declarationStart = this.xml.substring(this.position).search(/\S/) + this.position;
+    if (/^<\?xml[ \t\r\n?]/.test(this.xml.substring(declarationStart, declarationStart + 6))) {
+      checkXmlDeclaration(this.xml.substring(declarationStart, declarationStart + 1024), declarationStart === this.position,
+        this.positionAt(declarationStart), error => this.report(error));
     }
   }
 
@@ -281,51 +843,71 @@ export class XmlParser {
     }
   }
 
-  private skipComment(): void {
-    if (this.peek(4) === '<!--') {
-      this.skipXmlComment();
-    } else if (this.peek(9) === '<!DOCTYPE') {
-      this.skipDoctype();
+  /**
+   * Parses a document type declaration. The internal subset is read by
+   * DtdParser; external subsets are recorded but never loaded.
+   */
+  private parseDoctype(): XmlDoctype {
+    const start = this.getPosition();
+    if (this.references.doctype) {
+      throw new XmlParseError('A document can only have one document type declaration', 'INVALID_DOCTYPE', start);
     }
-  }
 
-  private skipXmlComment(): void {
-    this.position += 4; // Skip '<!--'
-    while (this.position < this.xml.length - 2) {
-      if (this.xml.substring(this.position, this.position + 3) === '-->') {
-        this.position += 3;
-        break;
-      }
-      this.advance();
+    this.advanceTo(this.position + '<!DOCTYPE'.length);
+    if (!this.isWhitespace(this.current())) {
+      throw new XmlParseError("Expected whitespace after '<!DOCTYPE'", 'INVALID_DOCTYPE', this.getPosition());
     }
-  }
+    this.skipWhitespace();
 
-  private skipDoctype(): void {
-    let depth = 0;
-    while (this.position < this.xml.length) {
-      if (this.current() === '<') {
-        depth++;
-      } else if (this.current() === '>') {
-        depth--;
-        if (depth === 0) {
-          this.advance();
-          break;
-        }
+    const doctype: XmlDoctype = { name: this.parseName(), entities: {}, elements: {}, attributeLists: {} };
+    this.skipWhitespace();
+
+    if (this.startsWith('PUBLIC')) {
+      this.advanceTo(this.position + 'PUBLIC'.length);
+      this.skipWhitespace();
+      doctype.publicId = this.parseLiteral();
+      this.skipWhitespace();
+      doctype.systemId = this.parseLiteral();
+    } else if (this.startsWith('SYSTEM')) {
+      this.advanceTo(this.position + 'SYSTEM'.length);
+      this.skipWhitespace();
+      doctype.systemId = this.parseLiteral();
+    }
+    this.skipWhitespace();
+
+    if (this.current() === '[') {
+      const subsetStart = this.position + 1;
+      const subsetEnd = findSubsetEnd(this.xml, subsetStart);
+      if (subsetEnd === -1) {
+        throw new XmlParseError('Unterminated internal subset', 'INVALID_DOCTYPE', this.positionAt(subsetStart - 1));
       }
-      this.advance();
+      this.references.readInternalSubset(this.xml.substring(subsetStart, subsetEnd), doctype, offset => this.positionAt(subsetStart + offset));
+      this.advanceTo(subsetEnd + 1);
+      this.skipWhitespace();
     }
+
+    if (this.current() !== '>') {
+      throw new XmlParseError(`Expected '>' to end the document type declaration but found '${this.current()}'`, 'INVALID_DOCTYPE', this.getPosition());
+    }
+    this.advance();
+    return doctype;
   }
 
-  private skipProcessingInstruction(): void {
-    // Skip processing instruction <?...?>
-    while (this.position < this.xml.length - 1) {
-      if (this.current() === '?' && this.peek() === '>') {
-        this.advance(); // Skip '?'
-        this.advance(); // Skip '>'
-        break;
-      }
-      this.advance();
+  private parseLiteral(): string {
+    const quote = this.current();
+    const end = quote === '"' || quote === "'" ? this.xml.indexOf(quote, this.position + 1) : -1;
+    if (end === -1) {
+      throw new XmlParseError('Expected a quoted identifier in the document type declaration', 'INVALID_DOCTYPE', this.getPosition());
     }
+    const literal = this.xml.substring(this.position + 1, end);
+    this.advanceTo(end + 1);
+    return literal;
+  }
+
+  private positionAt(offset: number): XmlPosition {
+    const preceding = this.xml.substring(0, offset);
+    const lastNewline = preceding.lastIndexOf('\n');
+    return { line: preceding.split('\n').length, column: offset - lastNewline, offset };
   }
 
   private skipWhitespace(): void {
@@ -338,12 +920,34 @@ export class XmlParser {
     return char === ' ' || char === '\t' || char === '\n' || char === '\r';
   }
 
-  private isNameChar(char: string): boolean {
-    if (!char) return false;
-    return /[a-zA-Z0-9_:.-]/.test(char) || 
-           (char.charCodeAt(0) >= 0xC0 && char.charCodeAt(0) <= 0xD6) ||
-           (char.charCodeAt(0) >= 0xD8 && char.charCodeAt(0) <= 0xF6) ||
-           (char.charCodeAt(0) >= 0xF8);
+  private isNameStart(offset: number): boolean {
+    NAME_PATTERN.lastIndex = offset;
+    return NAME_PATTERN.test(this.xml);
+  }
+
+  private indexOrEnd(char: string, from = this.position): number {
+    const index = this.xml.indexOf(char, from);
+    return index === -1 ? this.xml.length : index;
+  }
+
+  private rewind(position: XmlPosition): void {
+    this.position = position.offset;
+    this.line = position.line;
+    this.column = position.column;
+  }
+
+  private getPosition(): XmlPosition {
+    return { line: this.line, column: this.column, offset: this.position };
+  }
+
+  private startsWith(text: string): boolean {
+    return this.xml.startsWith(text, this.position);
+  }
+
+  private advanceTo(position: number): void {
+    while (this.position < Math.min(position, this.xml.length)) {
+      this.advance();
+    }
   }
 
   private current(): string {
@@ -0,0 +1,247 @@
+import { XmlLocation, XmlPosition, XmlDoctype, DtdEntity } from './types';
+import { DtdParser, DtdSyntaxError } from './dtd-parser';
+import { NAME_START_CHARS, NAME_CHARS } from './xsd-datatypes';
+
+/**
+ * Syntax rules shared by XmlParser and SaxParser, so that both parsers accept
+ * the same documents and report the same errors.
+ */
+
+export const NAME = `[:${NAME_START_CHARS}\\u{10000}-\\u{EFFFF}][:${NAME_CHARS}\\u{10000}-\\u{EFFFF}]*`;
+export const NAME_PATTERN = new RegExp(NAME, 'uy');
+/** Characters outside the XML 1.0 Char production, lone surrogates included */
+export const INVALID_CHARACTER_PATTERN = /[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/u;
+const XML_DECLARATION_PATTERN =
+  /^<\?xml[ \t\r\n]+version[ \t\r\n]*=[ \t\r\n]*("1\.[0-9]+"|'1\.[0-9]+')([ \t\r\n]+encoding[ \t\r\n]*=[ \t\r\n]*("[A-Za-z][\w.-]*"|'[A-Za-z][\w.-]*'))?([ \t\r\n]+standalone[ \t\r\n]*=[ \t\r\n]*("(yes|no)"|'(yes|no)'))?[ \t\r\n]*\?>/;
+/** What lenient parsing takes for a reference: anything from '&' to the next ';' */
+export const LOOSE_REFERENCE_PATTERN = /&([^\s<&;]+);/y;
+const PREDEFINED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+export class XmlParseError extends Error {
+  constructor(message: string, public readonly code: string, public readonly position?: XmlPosition) {
+    super(message);
+    this.name = 'XmlParseError';
+  }
+}
+
+/**
+ * Receives a well-formedness error. Throwing stops parsing; returning lets
+ * the parser carry on past it.
+ */
+export type ErrorReporter = (error: XmlParseError) => void;
+
+export interface ReferenceResolverOptions {
+  strict: boolean;
+  maxEntityExpansions: number;
+  maxEntityExpansionSize: number;
+}
+
+/**
+ * Resolves character and entity references against the document type
+ * declaration, and guards entity expansion against recursion and the
+ * configured limits so that nested entities cannot blow up the document.
+ */
+export class ReferenceResolver {
+  doctype?: XmlDoctype;
+  /** Names of the entities being expanded, innermost last */
+  private expansionStack: string[] = [];
+  private expansions = 0;
+  private expansionSize = 0;
+
+  constructor(private options: ReferenceResolverOptions, private report: ErrorReporter) {}
+
+  reset(): void {
+    this.doctype = undefined;
+    this.expansionStack = [];
+    this.expansions = 0;
+    this.expansionSize = 0;
+  }
+
+  /**
+   * Name of the innermost entity being expanded, if any.
+   */
+  get expanding(): string | undefined {
+    return this.expansionStack[this.expansionStack.length - 1];
+  }
+
+  /**
+   * Reads the internal subset of a document type declaration into it.
+   * @param positionAt Position of an offset of the subset
+   */
+  readInternalSubset(subset: string, doctype: XmlDoctype, positionAt: (offset: number) => XmlPosition): void {
+    try {
+      new DtdParser(this.options.maxEntityExpansions).parse(subset, doctype);
+    } catch (error) {
+      if (error instanceof DtdSyntaxError) {
+        throw new XmlParseError(error.message, error.code, positionAt(error.offset));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Resolves a reference by what it names, '#' and the code for character
+   * references. Returns the replacement text, or the entity when its
+   * replacement text holds markup or references and has to be parsed in
+   * place of the reference with expand(). References to undeclared, external
+   * and unparsed entities are kept as written.
+   */
+  resolve(name: string, inAttribute: boolean, position: XmlPosition): string | DtdEntity {
+    if (name in PREDEFINED_ENTITIES) {
+      return PREDEFINED_ENTITIES[name];
+    }
+
+    if (name.startsWith('#')) {
+      const code = /^#x[0-9a-fA-F]+$/.test(name)
+        ? parseInt(name.slice(2), 16)
+        : /^#[0-9]+$/.test(name) ? parseInt(name.slice(1), 10) : NaN;
+      if (!(code <= 0x10FFFF) || (this.options.strict && INVALID_CHARACTER_PATTERN.test(String.fromCodePoint(code)))) {
+        this.report(new XmlParseError(`'&${name};' is not a valid character reference`, 'INVALID_CHARACTER_REFERENCE', position));
+        return `&${name};`;
+      }
+      return String.fromCodePoint(code);
+    }
+
+    const entity = this.doctype?.entities[name];
+    if (this.options.strict) {
+      // Entities may be declared in an external subset, which is never read
+      if (!entity && !this.doctype?.systemId) {
+        this.report(new XmlParseError(`Entity '&${name};' is not declared`, 'UNDEFINED_ENTITY', position));
+      }
+      if (entity?.notation !== undefined) {
+        this.report(new XmlParseError(`Unparsed entity '&${name};' cannot be referenced`, 'INVALID_ENTITY_REFERENCE', position));
+      }
+    }
+    if (entity?.value === undefined) {
+      return `&${name};`;
+    }
+
+    const value = entity.value;
+    if (this.expansionStack.includes(name)) {
+      this.report(new XmlParseError(`Entity '&${name};' refers to itself`, 'RECURSIVE_ENTITY', position));
+      return '';
+    }
+    this.expansions++;
+    this.expansionSize += value.length;
+    if (this.expansions > this.options.maxEntityExpansions || this.expansionSize > this.options.maxEntityExpansionSize) {
+      throw new XmlParseError(`Entity expansion limit exceeded while expanding '&${name};'`, 'ENTITY_EXPANSION_LIMIT', position);
+    }
+    if (inAttribute && value.includes('<')) {
+      this.report(new XmlParseError(`Entity '&${name};' contains '<' and cannot be used in an attribute value`, 'INVALID_ENTITY_REFERENCE', position));
+      return '';
+    }
+    return value.includes('<') || value.includes('&') ? entity : value;
+  }
+
+  /**
+   * Runs the parse of an entity's replacement text, which may not refer back
+   * to the entity.
+   */
+  expand<T>(entity: DtdEntity, parse: () => T): T {
+    this.expansionStack.push(entity.name);
+    try {
+      return parse();
+    } finally {
+      this.expansionStack.pop();
+    }
+  }
+
+  /**
+   * Adds the defaults the DTD declares for attributes an element leaves out.
+   * @param location Where the defaults are located, normally the start tag
+   * @param decode Replaces the references in a default value
+   */
+  applyAttributeDefaults(
+    name: string,
+    attributes: Record<string, string>,
+    attributeLocations: Record<string, XmlLocation>,
+    location: XmlLocation,
+    decode: (value: string) => string
+  ): void {
+    for (const declaration of this.doctype?.attributeLists[name] ?? []) {
+      if (declaration.defaultValue === undefined || declaration.name in attributes) {
+        continue;
+      }
+      const value = declaration.defaultValue;
+      attributes[declaration.name] = value.includes('&') ? decode(value) : value;
+      attributeLocations[declaration.name] = location;
+    }
+  }
+}
+
+/**
+ * Reports each character outside the XML character range.
+ * @param positionAt Position of an index of the text
+ */
+export function checkCharacters(text: string, positionAt: (index: number) => XmlPosition, report: ErrorReporter): void {
+  for (const match of text.matchAll(new RegExp(INVALID_CHARACTER_PATTERN, 'gu'))) {
+    const code = match[0].codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0');
+    report(new XmlParseError(`Character U+${code} is not allowed in XML`, 'INVALID_CHARACTER', positionAt(match.index!)));
+  }
+}
+
+/**
+ * The XML declaration is only allowed at the very start of the document,
+ * with its pseudo-attributes in order.
+ * @param declaration Input from the declaration on
+ */
+export function checkXmlDeclaration(declaration: string, atStart: boolean, position: XmlPosition, report: ErrorReporter): void {
+  if (!atStart) {
+    report(new XmlParseError('The XML declaration must be at the start of the document', 'INVALID_XML_DECLARATION', position));
+  } else if (!XML_DECLARATION_PATTERN.test(declaration)) {
+    report(new XmlParseError('The XML declaration is malformed', 'INVALID_XML_DECLARATION', position));
+  }
+}
+
+export function checkComment(text: string, start: XmlPosition, report: ErrorReporter): void {
+  if (text.includes('--') || text.endsWith('-')) {
+    report(new XmlParseError("Comments must not contain '--'", 'INVALID_COMMENT', start));
+  }
+}
+
+/**
+ * Targets named 'xml' in any case are reserved, and data is separated from
+ * the target by whitespace.
+ * @param rest Input after the target
+ */
+export function checkProcessingInstructionTarget(
+  target: string,
+  rest: string,
+  start: XmlPosition,
+  targetEnd: XmlPosition,
+  report: ErrorReporter
+): void {
+  if (target.toLowerCase() === 'xml') {
+    report(new XmlParseError(`Processing instruction target '${target}' is reserved`, 'RESERVED_PI_TARGET', start));
+  }
+  if (!rest.startsWith('?>') && !/^[ \t\r\n]/.test(rest)) {
+    report(new XmlParseError(`Expected whitespace after processing instruction target '${target}'`, 'MISSING_WHITESPACE', targetEnd));
+  }
+}
+
+/**
+ * Finds the ']' that closes an internal subset, skipping quoted values,
+ * comments and processing instructions that may contain one. Returns -1
+ * when the text ends first.
+ */
+export function findSubsetEnd(text: string, from: number): number {
+  let position = from;
+  while (position < text.length) {
+    const char = text[position];
+    let end = position + 1;
+    if (char === ']') {
+      return position;
+    } else if (char === '"' || char === "'") {
+      end = text.indexOf(char, position + 1) + 1;
+    } else if (text.startsWith('<!--', position)) {
+      end = text.indexOf('-->', position + 4) + 3;
+    } else if (text.startsWith('<?', position)) {
+      end = text.indexOf('?>', position + 2) + 2;
+    }
+    if (end <= position) {
+      break;
+    }
+    position = end;
+  }
+  return -1;
+}
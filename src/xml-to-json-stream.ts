@@ -0,0 +1,151 @@
+import { Transform, TransformCallback } from 'stream';
+import { XmlNode, XmlLocation, XsdSchema, XmlToJsonStreamOptions, SaxStartElement, SaxCharacterData } from './types';
+import { SaxParser } from './sax-parser';
+import { XmlToJsonConverter } from './xml-to-json';
+import { isElementNode } from './xml-parser';
+
+/**
+ * Transform stream from XML bytes to JSON records. Each record element is
+ * built into a tree as it streams past and converted through
+ * XmlToJsonConverter, so only one record is held in memory at a time.
+ */
+export class XmlToJsonStream extends Transform {
+  private parser: SaxParser;
+  private converter: XmlToJsonConverter;
+  private recordPath: string[];
+  private preserveSpace: boolean;
+  /** Names of the open elements from the root */
+  private path: string[] = [];
+  /** Whether whitespace is preserved in each open element, as set by xml:space */
+  private spacePreserveScopes: boolean[] = [];
+  /** The record being built and its open descendants, innermost last */
+  private openNodes: XmlNode[] = [];
+  private error?: Error;
+
+  /**
+   * @param options Options for the conversion, the record elements and the parser
+   * @param schema Converts records declared as global elements by their declarations
+   */
+  constructor(options: XmlToJsonStreamOptions, schema?: XsdSchema) {
+    super({ readableObjectMode: true });
+    this.converter = new XmlToJsonConverter(options, schema);
+    this.recordPath = options.record.split('/');
+    // The ordered form is lossless, so it keeps whitespace between elements too
+    this.preserveSpace = options.format === 'ordered';
+
+    this.parser = new SaxParser(options);
+    this.parser.on('startElement', element => this.startElement(element));
+    this.parser.on('endElement', ({ location }) => this.endElement(location));
+    this.parser.on('text', text => this.addText(text));
+    this.parser.on('cdata', ({ text, location }) => this.addContentNode({ name: '#cdata-section', attributes: {}, children: [], text, location }));
+    this.parser.on('comment', ({ text, location }) => this.addContentNode({ name: '#comment', attributes: {}, children: [], text, location }));
+    this.parser.on('processingInstruction', ({ target, data, location }) =>
+      this.addContentNode({ name: '#processing-instruction', attributes: {}, children: [], text: data, location, target }));
+    this.parser.on('error', error => this.error ??= error);
+  }
+
+  _transform(chunk: Buffer | string, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.step(() => this.parser.write(chunk), callback);
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.step(() => this.parser.end(), callback);
+  }
+
+  /**
+   * Parse and conversion errors end the stream with an 'error' event.
+   */
+  private step(parse: () => void, callback: TransformCallback): void {
+    try {
+      parse();
+    } catch (error) {
+      this.error ??= error instanceof Error ? error : new Error(String(error));
+    }
+    callback(this.error);
+  }
+
+  private startElement({ name, attributes, attributeLocations, location }: SaxStartElement): void {
+    const xmlSpace = attributes['xml:space'];
+    this.spacePreserveScopes.push(this.preserveSpace || xmlSpace === 'preserve' ||
+      (xmlSpace !== 'default' && this.spacePreserveScopes[this.spacePreserveScopes.length - 1] === true));
+    this.path.push(name);
+
+    if (this.openNodes.length === 0 && !this.isRecord()) {
+      return;
+    }
+    const node: XmlNode = { name, attributes, children: [], location: { ...location }, attributeLocations };
+    this.openNodes[this.openNodes.length - 1]?.children.push(node);
+    this.openNodes.push(node);
+  }
+
+  private endElement(location: XmlLocation): void {
+    const preserveSpace = this.spacePreserveScopes.pop()!;
+    this.path.pop();
+
+    const node = this.openNodes.pop();
+    if (!node) {
+      return;
+    }
+    node.location = { start: node.location!.start, end: location.end };
+    this.finishNode(node, preserveSpace);
+    if (this.openNodes.length === 0) {
+      this.push(this.converter.convert(node));
+    }
+  }
+
+  /**
+   * Records are matched by name at any depth, or by their full path from the
+   * root. Record elements inside a record are part of it.
+   */
+  private isRecord(): boolean {
+    if (this.recordPath.length === 1) {
+      return this.path[this.path.length - 1] === this.recordPath[0];
+    }
+    return this.path.length === this.recordPath.length && this.path.every((name, i) => name === this.recordPath[i]);
+  }
+
+  /**
+   * Text arriving in pieces is joined into one text node.
+   */
+  private addText({ text, location }: SaxCharacterData): void {
+    const parent = this.openNodes[this.openNodes.length - 1];
+    const last = parent?.children[parent.children.length - 1];
+    if (last?.name === '#text') {
+      last.text += text;
+      last.location = { start: last.location!.start, end: location.end };
+    } else {
+      this.addContentNode({ name: '#text', attributes: {}, children: [], text, location });
+    }
+  }
+
+  private addContentNode(node: XmlNode): void {
+    this.openNodes[this.openNodes.length - 1]?.children.push(node);
+  }
+
+  /**
+   * Shapes a finished element as XmlParser does: elements with nothing but
+   * text keep it on the node, and whitespace-only text between child
+   * elements is dropped unless whitespace is preserved.
+   */
+  private finishNode(node: XmlNode, preserveSpace: boolean): void {
+    if (node.children.every(child => child.name === '#text')) {
+      const text = node.children.map(child => child.text).join('');
+      if (text) {
+        node.text = text;
+        node.textLocation = { start: node.children[0].location!.start, end: node.children[node.children.length - 1].location!.end };
+      }
+      node.children = [];
+      return;
+    }
+
+    if (!preserveSpace && node.children.some(isElementNode)) {
+      node.children = node.children.filter(child => child.name !== '#text' || child.text!.trim() !== '');
+    }
+    if (node.children.every(child => !isElementNode(child))) {
+      const text = node.children.filter(child => child.name === '#text' || child.name === '#cdata-section').map(child => child.text).join('');
+      if (text) {
+        node.text = text;
+      }
+    }
+  }
+}
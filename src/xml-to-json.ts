@@ -1,55 +1,383 @@
-import { XmlNode, XmlToJsonOptions } from './types';
+import { XmlNode, XmlToJsonOptions, OrderedJsonElement, OrderedJsonDocument, OrderedJsonAttributes, XsdSchema, XsdElement, XsdAttribute, XsdSimpleType, XsdModelGroup, XsdTypedValue } from './types';
+import { SimpleTypeValidator } from './simple-type-validator';
+import { ContentModelMatcher } from './content-model';
+import { isElementNode } from './xml-parser';
 
 export class XmlToJsonConverter {
   private options: Required<XmlToJsonOptions>;
+  private schema?: XsdSchema;
+  private simpleTypeValidator?: SimpleTypeValidator;
+  private contentModel = new ContentModelMatcher(() => false);
+  /** Elements whose text is kept untrimmed because xml:space="preserve" applies to them */
+  private preservedSpace = new Set<XmlNode>();
 
-  constructor(options: XmlToJsonOptions = {}) {
+  /**
+   * @param options Options for the conversion
+   * @param schema Converts declared elements by their declarations instead of by what the document happens to contain
+   */
+  constructor(options: XmlToJsonOptions = {}, schema?: XsdSchema) {
+    // The ordered form is lossless, so it keeps markup unless told otherwise
+    const ordered = options.format === 'ordered';
     this.options = {
       preserveAttributes: options.preserveAttributes ?? true,
       attributePrefix: options.attributePrefix ?? '@',
       textKey: options.textKey ?? '#text',
-      ignoreNamespaces: options.ignoreNamespaces ?? false
+      ignoreNamespaces: options.ignoreNamespaces ?? false,
+      useSchema: options.useSchema ?? false,
+      format: options.format ?? 'compact',
+      comments: options.comments ?? ordered,
+      processingInstructions: options.processingInstructions ?? ordered,
+      cdata: options.cdata ?? ordered,
+      trimText: options.trimText ?? !ordered
     };
+    this.schema = schema;
+    this.simpleTypeValidator = schema ? new SimpleTypeValidator(schema) : undefined;
   }
 
   convert(xmlNode: XmlNode): any {
-    return this.nodeToJson(xmlNode);
+    this.preservedSpace = new Set();
+    if (this.options.trimText) {
+      this.collectPreservedSpace(xmlNode, false);
+    }
+    if (this.options.format === 'ordered') {
+      return this.documentToOrdered(xmlNode);
+    }
+
+    const declaration = this.schema ? this.findGlobalElement(xmlNode) : undefined;
+    const result = declaration ? this.elementToJson(xmlNode, declaration) : this.nodeToJson(xmlNode);
+    return this.addTopLevelMarkup(result, xmlNode);
+  }
+
+  /**
+   * Kept comments and processing instructions around the root element go
+   * under '#prolog' and '#epilog', as [key, text] pairs in document order.
+   * A root with nothing but text then keeps it under the text key.
+   */
+  private addTopLevelMarkup(result: any, root: XmlNode): any {
+    const prolog = this.topLevelMarkup(root.prolog);
+    const epilog = this.topLevelMarkup(root.epilog);
+    if (prolog.length === 0 && epilog.length === 0) {
+      return result;
+    }
+
+    const content = typeof result === 'object' && result !== null && !Array.isArray(result) ? result : { [this.options.textKey]: result };
+    return {
+      ...(prolog.length > 0 ? { '#prolog': prolog } : {}),
+      ...content,
+      ...(epilog.length > 0 ? { '#epilog': epilog } : {})
+    };
+  }
+
+  /**
+   * Converts the root element to the ordered form. Comments and processing
+   * instructions kept around it put it in a '#document' array, in document
+   * order.
+   */
+  private documentToOrdered(root: XmlNode): OrderedJsonElement | OrderedJsonDocument {
+    const prolog = this.topLevelMarkup(root.prolog);
+    const epilog = this.topLevelMarkup(root.epilog);
+    const element = this.nodeToOrdered(root);
+    return prolog.length > 0 || epilog.length > 0 ? ['#document', ...prolog, element, ...epilog] : element;
+  }
+
+  private topLevelMarkup(nodes: XmlNode[] = []): OrderedJsonElement[] {
+    return nodes.filter(node => this.keepsMarkup(node)).map(node => [this.getMarkupKey(node), node.text ?? '']);
+  }
+
+  /**
+   * Converts an element to the ordered form. Text stays a string, so nothing
+   * is lost to type guessing, and siblings keep their document order.
+   */
+  private nodeToOrdered(node: XmlNode): OrderedJsonElement {
+    const element: OrderedJsonElement = [this.getElementName(node)];
+
+    if (this.options.preserveAttributes && Object.keys(node.attributes).length > 0) {
+      const attributes: OrderedJsonAttributes = {};
+      for (const [key, value] of Object.entries(node.attributes)) {
+        attributes[this.getAttributeKey(key)] = value;
+      }
+      element.push(attributes);
+    }
+
+    if (node.children.length === 0 && node.text !== undefined) {
+      element.push(node.text);
+    }
+    for (const child of node.children) {
+      if (isElementNode(child)) {
+        element.push(this.nodeToOrdered(child));
+      } else if (!this.keepsMarkup(child)) {
+        if (child.name === '#text' || child.name === '#cdata-section') {
+          element.push(child.text ?? '');
+        }
+      } else {
+        element.push([this.getMarkupKey(child), child.text ?? '']);
+      }
+    }
+
+    return element;
+  }
+
+  /**
+   * Text is always kept; comments, processing instructions and CDATA
+   * sections only when the options ask for them. Dropped CDATA sections
+   * become part of the surrounding text.
+   */
+  private keepsMarkup(node: XmlNode): boolean {
+    switch (node.name) {
+      case '#comment':
+        return this.options.comments;
+      case '#processing-instruction':
+        return this.options.processingInstructions;
+      case '#cdata-section':
+        return this.options.cdata;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Comments and CDATA sections are named after their node kind, processing
+   * instructions after their target prefixed with '?'.
+   */
+  private getMarkupKey(node: XmlNode): string {
+    return node.name === '#processing-instruction' ? `?${node.target}` : node.name;
+  }
+
+  /**
+   * Joins the text of a node, including CDATA sections that are not kept
+   * apart. Returns undefined when there is none.
+   */
+  private getCharacterData(node: XmlNode): string | undefined {
+    if (node.children.length === 0) {
+      return node.text === undefined ? undefined : this.trimText(node, node.text) || undefined;
+    }
+    const parts = node.children
+      .filter(child => child.name === '#text' || (child.name === '#cdata-section' && !this.options.cdata))
+      .map(child => child.text ?? '');
+    return parts.length > 0 ? this.trimText(node, parts.join('')) || undefined : undefined;
+  }
+
+  /**
+   * Pretty-printed text such as <age>\n  30\n</age> is trimmed, so that it
+   * converts as 30, unless trimText is off or xml:space="preserve" applies.
+   */
+  private trimText(node: XmlNode, text: string): string {
+    return this.options.trimText && !this.preservedSpace.has(node) ? text.trim() : text;
+  }
+
+  private collectPreservedSpace(node: XmlNode, inherited: boolean): void {
+    const xmlSpace = node.attributes['xml:space'];
+    const preserve = xmlSpace === 'preserve' || (xmlSpace !== 'default' && inherited);
+    if (preserve) {
+      this.preservedSpace.add(node);
+    }
+    node.children.filter(isElementNode).forEach(child => this.collectPreservedSpace(child, preserve));
+  }
+
+  /**
+   * Converts an element by its declaration. Elements that may occur more than
+   * once always become arrays, values are typed by their declared types and
+   * keys follow declaration order: attributes, text, then child elements.
+   * Content the schema does not describe is converted as without a schema.
+   */
+  private elementToJson(node: XmlNode, xsdElement: XsdElement): any {
+    const schema = this.schema!;
+    const complexType = xsdElement.complexType ?? schema.complexTypes[xsdElement.type];
+    const childElements = node.children.filter(isElementNode);
+
+    if (!complexType && childElements.length > 0) {
+      return this.nodeToJson(node);
+    }
+
+    const result: any = {};
+    if (this.options.preserveAttributes) {
+      this.addTypedAttributes(result, node, complexType?.attributes ?? []);
+    }
+
+    if (!complexType || complexType.simpleContent) {
+      const text = this.getText(node);
+      const value = this.coerce(
+        text === '' ? xsdElement.defaultValue ?? xsdElement.fixedValue ?? text : text,
+        complexType?.simpleContent ?? xsdElement.simpleType ?? xsdElement.type
+      );
+      if (Object.keys(result).length === 0) {
+        return value;
+      }
+      result[this.options.textKey] = value;
+      return result;
+    }
+
+    const text = this.getText(node);
+    if (complexType.mixed && text !== '') {
+      result[this.options.textKey] = text;
+    }
+
+    const remaining = new Set(childElements);
+    const seenNames = new Set<string>();
+    for (const declaration of complexType.elements) {
+      if (seenNames.has(declaration.name)) {
+        continue;
+      }
+      seenNames.add(declaration.name);
+
+      const matching = childElements.filter(child => this.matchesDeclaration(child, declaration));
+      if (matching.length === 0) {
+        continue;
+      }
+      matching.forEach(child => remaining.delete(child));
+
+      const values = matching.map(child => this.elementToJson(child, declaration));
+      result[this.getElementName(matching[0])] = this.isRepeated(complexType.content, complexType.elements, declaration.name) || values.length > 1
+        ? values
+        : values[0];
+    }
+
+    // Elements matched by wildcards use their global declaration when there is one
+    const undeclared: { [key: string]: any[] } = {};
+    for (const child of remaining) {
+      const declaration = this.findGlobalElement(child);
+      const childName = this.getElementName(child);
+      (undeclared[childName] ??= []).push(declaration ? this.elementToJson(child, declaration) : this.nodeToJson(child));
+    }
+    for (const [name, values] of Object.entries(undeclared)) {
+      result[name] = values.length === 1 ? values[0] : values;
+    }
+
+    return result;
+  }
+
+  private addTypedAttributes(result: any, node: XmlNode, declarations: XsdAttribute[]): void {
+    const remaining = new Set(Object.keys(node.attributes));
+
+    for (const declaration of declarations) {
+      const attrName = [...remaining].find(name => {
+        const attrQName = node.attributeNames?.[name];
+        return (attrQName?.localName ?? this.getLocalName(name)) === declaration.name &&
+          (attrQName === undefined || attrQName.namespace === declaration.namespace);
+      });
+      if (attrName !== undefined) {
+        remaining.delete(attrName);
+        result[this.options.attributePrefix + this.getAttributeKey(attrName)] =
+          this.coerce(node.attributes[attrName], declaration.simpleType ?? declaration.type);
+      }
+    }
+
+    for (const attrName of remaining) {
+      result[this.options.attributePrefix + this.getAttributeKey(attrName)] = this.convertValue(node.attributes[attrName]);
+    }
+  }
+
+  /**
+   * An element is repeated when its declarations can occur more than once in
+   * total, counting every repetition of the groups around them.
+   */
+  private isRepeated(content: XsdModelGroup | undefined, elements: XsdElement[], name: string): boolean {
+    let total = 0;
+    for (const declaration of elements.filter(element => element.name === name)) {
+      const maxOccurs = (content && this.contentModel.maxOccurrences(content, declaration)) ?? declaration.maxOccurs;
+      total += maxOccurs === 'unbounded' ? Infinity : maxOccurs;
+    }
+    return total > 1;
+  }
+
+  /**
+   * Values that are invalid for their declared type are kept as strings.
+   */
+  private coerce(value: string, type: string | XsdSimpleType): any {
+    const typed = this.simpleTypeValidator!.parse(value, type);
+    return typed === undefined ? value : this.toJsonValue(typed, value);
+  }
+
+  /**
+   * Makes a typed value JSON-safe: integers beyond the safe range become
+   * strings, and dates, times and binary values keep their lexical form.
+   */
+  private toJsonValue(value: XsdTypedValue, lexical: string): any {
+    const normalized = lexical.trim().replace(/[ \t\r\n]+/g, ' ');
+    if (typeof value === 'bigint') {
+      return value.toString();
+    }
+    if (value instanceof Date || value instanceof Uint8Array) {
+      return normalized;
+    }
+    if (Array.isArray(value)) {
+      const items = normalized.split(' ');
+      return value.map((item, i) => this.toJsonValue(item, items[i] ?? ''));
+    }
+    return value;
+  }
+
+  private findGlobalElement(node: XmlNode): XsdElement | undefined {
+    const schema = this.schema!;
+    const localName = node.localName ?? this.getLocalName(node.name);
+    const key = node.localName === undefined || node.namespace === schema.targetNamespace
+      ? localName
+      : `{${node.namespace ?? ''}}${localName}`;
+    return schema.elements[key];
+  }
+
+  /**
+   * Trees parsed without namespace support are matched by local name alone.
+   */
+  private matchesDeclaration(node: XmlNode, declaration: XsdElement): boolean {
+    return (node.localName ?? this.getLocalName(node.name)) === declaration.name &&
+      (node.localName === undefined || node.namespace === declaration.namespace);
+  }
+
+  private getText(node: XmlNode): string {
+    return this.trimText(node, node.text ?? node.children
+      .filter(child => child.name === '#text' || child.name === '#cdata-section')
+      .map(child => child.text ?? '')
+      .join(''));
+  }
+
+  private getElementName(node: XmlNode): string {
+    return this.options.ignoreNamespaces ? node.localName ?? this.getLocalName(node.name) : node.name;
+  }
+
+  private getAttributeKey(attrName: string): string {
+    return this.options.ignoreNamespaces ? this.getLocalName(attrName) : attrName;
   }
 
   private nodeToJson(node: XmlNode): any {
     const result: any = {};
     const nodeName = this.options.ignoreNamespaces ? this.getLocalName(node.name) : node.name;
 
+    const text = this.getCharacterData(node);
+    const hasContentNodes = node.children.some(child => isElementNode(child) || this.keepsMarkup(child));
+
     // Handle text-only nodes
-    if (node.text !== undefined && node.children.length === 0 && Object.keys(node.attributes).length === 0) {
-      return this.convertValue(node.text);
+    if (text !== undefined && !hasContentNodes && Object.keys(node.attributes).length === 0) {
+      return this.convertText(node, text);
     }
 
     // Add attributes
     if (this.options.preserveAttributes && Object.keys(node.attributes).length > 0) {
       for (const [key, value] of Object.entries(node.attributes)) {
         const attrKey = this.options.ignoreNamespaces ? this.getLocalName(key) : key;
-        result[this.options.attributePrefix + attrKey] = this.convertValue(value);
+        result[this.options.attributePrefix + attrKey] = node.typedAttributes?.[key] !== undefined
+          ? this.toJsonValue(node.typedAttributes[key], value)
+          : this.convertValue(value);
       }
     }
 
     // Handle mixed content (text + elements)
-    if (node.text !== undefined && node.children.length > 0) {
-      result[this.options.textKey] = this.convertValue(node.text);
+    if (text !== undefined) {
+      result[this.options.textKey] = this.convertText(node, text);
     }
 
-    // Process child elements
+    // Process child elements and kept markup
     const elementGroups: { [key: string]: any[] } = {};
     
     for (const child of node.children) {
-      if (child.name === '#text') {
-        if (child.text !== undefined) {
-          result[this.options.textKey] = this.convertValue(child.text);
+      if (!isElementNode(child)) {
+        if (this.keepsMarkup(child)) {
+          (elementGroups[this.getMarkupKey(child)] ??= []).push(child.text ?? '');
         }
         continue;
       }
 
-      const childName = this.options.ignoreNamespaces ? this.getLocalName(child.name) : child.name;
+      const childName = this.options.ignoreNamespaces ? child.localName ?? this.getLocalName(child.name) : child.name;
       const childValue = this.nodeToJson(child);
       
       if (!elementGroups[childName]) {
@@ -73,13 +401,21 @@ export class XmlToJsonConverter {
     }
 
     // If result is empty and we have text, return the text
-    if (Object.keys(result).length === 0 && node.text !== undefined) {
-      return this.convertValue(node.text);
+    if (Object.keys(result).length === 0 && text !== undefined) {
+      return this.convertText(node, text);
     }
 
     return result;
   }
 
+  /**
+   * Trees annotated by schema validation carry typed values; the text of
+   * other nodes is converted by guessing its type.
+   */
+  private convertText(node: XmlNode, text: string): any {
+    return node.typedValue !== undefined ? this.toJsonValue(node.typedValue, text) : this.convertValue(text);
+  }
+
   private convertValue(value: string): any {
     // Try to convert to appropriate types
     if (value === 'true') return true;
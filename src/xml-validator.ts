@@ -1,230 +1,744 @@
-import { XsdSchema, XsdElement, XmlNode, ValidationError, XsdComplexType, XsdSimpleType, XsdRestriction } from './types';
+import { XsdSchema, XsdElement, XsdAttribute, XmlNode, XmlLocation, ValidationError, XmlValidatorOptions, XsdComplexType, XsdSimpleType, XsdModelGroup, XsdIdentityConstraint, XsdWildcard, XsdAny, XsdParticle, XsdTypedValue } from './types';
+import { XMLNS_NAMESPACE, isElementNode } from './xml-parser';
+import { XSD_NAMESPACE } from './xsd-parser';
+import { XsdDatatypes } from './xsd-datatypes';
+import { SimpleTypeValidator, SimpleValueIssue } from './simple-type-validator';
+import { RestrictedXPath, XPathMatch } from './restricted-xpath';
+import { ContentModelMatcher, ContentModelMatch } from './content-model';
+
+export const XSI_NAMESPACE = 'http://www.w3.org/2001/XMLSchema-instance';
+
+const EMPTY_CONTENT: XsdModelGroup = { kind: 'sequence', minOccurs: 1, maxOccurs: 1, particles: [] };
+/** xs:anyType, the ur-type: any attributes and any mixed content, validated laxly */
+const ANY_TYPE: XsdComplexType = {
+  name: 'anyType',
+  elements: [],
+  attributes: [],
+  mixed: true,
+  content: {
+    kind: 'sequence',
+    minOccurs: 1,
+    maxOccurs: 1,
+    particles: [{ namespaceMode: 'any', namespaces: [], processContents: 'lax', minOccurs: 0, maxOccurs: 'unbounded' }]
+  },
+  anyAttribute: { namespaceMode: 'any', namespaces: [], processContents: 'lax' }
+};
 
 export class XmlValidator {
   private schema: XsdSchema;
+  private options: Required<XmlValidatorOptions>;
   private errors: ValidationError[] = [];
+  private datatypes = new XsdDatatypes();
+  private simpleTypeValidator: SimpleTypeValidator;
+  private identityTables = new Map<XmlNode, Map<XsdIdentityConstraint, Set<string>>>();
+  /** Declarations elements and attributes were validated against, for typing identity constraint fields */
+  private elementDeclarations = new Map<XmlNode, XsdElement>();
+  private attributeDeclarations = new Map<XmlNode, Record<string, XsdAttribute>>();
+  private compiledConstraints = new Map<XsdIdentityConstraint, { selector: RestrictedXPath; fields: RestrictedXPath[] }>();
+  private contentMatcher = new ContentModelMatcher(
+    (child, xsdElement) => this.getLocalName(child) === xsdElement.name,
+    (child, wildcard) => this.allowsNamespace(child, child.namespace, wildcard)
+  );
 
-  constructor(schema: XsdSchema) {
+  constructor(schema: XsdSchema, options: XmlValidatorOptions = {}) {
     this.schema = schema;
+    this.options = {
+      applyDefaultAttributes: options.applyDefaultAttributes ?? true,
+      annotate: options.annotate ?? false
+    };
+    this.simpleTypeValidator = new SimpleTypeValidator(schema);
   }
 
   validate(xmlNode: XmlNode): ValidationError[] {
     this.errors = [];
+    this.identityTables = new Map();
+    this.elementDeclarations = new Map();
+    this.attributeDeclarations = new Map();
     
-    // Find root element in schema
-    const rootElement = this.schema.elements[xmlNode.name];
+    // Find root element in schema; elements of imported namespaces are keyed by expanded name
+    const rootElement = this.schema.elements[this.getElementKey(xmlNode)] ?? this.schema.elements[this.getLocalName(xmlNode)];
     if (!rootElement) {
-      this.addError(1, 1, `Root element '${xmlNode.name}' not found in schema`, 'ELEMENT_NOT_FOUND');
+      this.addError(xmlNode.location, `Root element '${xmlNode.name}' not found in schema`, 'ELEMENT_NOT_FOUND');
       return this.errors;
     }
 
-    this.validateElement(xmlNode, rootElement, 1, 1);
+    this.validateElement(xmlNode, rootElement);
     return this.errors;
   }
 
-  private validateElement(xmlNode: XmlNode, xsdElement: XsdElement, line: number, column: number): void {
+  private validateElement(xmlNode: XmlNode, xsdElement: XsdElement): void {
     // Validate element name
-    if (xmlNode.name !== xsdElement.name) {
-      this.addError(line, column, `Expected element '${xsdElement.name}' but found '${xmlNode.name}'`, 'ELEMENT_MISMATCH');
+    if (this.getLocalName(xmlNode) !== xsdElement.name) {
+      this.addError(xmlNode.location, `Expected element '${xsdElement.name}' but found '${xmlNode.name}'`, 'ELEMENT_MISMATCH');
       return;
     }
 
-    // Validate attributes
-    this.validateAttributes(xmlNode, xsdElement, line, column);
+    if (!this.matchesNamespace(xmlNode, xmlNode.namespace, xsdElement.namespace)) {
+      this.addError(xmlNode.location,
+        `Element '${xmlNode.name}' is in ${this.describeNamespace(xmlNode.namespace)} but ${this.describeNamespace(xsdElement.namespace)} is expected`,
+        'NAMESPACE_MISMATCH');
+      return;
+    }
+
+    // xsi:type replaces the declared type with one derived from it
+    const instanceElement = this.applyXsiType(xmlNode, xsdElement);
+    if (!instanceElement) {
+      return;
+    }
 
     // Validate content based on type
-    if (this.isBuiltInType(xsdElement.type)) {
-      this.validateSimpleContent(xmlNode, xsdElement, line, column);
-    } else if (this.schema.complexTypes[xsdElement.type]) {
-      this.validateComplexContent(xmlNode, this.schema.complexTypes[xsdElement.type], line, column);
-    } else if (this.schema.simpleTypes[xsdElement.type]) {
-      this.validateSimpleTypeContent(xmlNode, this.schema.simpleTypes[xsdElement.type], line, column);
-    } else if (xsdElement.type.startsWith('#inline-')) {
-      // Handle inline types
-      this.validateInlineContent(xmlNode, xsdElement, line, column);
+    const complexType = this.getComplexType(instanceElement);
+    const simpleType = this.getSimpleType(instanceElement);
+
+    if (complexType?.abstract) {
+      this.addError(xmlNode.location,
+        `Element '${xmlNode.name}' cannot use abstract type '${complexType.name}' without xsi:type naming a derived type`,
+        'ABSTRACT_TYPE');
+      return;
+    }
+
+    this.elementDeclarations.set(xmlNode, instanceElement);
+    if (this.options.annotate) {
+      xmlNode.schemaType = instanceElement.type;
+    }
+
+    // Validate attributes
+    this.validateAttributes(xmlNode, instanceElement);
+
+    if (complexType?.simpleContent) {
+      this.validateSimpleTypeContent(xmlNode, complexType.simpleContent, instanceElement);
+    } else if (complexType) {
+      this.validateComplexContent(xmlNode, complexType);
+    } else if (simpleType) {
+      this.validateSimpleTypeContent(xmlNode, simpleType, instanceElement);
+    } else if (this.isBuiltInType(instanceElement.type)) {
+      this.validateSimpleContent(xmlNode, instanceElement);
+    }
+
+    if (instanceElement.identityConstraints) {
+      this.validateIdentityConstraints(xmlNode, instanceElement.identityConstraints);
+    }
+  }
+
+  /**
+   * Checks key, unique and keyref constraints declared on an element once its
+   * subtree is validated. The values of keys and uniques are kept per element
+   * so keyrefs on the same element or an ancestor can refer to them.
+   */
+  private validateIdentityConstraints(xmlNode: XmlNode, constraints: XsdIdentityConstraint[]): void {
+    const tables = new Map<XsdIdentityConstraint, Set<string>>();
+    this.identityTables.set(xmlNode, tables);
+
+    // Keyrefs go last so they see the keys declared on the same element
+    const ordered = [...constraints.filter(c => c.kind !== 'keyref'), ...constraints.filter(c => c.kind === 'keyref')];
+
+    for (const constraint of ordered) {
+      const compiled = this.compileIdentityConstraint(constraint);
+      const referenced = constraint.refer ? this.schema.identityConstraints[constraint.refer] : undefined;
+      const referencedValues = referenced ? this.collectIdentityValues(xmlNode, referenced) : new Set<string>();
+      const values = new Set<string>();
+
+      for (const { node } of compiled.selector.evaluate(xmlNode)) {
+        const tuple = this.evaluateFields(node, compiled.fields, constraint);
+        if (!tuple) {
+          if (constraint.kind === 'key') {
+            this.addError(node.location, `Element '${node.name}' has no value for every field of key '${constraint.name}'`, 'KEY_FIELD_MISSING');
+          }
+          continue;
+        }
+
+        const { value, display } = tuple;
+        if (constraint.kind === 'keyref') {
+          if (!referencedValues.has(value)) {
+            this.addError(node.location, `Value ${display} of keyref '${constraint.name}' does not match any '${referenced?.name ?? constraint.refer}' value`, 'KEYREF_NOT_FOUND');
+          }
+        } else if (values.has(value)) {
+          this.addError(node.location, `Duplicate value ${display} for ${constraint.kind} '${constraint.name}'`, 'DUPLICATE_KEY');
+        } else {
+          values.add(value);
+        }
+      }
+
+      if (constraint.kind !== 'keyref') {
+        tables.set(constraint, values);
+      }
+    }
+  }
+
+  private compileIdentityConstraint(constraint: XsdIdentityConstraint): { selector: RestrictedXPath; fields: RestrictedXPath[] } {
+    let compiled = this.compiledConstraints.get(constraint);
+    if (!compiled) {
+      compiled = {
+        selector: new RestrictedXPath(constraint.selector, constraint.namespaces),
+        fields: constraint.fields.map(field => new RestrictedXPath(field, constraint.namespaces, true))
+      };
+      this.compiledConstraints.set(constraint, compiled);
+    }
+    return compiled;
+  }
+
+  /**
+   * Returns the field values of a selected node as a key to compare and the
+   * values as written, or undefined when a field selects nothing.
+   */
+  private evaluateFields(
+    node: XmlNode,
+    fields: RestrictedXPath[],
+    constraint: XsdIdentityConstraint
+  ): { value: string; display: string } | undefined {
+    const keys: string[] = [];
+    const lexicalValues: string[] = [];
+
+    for (const field of fields) {
+      const matches = field.evaluate(node);
+      if (matches.length > 1) {
+        this.addError(node.location, `Field '${field.expression}' of ${constraint.kind} '${constraint.name}' selects more than one node`, 'INVALID_IDENTITY_FIELD');
+        return undefined;
+      }
+      if (matches.length === 0) {
+        return undefined;
+      }
+      const lexicalValue = this.getMatchValue(matches[0]).trim().replace(/\s+/g, ' ');
+      lexicalValues.push(lexicalValue);
+      keys.push(this.getFieldKey(matches[0], lexicalValue));
+    }
+
+    return { value: JSON.stringify(keys), display: lexicalValues.map(value => `'${value}'`).join(', ') };
+  }
+
+  /**
+   * Fields compare by the typed value of their declared type, so an xs:int
+   * 01 equals 1. Fields without a declaration compare as collapsed strings.
+   */
+  private getFieldKey(match: XPathMatch, lexicalValue: string): string {
+    const type = this.getFieldType(match);
+    const typedValue = type === undefined ? undefined : this.simpleTypeValidator.parse(lexicalValue, type);
+    return this.getTypedValueKey(typedValue ?? lexicalValue);
+  }
+
+  private getFieldType(match: XPathMatch): string | XsdSimpleType | undefined {
+    if (match.attribute !== undefined) {
+      const declaration = this.attributeDeclarations.get(match.node)?.[match.attribute];
+      return declaration && (declaration.simpleType ?? declaration.type);
     }
+    const declaration = this.elementDeclarations.get(match.node);
+    if (!declaration) {
+      return undefined;
+    }
+    const complexType = this.getComplexType(declaration);
+    return complexType ? complexType.simpleContent : declaration.simpleType ?? declaration.type;
+  }
+
+  /**
+   * Equal typed values get equal keys; values of different kinds never do.
+   */
+  private getTypedValueKey(value: XsdTypedValue): string {
+    if (typeof value === 'number' || typeof value === 'bigint') {
+      return `number:${typeof value === 'number' && !Number.isInteger(value) ? value : BigInt(value)}`;
+    }
+    if (value instanceof Date) {
+      return `date:${value.getTime()}`;
+    }
+    if (value instanceof Uint8Array) {
+      return `binary:${Array.from(value, byte => byte.toString(16).padStart(2, '0')).join('')}`;
+    }
+    if (Array.isArray(value)) {
+      return `list:${JSON.stringify(value.map(item => this.getTypedValueKey(item)))}`;
+    }
+    return typeof value === 'object' ? `duration:${JSON.stringify(value)}` : `${typeof value}:${value}`;
+  }
+
+  private getMatchValue(match: XPathMatch): string {
+    return match.attribute !== undefined ? match.node.attributes[match.attribute] : this.getTextContent(match.node);
   }
 
-  private validateAttributes(xmlNode: XmlNode, xsdElement: XsdElement, line: number, column: number): void {
-    // Check if we have a complex type with attributes
-    const complexType = this.schema.complexTypes[xsdElement.type];
-    if (!complexType) return;
+  /**
+   * Gathers the values of a key or unique constraint from an element and all
+   * its descendants that declare it.
+   */
+  private collectIdentityValues(xmlNode: XmlNode, constraint: XsdIdentityConstraint, values = new Set<string>()): Set<string> {
+    this.identityTables.get(xmlNode)?.get(constraint)?.forEach(value => values.add(value));
+    xmlNode.children.forEach(child => this.collectIdentityValues(child, constraint, values));
+    return values;
+  }
+
+  /**
+   * Returns the declaration to validate the element against: the schema
+   * declaration itself, or a copy whose type is the one named by xsi:type.
+   * Reports an error and returns undefined when the xsi:type is unusable.
+   */
+  private applyXsiType(xmlNode: XmlNode, xsdElement: XsdElement): XsdElement | undefined {
+    const xsiType = this.findXsiAttribute(xmlNode, 'type');
+    if (xsiType === undefined) {
+      return xsdElement;
+    }
+
+    const location = xmlNode.attributeLocations?.[xsiType.name] ?? xmlNode.location;
+    const typeKey = this.resolveXsiType(xmlNode, xsiType.value);
+    if (typeKey === undefined) {
+      this.addError(location, `Type '${xsiType.value}' named by xsi:type is not defined in the schema`, 'INVALID_XSI_TYPE');
+      return undefined;
+    }
+
+    if (!this.isTypeDerivedFrom(typeKey, xsdElement.type)) {
+      this.addError(location,
+        `Type '${xsiType.value}' named by xsi:type is not derived from the declared type of element '${xmlNode.name}'`,
+        'INVALID_XSI_TYPE');
+      return undefined;
+    }
+
+    return { ...xsdElement, type: typeKey, complexType: undefined, simpleType: undefined, restrictions: undefined };
+  }
+
+  /**
+   * Maps an xsi:type QName to the key the type is stored under in the schema,
+   * mirroring how the schema parser keys named types.
+   */
+  private resolveXsiType(xmlNode: XmlNode, qname: string): string | undefined {
+    const colonIndex = qname.indexOf(':');
+    const prefix = colonIndex === -1 ? '' : qname.substring(0, colonIndex);
+    const localName = qname.substring(colonIndex + 1);
+    const namespace = xmlNode.namespaces ? xmlNode.namespaces[prefix] : this.schema.targetNamespace;
+
+    if (namespace === XSD_NAMESPACE || (namespace === undefined && !prefix && this.schema.targetNamespace === undefined)) {
+      if (this.isBuiltInType(localName)) {
+        return localName;
+      }
+    }
+    const candidates = namespace === this.schema.targetNamespace
+      ? [localName, `{${namespace ?? ''}}${localName}`]
+      : [`{${namespace ?? ''}}${localName}`];
+    return candidates.find(candidate => this.schema.complexTypes[candidate] || this.schema.simpleTypes[candidate]);
+  }
+
+  private isTypeDerivedFrom(typeKey: string, baseKey: string): boolean {
+    const visited = new Set<string>();
+    let current: string | undefined = typeKey;
+
+    while (current !== undefined && !visited.has(current)) {
+      if (current === baseKey || baseKey === 'anyType') {
+        return true;
+      }
+      visited.add(current);
+
+      const complexType: XsdComplexType | undefined = this.schema.complexTypes[current];
+      const simpleType: XsdSimpleType | undefined = this.schema.simpleTypes[current];
+      if (complexType) {
+        current = complexType.baseType ?? complexType.simpleContent?.baseType;
+      } else if (simpleType) {
+        current = simpleType.baseSimpleType ? undefined : simpleType.baseType;
+      } else {
+        return this.datatypes.isDerivedFrom(current, baseKey);
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Anonymous types declared inside the element take precedence over named
+   * types looked up by the element's type reference.
+   */
+  private getComplexType(xsdElement: XsdElement): XsdComplexType | undefined {
+    return xsdElement.complexType ?? this.schema.complexTypes[xsdElement.type] ?? (xsdElement.type === 'anyType' ? ANY_TYPE : undefined);
+  }
+
+  private getSimpleType(xsdElement: XsdElement): XsdSimpleType | undefined {
+    return xsdElement.simpleType ?? this.schema.simpleTypes[xsdElement.type];
+  }
+
+  /**
+   * Elements whose type is simple or has no attribute declarations still get
+   * their attributes checked; only namespace declarations and xsi:*
+   * attributes are exempt.
+   */
+  private validateAttributes(xmlNode: XmlNode, xsdElement: XsdElement): void {
+    const complexType = this.getComplexType(xsdElement);
+    const declarations = complexType?.attributes ?? [];
 
     // Validate required attributes
-    for (const xsdAttr of complexType.attributes) {
-      if (xsdAttr.use === 'required' && !xmlNode.attributes[xsdAttr.name]) {
-        this.addError(line, column, `Required attribute '${xsdAttr.name}' is missing`, 'MISSING_REQUIRED_ATTRIBUTE');
+    for (const xsdAttr of declarations) {
+      if (xsdAttr.use === 'required' && !this.findAttribute(xmlNode, xsdAttr)) {
+        this.addError(xmlNode.location, `Required attribute '${xsdAttr.name}' is missing`, 'MISSING_REQUIRED_ATTRIBUTE');
       }
     }
 
     // Validate attribute values
     for (const [attrName, attrValue] of Object.entries(xmlNode.attributes)) {
-      const xsdAttr = complexType.attributes.find(a => a.name === attrName);
-      if (!xsdAttr) {
-        this.addError(line, column, `Attribute '${attrName}' is not allowed`, 'UNEXPECTED_ATTRIBUTE');
+      const attrLocation = xmlNode.attributeLocations?.[attrName] ?? xmlNode.location;
+      const attrQName = xmlNode.attributeNames?.[attrName];
+
+      // Namespace declarations and xsi:* attributes are not attributes in the schema sense
+      if (this.isNamespaceDeclaration(xmlNode, attrName) || this.isXsiAttribute(xmlNode, attrName)) {
+        continue;
+      }
+
+      const attrLocalName = attrQName?.localName ?? attrName;
+      const namedAttrs = declarations.filter(a => a.name === attrLocalName);
+      const xsdAttr = namedAttrs.find(a => this.matchesNamespace(xmlNode, attrQName?.namespace, a.namespace));
+
+      if (xsdAttr?.use === 'prohibited') {
+        this.addError(attrLocation, `Attribute '${attrName}' is prohibited`, 'PROHIBITED_ATTRIBUTE');
+      } else if (xsdAttr) {
+        this.validateAttributeValue(xmlNode, attrName, attrValue, xsdAttr, attrLocation);
+      } else if (complexType?.anyAttribute && this.allowsNamespace(xmlNode, attrQName?.namespace, complexType.anyAttribute)) {
+        this.validateWildcardAttribute(xmlNode, attrName, attrValue, attrQName?.namespace, complexType.anyAttribute, attrLocation);
+      } else if (namedAttrs.length > 0) {
+        this.addError(attrLocation,
+          `Attribute '${attrName}' is in ${this.describeNamespace(attrQName?.namespace)} but ${this.describeNamespace(namedAttrs[0].namespace)} is expected`,
+          'NAMESPACE_MISMATCH');
+      } else {
+        this.addError(attrLocation, `Attribute '${attrName}' is not allowed`, 'UNEXPECTED_ATTRIBUTE');
+      }
+    }
+
+    if (this.options.applyDefaultAttributes) {
+      this.applyDefaultAttributes(xmlNode, declarations);
+    }
+  }
+
+  /**
+   * Adds absent optional attributes that declare a default or fixed value to
+   * the element, so later checks such as identity constraints see them.
+   * Qualified attributes are named with a prefix in scope for their namespace.
+   */
+  private applyDefaultAttributes(xmlNode: XmlNode, declarations: XsdAttribute[]): void {
+    for (const xsdAttr of declarations) {
+      const value = xsdAttr.defaultValue ?? xsdAttr.fixedValue;
+      if (value === undefined || xsdAttr.use !== 'optional' || this.findAttribute(xmlNode, xsdAttr)) {
         continue;
       }
 
-      if (xsdAttr.fixedValue && attrValue !== xsdAttr.fixedValue) {
-        this.addError(line, column, `Attribute '${attrName}' must have value '${xsdAttr.fixedValue}'`, 'FIXED_VALUE_VIOLATION');
+      const prefix = xsdAttr.namespace === undefined || !xmlNode.namespaces
+        ? undefined
+        : Object.keys(xmlNode.namespaces).find(candidate => candidate && xmlNode.namespaces![candidate] === xsdAttr.namespace);
+      if (xsdAttr.namespace !== undefined && xmlNode.namespaces && prefix === undefined) {
+        continue;
       }
 
-      // Validate attribute type
-      if (!this.validateSimpleValue(attrValue, xsdAttr.type)) {
-        this.addError(line, column, `Invalid value '${attrValue}' for attribute '${attrName}' of type '${xsdAttr.type}'`, 'INVALID_ATTRIBUTE_VALUE');
+      const attrName = prefix ? `${prefix}:${xsdAttr.name}` : xsdAttr.name;
+      xmlNode.attributes[attrName] = value;
+      if (xmlNode.attributeNames) {
+        xmlNode.attributeNames[attrName] = { localName: xsdAttr.name, prefix, namespace: xsdAttr.namespace };
       }
+      this.annotateAttribute(xmlNode, attrName, value, xsdAttr);
     }
   }
 
-  private validateSimpleContent(xmlNode: XmlNode, xsdElement: XsdElement, line: number, column: number): void {
-    if (xmlNode.children.length > 0 && xmlNode.children.some(child => child.name !== '#text')) {
-      this.addError(line, column, `Element '${xmlNode.name}' should contain simple content but has child elements`, 'INVALID_CONTENT');
-      return;
+  private validateAttributeValue(
+    xmlNode: XmlNode,
+    attrName: string,
+    attrValue: string,
+    xsdAttr: XsdAttribute,
+    attrLocation: XmlLocation | undefined
+  ): void {
+    this.attributeDeclarations.set(xmlNode, { ...this.attributeDeclarations.get(xmlNode), [attrName]: xsdAttr });
+    if (xsdAttr.fixedValue && attrValue !== xsdAttr.fixedValue) {
+      this.addError(attrLocation, `Attribute '${attrName}' must have value '${xsdAttr.fixedValue}'`, 'FIXED_VALUE_VIOLATION');
     }
 
-    const textContent = xmlNode.text || xmlNode.children.find(child => child.name === '#text')?.text || '';
-    
-    if (!this.validateSimpleValue(textContent, xsdElement.type)) {
-      this.addError(line, column, `Invalid value '${textContent}' for element '${xmlNode.name}' of type '${xsdElement.type}'`, 'INVALID_ELEMENT_VALUE');
+    // Validate attribute type
+    const issues = this.simpleTypeValidator.validate(attrValue, xsdAttr.simpleType ?? xsdAttr.type, `attribute '${attrName}'`, 'INVALID_ATTRIBUTE_VALUE');
+    this.addIssues(attrLocation, issues);
+
+    if (issues.length === 0) {
+      this.annotateAttribute(xmlNode, attrName, attrValue, xsdAttr);
     }
+  }
 
-    // Apply restrictions if any
-    if (xsdElement.restrictions) {
-      this.validateRestrictions(textContent, xsdElement.restrictions, line, column, xmlNode.name);
+  private annotateAttribute(xmlNode: XmlNode, attrName: string, attrValue: string, xsdAttr: XsdAttribute): void {
+    if (!this.options.annotate) {
+      return;
+    }
+    const typedValue = this.simpleTypeValidator.parse(attrValue, xsdAttr.simpleType ?? xsdAttr.type);
+    if (typedValue !== undefined) {
+      xmlNode.typedAttributes = { ...xmlNode.typedAttributes, [attrName]: typedValue };
     }
   }
 
-  private validateSimpleTypeContent(xmlNode: XmlNode, simpleType: XsdSimpleType, line: number, column: number): void {
-    const textContent = xmlNode.text || xmlNode.children.find(child => child.name === '#text')?.text || '';
-    
-    if (!this.validateSimpleValue(textContent, simpleType.baseType)) {
-      this.addError(line, column, `Invalid value '${textContent}' for base type '${simpleType.baseType}'`, 'INVALID_SIMPLE_TYPE_VALUE');
+  /**
+   * Attributes matched by xs:anyAttribute are validated against a global
+   * attribute declaration: strict requires one, lax uses one if present and
+   * skip accepts any value.
+   */
+  private validateWildcardAttribute(
+    xmlNode: XmlNode,
+    attrName: string,
+    attrValue: string,
+    namespace: string | undefined,
+    wildcard: XsdWildcard,
+    attrLocation: XmlLocation | undefined
+  ): void {
+    if (wildcard.processContents === 'skip') {
+      return;
     }
 
-    this.validateRestrictions(textContent, simpleType.restrictions, line, column, xmlNode.name);
+    const localName = attrName.substring(attrName.indexOf(':') + 1);
+    const declaration = this.schema.attributes[this.getComponentKey(namespace, localName)];
+    if (declaration) {
+      this.validateAttributeValue(xmlNode, attrName, attrValue, declaration, attrLocation);
+    } else if (wildcard.processContents === 'strict') {
+      this.addError(attrLocation, `Attribute '${attrName}' matched by a strict wildcard has no global declaration`, 'UNEXPECTED_ATTRIBUTE');
+    }
   }
 
-  private validateComplexContent(xmlNode: XmlNode, complexType: XsdComplexType, line: number, column: number): void {
-    // Validate child elements
-    const childElements = xmlNode.children.filter(child => child.name !== '#text');
-    
-    // Check required elements
-    for (const xsdElement of complexType.elements) {
-      const matchingChildren = childElements.filter(child => child.name === xsdElement.name);
-      
-      if (matchingChildren.length < xsdElement.minOccurs) {
-        this.addError(line, column, 
-          `Element '${xsdElement.name}' occurs ${matchingChildren.length} times but minimum is ${xsdElement.minOccurs}`, 
-          'MIN_OCCURS_VIOLATION');
-      }
-      
-      if (xsdElement.maxOccurs !== 'unbounded' && matchingChildren.length > xsdElement.maxOccurs) {
-        this.addError(line, column, 
-          `Element '${xsdElement.name}' occurs ${matchingChildren.length} times but maximum is ${xsdElement.maxOccurs}`, 
-          'MAX_OCCURS_VIOLATION');
-      }
+  private validateSimpleContent(xmlNode: XmlNode, xsdElement: XsdElement): void {
+    // Restrictions declared on the element itself act as an anonymous restriction of its type
+    const type = xsdElement.restrictions
+      ? { name: '', baseType: xsdElement.type, restrictions: xsdElement.restrictions }
+      : xsdElement.type;
+    this.validateSimpleValue(xmlNode, xsdElement, type, 'INVALID_ELEMENT_VALUE');
+  }
 
-      // Validate each occurrence
-      for (const childElement of matchingChildren) {
-        this.validateElement(childElement, xsdElement, line, column);
-      }
+  private validateSimpleTypeContent(xmlNode: XmlNode, simpleType: XsdSimpleType, xsdElement: XsdElement): void {
+    this.validateSimpleValue(xmlNode, xsdElement, simpleType, 'INVALID_SIMPLE_TYPE_VALUE');
+  }
+
+  /**
+   * Empty elements take the declaration's default or fixed value, which
+   * annotating validation also writes into the tree.
+   */
+  private validateSimpleValue(xmlNode: XmlNode, xsdElement: XsdElement, type: string | XsdSimpleType, invalidCode: string): void {
+    if (this.hasChildElements(xmlNode)) {
+      return;
+    }
+
+    const text = this.getTextContent(xmlNode);
+    const value = text === '' ? xsdElement.defaultValue ?? xsdElement.fixedValue ?? text : text;
+    if (xsdElement.fixedValue !== undefined && value !== xsdElement.fixedValue) {
+      this.addError(this.getTextLocation(xmlNode), `Element '${xmlNode.name}' must have value '${xsdElement.fixedValue}'`, 'FIXED_VALUE_VIOLATION');
     }
 
-    // Check for unexpected elements
-    for (const childElement of childElements) {
-      if (!complexType.elements.some(xsdEl => xsdEl.name === childElement.name)) {
-        this.addError(line, column, `Unexpected element '${childElement.name}'`, 'UNEXPECTED_ELEMENT');
+    const issues = this.simpleTypeValidator.validate(value, type, `element '${xmlNode.name}'`, invalidCode);
+    this.addIssues(this.getTextLocation(xmlNode), issues);
+
+    if (this.options.annotate && issues.length === 0) {
+      if (text === '' && value !== '') {
+        xmlNode.text = value;
       }
+      xmlNode.typedValue = this.simpleTypeValidator.parse(value, type);
     }
   }
 
-  private validateInlineContent(xmlNode: XmlNode, xsdElement: XsdElement, line: number, column: number): void {
-    // Handle inline content validation
-    if (xsdElement.restrictions) {
-      const textContent = xmlNode.text || xmlNode.children.find(child => child.name === '#text')?.text || '';
-      this.validateRestrictions(textContent, xsdElement.restrictions, line, column, xmlNode.name);
+  private hasChildElements(xmlNode: XmlNode): boolean {
+    if (xmlNode.children.some(isElementNode)) {
+      this.addError(xmlNode.location, `Element '${xmlNode.name}' should contain simple content but has child elements`, 'INVALID_CONTENT');
+      return true;
     }
+    return false;
   }
 
-  private validateRestrictions(value: string, restrictions: XsdRestriction[], line: number, column: number, elementName: string): void {
-    for (const restriction of restrictions) {
-      switch (restriction.type) {
-        case 'minLength':
-          if (value.length < Number(restriction.value)) {
-            this.addError(line, column, 
-              `Value '${value}' in element '${elementName}' is too short. Minimum length is ${restriction.value}`, 
-              'MIN_LENGTH_VIOLATION');
-          }
-          break;
-        case 'maxLength':
-          if (value.length > Number(restriction.value)) {
-            this.addError(line, column, 
-              `Value '${value}' in element '${elementName}' is too long. Maximum length is ${restriction.value}`, 
-              'MAX_LENGTH_VIOLATION');
-          }
-          break;
-        case 'pattern':
-          const regex = new RegExp(String(restriction.value));
-          if (!regex.test(value)) {
-            this.addError(line, column, 
-              `Value '${value}' in element '${elementName}' does not match pattern '${restriction.value}'`, 
-              'PATTERN_VIOLATION');
-          }
-          break;
-        case 'enumeration':
-          // Note: This would need to collect all enumeration values
-          break;
-        case 'minInclusive':
-          if (Number(value) < Number(restriction.value)) {
-            this.addError(line, column, 
-              `Value '${value}' in element '${elementName}' is below minimum ${restriction.value}`, 
-              'MIN_INCLUSIVE_VIOLATION');
-          }
-          break;
-        case 'maxInclusive':
-          if (Number(value) > Number(restriction.value)) {
-            this.addError(line, column, 
-              `Value '${value}' in element '${elementName}' is above maximum ${restriction.value}`, 
-              'MAX_INCLUSIVE_VIOLATION');
-          }
-          break;
+  private validateComplexContent(xmlNode: XmlNode, complexType: XsdComplexType): void {
+    const childElements = xmlNode.children.filter(isElementNode);
+
+    // Whitespace around child elements is allowed in element-only content
+    const hasText = Boolean(xmlNode.text?.trim()) ||
+      xmlNode.children.some(child => this.isCharacterData(child) && Boolean(child.text?.trim()));
+    if (hasText && !complexType.mixed) {
+      this.addError(this.getTextLocation(xmlNode), `Element '${xmlNode.name}' cannot contain text because its type is not mixed`, 'INVALID_CONTENT');
+    }
+    const content = complexType.content ?? EMPTY_CONTENT;
+    const match = this.contentMatcher.match(content, childElements);
+
+    if (!match.valid) {
+      this.reportContentError(xmlNode, complexType, content, childElements, match);
+    }
+
+    // Validate each child against its declaration, or the wildcard it falls under
+    childElements.forEach((childElement, index) => {
+      const namedElements = complexType.elements.filter(xsdEl => xsdEl.name === this.getLocalName(childElement));
+      const xsdElement = namedElements.find(xsdEl => this.matchesNamespace(childElement, childElement.namespace, xsdEl.namespace));
+      const wildcard = xsdElement ? undefined : this.findWildcard(content, childElement);
+
+      if (xsdElement) {
+        this.validateElement(childElement, xsdElement);
+      } else if (wildcard) {
+        this.validateWildcardElement(childElement, wildcard);
+      } else if (namedElements.length > 0) {
+        this.validateElement(childElement, namedElements[0]);
+      } else if (index !== match.failedAt) {
+        this.addError(childElement.location, `Unexpected element '${childElement.name}'`, 'UNEXPECTED_ELEMENT');
+      }
+    });
+  }
+
+  private findWildcard(particle: XsdParticle, child: XmlNode): XsdAny | undefined {
+    if ('processContents' in particle) {
+      return this.allowsNamespace(child, child.namespace, particle) ? particle : undefined;
+    }
+    if ('kind' in particle) {
+      for (const inner of particle.particles) {
+        const wildcard = this.findWildcard(inner, child);
+        if (wildcard) {
+          return wildcard;
+        }
       }
     }
+    return undefined;
   }
 
-  private validateSimpleValue(value: string, type: string): boolean {
-    switch (type) {
-      case 'string':
-        return true;
-      case 'int':
-      case 'integer':
-        return /^-?\d+$/.test(value);
-      case 'decimal':
-      case 'float':
-      case 'double':
-        return /^-?\d*\.?\d+$/.test(value);
-      case 'boolean':
-        return value === 'true' || value === 'false' || value === '1' || value === '0';
-      case 'date':
-        return /^\d{4}-\d{2}-\d{2}$/.test(value);
-      case 'dateTime':
-        return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/.test(value);
-      case 'time':
-        return /^\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/.test(value);
-      default:
-        return true; // Unknown types are assumed valid
+  /**
+   * Elements matched by xs:any are validated against a global element
+   * declaration: strict requires one, lax uses one if present and skip
+   * accepts the element and its subtree as they are.
+   */
+  private validateWildcardElement(childElement: XmlNode, wildcard: XsdWildcard): void {
+    if (wildcard.processContents === 'skip') {
+      return;
+    }
+
+    const declaration = this.schema.elements[this.getElementKey(childElement)];
+    if (declaration) {
+      this.validateElement(childElement, declaration);
+    } else if (wildcard.processContents === 'strict') {
+      this.addError(childElement.location, `Element '${childElement.name}' matched by a strict wildcard has no global declaration`, 'ELEMENT_NOT_FOUND');
+    }
+  }
+
+  private reportContentError(
+    xmlNode: XmlNode,
+    complexType: XsdComplexType,
+    content: XsdModelGroup,
+    childElements: XmlNode[],
+    match: ContentModelMatch
+  ): void {
+    const expected = match.expected.map(xsdEl => `'${xsdEl.name}'`).join(', ');
+
+    if (match.failedAt >= childElements.length) {
+      this.addError(xmlNode.location, `Element '${xmlNode.name}' is incomplete. Expected ${expected}`, 'MIN_OCCURS_VIOLATION');
+      return;
+    }
+
+    const childElement = childElements[match.failedAt];
+    const childName = this.getLocalName(childElement);
+    const xsdElement = complexType.elements.find(xsdEl => xsdEl.name === childName);
+
+    if (!xsdElement && !this.findWildcard(content, childElement)) {
+      this.addError(childElement.location, `Unexpected element '${childElement.name}'`, 'UNEXPECTED_ELEMENT');
+      return;
+    }
+
+    const conflict = this.contentMatcher.findChoiceConflict(content, childElements, match.failedAt);
+    if (conflict) {
+      this.addError(childElement.location,
+        `Element '${childElement.name}' cannot appear together with '${conflict.name}' because they are alternatives of a choice`,
+        'CHOICE_VIOLATION');
+      return;
+    }
+
+    let occurrences = 1;
+    while (occurrences <= match.failedAt && this.getLocalName(childElements[match.failedAt - occurrences]) === childName) {
+      occurrences++;
     }
+
+    const maxOccurs = xsdElement ? this.contentMatcher.maxOccurrences(content, xsdElement) ?? xsdElement.maxOccurs : 'unbounded';
+    if (occurrences > 1 && maxOccurs !== 'unbounded' && occurrences > maxOccurs) {
+      this.addError(childElement.location,
+        `Element '${childName}' occurs ${occurrences} times but maximum is ${maxOccurs}`,
+        'MAX_OCCURS_VIOLATION');
+      return;
+    }
+
+    this.addError(childElement.location,
+      expected
+        ? `Element '${childElement.name}' is not expected at this position. Expected ${expected}`
+        : `Element '${childElement.name}' is not expected at this position`,
+      'UNEXPECTED_ELEMENT_ORDER');
   }
 
   private isBuiltInType(type: string): boolean {
-    const builtInTypes = [
-      'string', 'int', 'integer', 'decimal', 'float', 'double', 'boolean',
-      'date', 'dateTime', 'time', 'base64Binary', 'hexBinary'
-    ];
-    return builtInTypes.includes(type);
+    return this.datatypes.isBuiltInType(type);
+  }
+
+  private getLocalName(xmlNode: XmlNode): string {
+    return xmlNode.localName ?? xmlNode.name;
   }
 
-  private addError(line: number, column: number, message: string, code: string): void {
+  private getElementKey(xmlNode: XmlNode): string {
+    return xmlNode.localName === undefined ? xmlNode.name : this.getComponentKey(xmlNode.namespace, xmlNode.localName);
+  }
+
+  /**
+   * Global components of the schema's own namespace are keyed by local name,
+   * those of other namespaces by expanded name.
+   */
+  private getComponentKey(namespace: string | undefined, localName: string): string {
+    return namespace === this.schema.targetNamespace ? localName : `{${namespace ?? ''}}${localName}`;
+  }
+
+  /**
+   * Wildcard namespace constraints can only be checked on namespace-aware
+   * trees; other trees accept any name.
+   */
+  private allowsNamespace(xmlNode: XmlNode, namespace: string | undefined, wildcard: XsdWildcard): boolean {
+    if (xmlNode.localName === undefined || wildcard.namespaceMode === 'any') {
+      return true;
+    }
+    const listed = wildcard.namespaces.includes(namespace);
+    return wildcard.namespaceMode === 'list' ? listed : !listed;
+  }
+
+  private findAttribute(xmlNode: XmlNode, xsdAttr: XsdAttribute): string | undefined {
+    return Object.keys(xmlNode.attributes).find(attrName => {
+      const attrQName = xmlNode.attributeNames?.[attrName];
+      return (attrQName?.localName ?? attrName) === xsdAttr.name &&
+        this.matchesNamespace(xmlNode, attrQName?.namespace, xsdAttr.namespace);
+    });
+  }
+
+  private findXsiAttribute(xmlNode: XmlNode, localName: string): { name: string; value: string } | undefined {
+    const name = Object.keys(xmlNode.attributes).find(attrName =>
+      this.isXsiAttribute(xmlNode, attrName) && (xmlNode.attributeNames?.[attrName]?.localName ?? attrName.substring(4)) === localName);
+    return name === undefined ? undefined : { name, value: xmlNode.attributes[name].trim() };
+  }
+
+  private isNamespaceDeclaration(xmlNode: XmlNode, attrName: string): boolean {
+    const attrQName = xmlNode.attributeNames?.[attrName];
+    return attrQName ? attrQName.namespace === XMLNS_NAMESPACE : attrName === 'xmlns' || attrName.startsWith('xmlns:');
+  }
+
+  /**
+   * Trees parsed without namespace support can only recognize the
+   * conventional xsi prefix.
+   */
+  private isXsiAttribute(xmlNode: XmlNode, attrName: string): boolean {
+    const attrQName = xmlNode.attributeNames?.[attrName];
+    return attrQName ? attrQName.namespace === XSI_NAMESPACE : attrName.startsWith('xsi:');
+  }
+
+  /**
+   * Namespaces can only be compared on trees produced by a namespace-aware
+   * parse; other trees are matched by name alone.
+   */
+  private matchesNamespace(xmlNode: XmlNode, actual: string | undefined, expected: string | undefined): boolean {
+    return xmlNode.localName === undefined || actual === expected;
+  }
+
+  private describeNamespace(namespace: string | undefined): string {
+    return namespace ? `namespace '${namespace}'` : 'no namespace';
+  }
+
+  private getTextContent(xmlNode: XmlNode): string {
+    return xmlNode.text || xmlNode.children.find(child => this.isCharacterData(child))?.text || '';
+  }
+
+  private isCharacterData(xmlNode: XmlNode): boolean {
+    return xmlNode.name === '#text' || xmlNode.name === '#cdata-section';
+  }
+
+  private getTextLocation(xmlNode: XmlNode): XmlLocation | undefined {
+    return xmlNode.textLocation ??
+      xmlNode.children.find(child => this.isCharacterData(child))?.location ??
+      xmlNode.location;
+  }
+
+  private addError(location: XmlLocation | undefined, message: string, code: string): void {
+    const line = location ? location.start.line : 1;
+    const column = location ? location.start.column : 1;
     this.errors.push({ line, column, message, code });
   }
+
+  private addIssues(location: XmlLocation | undefined, issues: SimpleValueIssue[]): void {
+    issues.forEach(issue => this.addError(location, issue.message, issue.code));
+  }
 }
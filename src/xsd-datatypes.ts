@@ -0,0 +1,433 @@
+import { XsdDuration, XsdTypedValue, XsdWhiteSpace } from './types';
+
+interface BuiltInType {
+  base: string;
+  whiteSpace: XsdWhiteSpace;
+  itemType?: string;
+}
+
+const BUILT_IN_TYPES: Record<string, BuiltInType> = {
+  anyType: { base: 'anyType', whiteSpace: 'preserve' },
+  anySimpleType: { base: 'anyType', whiteSpace: 'preserve' },
+
+  // Primitive types
+  string: { base: 'anySimpleType', whiteSpace: 'preserve' },
+  boolean: { base: 'anySimpleType', whiteSpace: 'collapse' },
+  decimal: { base: 'anySimpleType', whiteSpace: 'collapse' },
+  float: { base: 'anySimpleType', whiteSpace: 'collapse' },
+  double: { base: 'anySimpleType', whiteSpace: 'collapse' },
+  duration: { base: 'anySimpleType', whiteSpace: 'collapse' },
+  dateTime: { base: 'anySimpleType', whiteSpace: 'collapse' },
+  time: { base: 'anySimpleType', whiteSpace: 'collapse' },
+  date: { base: 'anySimpleType', whiteSpace: 'collapse' },
+  gYearMonth: { base: 'anySimpleType', whiteSpace: 'collapse' },
+  gYear: { base: 'anySimpleType', whiteSpace: 'collapse' },
+  gMonthDay: { base: 'anySimpleType', whiteSpace: 'collapse' },
+  gDay: { base: 'anySimpleType', whiteSpace: 'collapse' },
+  gMonth: { base: 'anySimpleType', whiteSpace: 'collapse' },
+  hexBinary: { base: 'anySimpleType', whiteSpace: 'collapse' },
+  base64Binary: { base: 'anySimpleType', whiteSpace: 'collapse' },
+  anyURI: { base: 'anySimpleType', whiteSpace: 'collapse' },
+  QName: { base: 'anySimpleType', whiteSpace: 'collapse' },
+  NOTATION: { base: 'anySimpleType', whiteSpace: 'collapse' },
+
+  // Types derived from string
+  normalizedString: { base: 'string', whiteSpace: 'replace' },
+  token: { base: 'normalizedString', whiteSpace: 'collapse' },
+  language: { base: 'token', whiteSpace: 'collapse' },
+  NMTOKEN: { base: 'token', whiteSpace: 'collapse' },
+  NMTOKENS: { base: 'anySimpleType', whiteSpace: 'collapse', itemType: 'NMTOKEN' },
+  Name: { base: 'token', whiteSpace: 'collapse' },
+  NCName: { base: 'Name', whiteSpace: 'collapse' },
+  ID: { base: 'NCName', whiteSpace: 'collapse' },
+  IDREF: { base: 'NCName', whiteSpace: 'collapse' },
+  IDREFS: { base: 'anySimpleType', whiteSpace: 'collapse', itemType: 'IDREF' },
+  ENTITY: { base: 'NCName', whiteSpace: 'collapse' },
+  ENTITIES: { base: 'anySimpleType', whiteSpace: 'collapse', itemType: 'ENTITY' },
+
+  // Types derived from decimal
+  integer: { base: 'decimal', whiteSpace: 'collapse' },
+  nonPositiveInteger: { base: 'integer', whiteSpace: 'collapse' },
+  negativeInteger: { base: 'nonPositiveInteger', whiteSpace: 'collapse' },
+  long: { base: 'integer', whiteSpace: 'collapse' },
+  int: { base: 'long', whiteSpace: 'collapse' },
+  short: { base: 'int', whiteSpace: 'collapse' },
+  byte: { base: 'short', whiteSpace: 'collapse' },
+  nonNegativeInteger: { base: 'integer', whiteSpace: 'collapse' },
+  unsignedLong: { base: 'nonNegativeInteger', whiteSpace: 'collapse' },
+  unsignedInt: { base: 'unsignedLong', whiteSpace: 'collapse' },
+  unsignedShort: { base: 'unsignedInt', whiteSpace: 'collapse' },
+  unsignedByte: { base: 'unsignedShort', whiteSpace: 'collapse' },
+  positiveInteger: { base: 'nonNegativeInteger', whiteSpace: 'collapse' }
+};
+
+export const XSD_BUILT_IN_TYPES = Object.keys(BUILT_IN_TYPES);
+
+const INTEGER_RANGES: Record<string, [bigint | null, bigint | null]> = {
+  integer: [null, null],
+  nonPositiveInteger: [null, BigInt(0)],
+  negativeInteger: [null, BigInt(-1)],
+  long: [BigInt('-9223372036854775808'), BigInt('9223372036854775807')],
+  int: [BigInt(-2147483648), BigInt(2147483647)],
+  short: [BigInt(-32768), BigInt(32767)],
+  byte: [BigInt(-128), BigInt(127)],
+  nonNegativeInteger: [BigInt(0), null],
+  unsignedLong: [BigInt(0), BigInt('18446744073709551615')],
+  unsignedInt: [BigInt(0), BigInt(4294967295)],
+  unsignedShort: [BigInt(0), BigInt(65535)],
+  unsignedByte: [BigInt(0), BigInt(255)],
+  positiveInteger: [BigInt(1), null]
+};
+
+export const NAME_START_CHARS = 'A-Z_a-z\\u00C0-\\u00D6\\u00D8-\\u00F6\\u00F8-\\u02FF\\u0370-\\u037D\\u037F-\\u1FFF' +
+  '\\u200C-\\u200D\\u2070-\\u218F\\u2C00-\\u2FEF\\u3001-\\uD7FF\\uF900-\\uFDCF\\uFDF0-\\uFFFD';
+export const NAME_CHARS = NAME_START_CHARS + '\\-.0-9\\u00B7\\u0300-\\u036F\\u203F-\\u2040';
+
+const NCNAME_PATTERN = new RegExp(`^[${NAME_START_CHARS}][${NAME_CHARS}]*$`);
+const NAME_PATTERN = new RegExp(`^[:${NAME_START_CHARS}][:${NAME_CHARS}]*$`);
+const NMTOKEN_PATTERN = new RegExp(`^[:${NAME_CHARS}]+$`);
+const LANGUAGE_PATTERN = /^[a-zA-Z]{1,8}(-[a-zA-Z0-9]{1,8})*$/;
+const DECIMAL_PATTERN = /^[+-]?(\d+(\.\d*)?|\.\d+)$/;
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+const FLOAT_PATTERN = /^([+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?|-?INF|NaN)$/;
+const DURATION_PATTERN = /^(-)?P(?=\d|T\d)(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)D)?(?:T(?=\d)(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/;
+const YEAR = '(-?(?:[1-9]\\d{4,}|\\d{4}))';
+const TIMEZONE = '(Z|[+-]\\d{2}:\\d{2})?';
+const TIME = '(\\d{2}):(\\d{2}):(\\d{2}(?:\\.\\d+)?)';
+const DATE_TIME_PATTERN = new RegExp(`^${YEAR}-(\\d{2})-(\\d{2})T${TIME}${TIMEZONE}$`);
+const DATE_PATTERN = new RegExp(`^${YEAR}-(\\d{2})-(\\d{2})${TIMEZONE}$`);
+const TIME_PATTERN = new RegExp(`^${TIME}${TIMEZONE}$`);
+const G_YEAR_MONTH_PATTERN = new RegExp(`^${YEAR}-(\\d{2})${TIMEZONE}$`);
+const G_YEAR_PATTERN = new RegExp(`^${YEAR}${TIMEZONE}$`);
+const G_MONTH_DAY_PATTERN = new RegExp(`^--(\\d{2})-(\\d{2})${TIMEZONE}$`);
+const G_DAY_PATTERN = new RegExp(`^---(\\d{2})${TIMEZONE}$`);
+const G_MONTH_PATTERN = new RegExp(`^--(\\d{2})${TIMEZONE}$`);
+const HEX_BINARY_PATTERN = /^([0-9a-fA-F]{2})*$/;
+const BASE64_PATTERN = /^([A-Za-z0-9+/]{4})*([A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const FLOAT_MAX = 3.4028234663852886e38;
+
+/**
+ * The XML Schema 1.0 built-in datatypes: lexical checks, value ranges and
+ * conversion of lexical values into typed JavaScript values.
+ */
+export class XsdDatatypes {
+  isBuiltInType(type: string): boolean {
+    return Object.prototype.hasOwnProperty.call(BUILT_IN_TYPES, type);
+  }
+
+  /**
+   * Returns the type a built-in type is derived from, or undefined for
+   * anyType and names that are not built-in types.
+   */
+  getBaseType(type: string): string | undefined {
+    return this.isBuiltInType(type) && type !== 'anyType' ? BUILT_IN_TYPES[type].base : undefined;
+  }
+
+  /**
+   * Checks whether one built-in type is the same as or derived from another.
+   */
+  isDerivedFrom(type: string, ancestor: string): boolean {
+    for (let current: string | undefined = type; current; current = this.getBaseType(current)) {
+      if (current === ancestor) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  getWhiteSpace(type: string): XsdWhiteSpace {
+    return this.isBuiltInType(type) ? BUILT_IN_TYPES[type].whiteSpace : 'preserve';
+  }
+
+  normalizeWhiteSpace(value: string, mode: XsdWhiteSpace): string {
+    if (mode === 'preserve') {
+      return value;
+    }
+    const replaced = value.replace(/[\t\n\r]/g, ' ');
+    return mode === 'collapse' ? replaced.replace(/ +/g, ' ').trim() : replaced;
+  }
+
+  /**
+   * Checks a lexical value against a built-in type. Names that are not
+   * built-in types are accepted.
+   */
+  validate(value: string, type: string): boolean {
+    return !this.isBuiltInType(type) || this.parse(value, type) !== undefined;
+  }
+
+  /**
+   * Converts a lexical value into its typed value: numbers (bigint for
+   * integers beyond the safe range), booleans, Dates, byte arrays, durations
+   * or arrays for list types. Other types yield the whitespace-normalized
+   * string. Returns undefined when the value is not valid for the type.
+   */
+  parse(value: string, type: string): XsdTypedValue | undefined {
+    if (!this.isBuiltInType(type)) {
+      return undefined;
+    }
+
+    const normalized = this.normalizeWhiteSpace(value, this.getWhiteSpace(type));
+    const itemType = BUILT_IN_TYPES[type].itemType;
+    if (itemType) {
+      const items = normalized === '' ? [] : normalized.split(' ');
+      return items.length > 0 && items.every(item => this.validate(item, itemType)) ? items : undefined;
+    }
+
+    if (type in INTEGER_RANGES) {
+      return this.parseInteger(normalized, type);
+    }
+
+    switch (type) {
+      case 'anyType':
+      case 'anySimpleType':
+      case 'string':
+      case 'normalizedString':
+      case 'token':
+        return normalized;
+      case 'language':
+        return LANGUAGE_PATTERN.test(normalized) ? normalized : undefined;
+      case 'Name':
+        return NAME_PATTERN.test(normalized) ? normalized : undefined;
+      case 'NCName':
+      case 'ID':
+      case 'IDREF':
+      case 'ENTITY':
+        return NCNAME_PATTERN.test(normalized) ? normalized : undefined;
+      case 'NMTOKEN':
+        return NMTOKEN_PATTERN.test(normalized) ? normalized : undefined;
+      case 'QName':
+      case 'NOTATION':
+        return this.isQName(normalized) ? normalized : undefined;
+      case 'boolean':
+        if (normalized === 'true' || normalized === '1') return true;
+        if (normalized === 'false' || normalized === '0') return false;
+        return undefined;
+      case 'decimal':
+        return DECIMAL_PATTERN.test(normalized) ? Number(normalized) : undefined;
+      case 'float':
+      case 'double':
+        return this.parseFloatingPoint(normalized, type);
+      case 'duration':
+        return this.parseDuration(normalized);
+      case 'dateTime':
+        return this.parseDateTime(DATE_TIME_PATTERN.exec(normalized));
+      case 'date':
+        return this.parseDate(DATE_PATTERN.exec(normalized));
+      case 'time':
+        return this.isValidTime(TIME_PATTERN.exec(normalized)) ? normalized : undefined;
+      case 'gYearMonth':
+        return this.isValidGregorian(G_YEAR_MONTH_PATTERN.exec(normalized), [2], []) ? normalized : undefined;
+      case 'gYear':
+        return this.isValidGregorian(G_YEAR_PATTERN.exec(normalized), [], []) ? normalized : undefined;
+      case 'gMonthDay':
+        return this.isValidMonthDay(G_MONTH_DAY_PATTERN.exec(normalized)) ? normalized : undefined;
+      case 'gDay':
+        return this.isValidGregorian(G_DAY_PATTERN.exec(normalized), [], [1]) ? normalized : undefined;
+      case 'gMonth':
+        return this.isValidGregorian(G_MONTH_PATTERN.exec(normalized), [1], []) ? normalized : undefined;
+      case 'hexBinary':
+        return HEX_BINARY_PATTERN.test(normalized) ? this.decodeHex(normalized) : undefined;
+      case 'base64Binary':
+        return this.decodeBase64(normalized.replace(/ /g, ''));
+      case 'anyURI':
+        return this.isAnyUri(normalized) ? normalized : undefined;
+      default:
+        return normalized;
+    }
+  }
+
+  /**
+   * Orders two typed values of the same type. Returns undefined when the
+   * values cannot be ordered, e.g. strings or values of different kinds.
+   */
+  compare(a: XsdTypedValue, b: XsdTypedValue): number | undefined {
+    if ((typeof a === 'number' || typeof a === 'bigint') && (typeof b === 'number' || typeof b === 'bigint')) {
+      if (typeof a === 'bigint' || typeof b === 'bigint') {
+        if (typeof a === 'number' && !Number.isInteger(a) || typeof b === 'number' && !Number.isInteger(b)) {
+          return Math.sign(Number(a) - Number(b));
+        }
+        const difference = BigInt(a) - BigInt(b);
+        return difference === BigInt(0) ? 0 : difference > BigInt(0) ? 1 : -1;
+      }
+      if (isNaN(a) || isNaN(b)) {
+        return undefined;
+      }
+      return a === b ? 0 : a > b ? 1 : -1;
+    }
+    if (a instanceof Date && b instanceof Date) {
+      return Math.sign(a.getTime() - b.getTime());
+    }
+    return undefined;
+  }
+
+  private parseInteger(value: string, type: string): number | bigint | undefined {
+    if (!INTEGER_PATTERN.test(value)) {
+      return undefined;
+    }
+
+    const integer = BigInt(value.replace(/^\+/, ''));
+    const [min, max] = INTEGER_RANGES[type];
+    if ((min !== null && integer < min) || (max !== null && integer > max)) {
+      return undefined;
+    }
+
+    const asNumber = Number(integer);
+    return Number.isSafeInteger(asNumber) ? asNumber : integer;
+  }
+
+  private parseFloatingPoint(value: string, type: string): number | undefined {
+    if (!FLOAT_PATTERN.test(value)) {
+      return undefined;
+    }
+    if (value === 'INF') return Infinity;
+    if (value === '-INF') return -Infinity;
+    if (value === 'NaN') return NaN;
+
+    const number = Number(value);
+    if (!isFinite(number) || (type === 'float' && Math.abs(number) > FLOAT_MAX)) {
+      return undefined;
+    }
+    return number;
+  }
+
+  private parseDuration(value: string): XsdDuration | undefined {
+    const match = DURATION_PATTERN.exec(value);
+    if (!match) {
+      return undefined;
+    }
+    return {
+      negative: match[1] === '-',
+      years: Number(match[2] ?? 0),
+      months: Number(match[3] ?? 0),
+      days: Number(match[4] ?? 0),
+      hours: Number(match[5] ?? 0),
+      minutes: Number(match[6] ?? 0),
+      seconds: Number(match[7] ?? 0)
+    };
+  }
+
+  private parseDateTime(match: RegExpExecArray | null): Date | undefined {
+    if (!match) {
+      return undefined;
+    }
+    const [, year, month, day, hour, minute, second, timezone] = match;
+    if (!this.isValidDate(Number(year), Number(month), Number(day)) || !this.isValidTime([match[0], hour, minute, second, timezone])) {
+      return undefined;
+    }
+    return this.toDate(Number(year), Number(month), Number(day), Number(hour), Number(minute), Number(second), timezone);
+  }
+
+  private parseDate(match: RegExpExecArray | null): Date | undefined {
+    if (!match) {
+      return undefined;
+    }
+    const [, year, month, day, timezone] = match;
+    if (!this.isValidDate(Number(year), Number(month), Number(day)) || !this.isValidTimezone(timezone)) {
+      return undefined;
+    }
+    return this.toDate(Number(year), Number(month), Number(day), 0, 0, 0, timezone);
+  }
+
+  /**
+   * Values without a timezone are taken as UTC so the same lexical value
+   * always yields the same Date.
+   */
+  private toDate(year: number, month: number, day: number, hour: number, minute: number, second: number, timezone?: string): Date {
+    const date = new Date(Date.UTC(2000, month - 1, day, hour, minute, Math.floor(second), Math.round((second % 1) * 1000)));
+    date.setUTCFullYear(year + date.getUTCFullYear() - 2000);
+
+    if (timezone && timezone !== 'Z') {
+      const sign = timezone[0] === '-' ? -1 : 1;
+      const offsetMinutes = Number(timezone.substring(1, 3)) * 60 + Number(timezone.substring(4, 6));
+      date.setTime(date.getTime() - sign * offsetMinutes * 60000);
+    }
+    return date;
+  }
+
+  private isValidTime(match: ArrayLike<string | undefined> | null): boolean {
+    if (!match) {
+      return false;
+    }
+    const hour = Number(match[1]);
+    const minute = Number(match[2]);
+    const second = Number(match[3]);
+    // 24:00:00 is the only allowed time with hour 24
+    const isEndOfDay = hour === 24 && minute === 0 && second === 0;
+    return (hour < 24 || isEndOfDay) && minute < 60 && second < 60 && this.isValidTimezone(match[4]);
+  }
+
+  private isValidGregorian(match: RegExpExecArray | null, monthGroups: number[], dayGroups: number[]): boolean {
+    if (!match) {
+      return false;
+    }
+    const monthsValid = monthGroups.every(group => Number(match[group]) >= 1 && Number(match[group]) <= 12);
+    const daysValid = dayGroups.every(group => Number(match[group]) >= 1 && Number(match[group]) <= 31);
+    return monthsValid && daysValid && this.isValidTimezone(match[match.length - 1]);
+  }
+
+  private isValidMonthDay(match: RegExpExecArray | null): boolean {
+    if (!match) {
+      return false;
+    }
+    // February 29 is allowed since the year is unknown
+    return this.isValidDate(2000, Number(match[1]), Number(match[2])) && this.isValidTimezone(match[3]);
+  }
+
+  private isValidDate(year: number, month: number, day: number): boolean {
+    if (year === 0 || month < 1 || month > 12 || day < 1) {
+      return false;
+    }
+    const isLeapYear = (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+    const daysInMonth = [31, isLeapYear ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31][month - 1];
+    return day <= daysInMonth;
+  }
+
+  private isValidTimezone(timezone: string | undefined): boolean {
+    if (!timezone || timezone === 'Z') {
+      return true;
+    }
+    const hours = Number(timezone.substring(1, 3));
+    const minutes = Number(timezone.substring(4, 6));
+    return minutes < 60 && (hours < 14 || (hours === 14 && minutes === 0));
+  }
+
+  private isQName(value: string): boolean {
+    const parts = value.split(':');
+    return parts.length <= 2 && parts.every(part => NCNAME_PATTERN.test(part));
+  }
+
+  private isAnyUri(value: string): boolean {
+    return !/[\s<>"{}|\\^`]/.test(value) && !/%(?![0-9a-fA-F]{2})/.test(value);
+  }
+
+  private decodeHex(value: string): Uint8Array {
+    const bytes = new Uint8Array(value.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(value.substring(i * 2, i * 2 + 2), 16);
+    }
+    return bytes;
+  }
+
+  private decodeBase64(value: string): Uint8Array | undefined {
+    if (!BASE64_PATTERN.test(value)) {
+      return undefined;
+    }
+
+    const padding = value.endsWith('==') ? 2 : value.endsWith('=') ? 1 : 0;
+    const bytes = new Uint8Array((value.length / 4) * 3 - padding);
+    let byteIndex = 0;
+
+    for (let i = 0; i < value.length; i += 4) {
+      const chunk = [0, 1, 2, 3].map(offset => Math.max(BASE64_ALPHABET.indexOf(value[i + offset]), 0));
+      const bits = (chunk[0] << 18) | (chunk[1] << 12) | (chunk[2] << 6) | chunk[3];
+      for (const shift of [16, 8, 0]) {
+        if (byteIndex < bytes.length) {
+          bytes[byteIndex++] = (bits >> shift) & 0xff;
+        }
+      }
+    }
+
+    return bytes;
+  }
+}
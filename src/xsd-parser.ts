@@ -1,40 +1,160 @@
-import { XsdSchema, XsdElement, XsdAttribute, XsdComplexType, XsdSimpleType, XsdRestriction, ValidationError, XmlNode } from './types';
+import { XsdSchema, XsdElement, XsdAttribute, XsdComplexType, XsdSimpleType, XsdRestriction, XsdModelGroup, XsdParticle, XsdFacet, XsdForm, XsdDerivation, XsdSchemaDocument, XsdSchemaResolver, XsdGroup, XsdAttributeGroup, XsdIdentityConstraint, XsdWildcard, XsdAny, ValidationError, XmlNode, XmlLocation, XmlName } from './types';
 import { XmlParser } from './xml-parser';
+import { XSD_BUILT_IN_TYPES } from './xsd-datatypes';
+import { RestrictedXPath } from './restricted-xpath';
+import { compileXsdPattern } from './xsd-pattern';
+
+export const XSD_NAMESPACE = 'http://www.w3.org/2001/XMLSchema';
+
+const NON_NEGATIVE_FACETS: XsdFacet[] = ['length', 'minLength', 'maxLength', 'totalDigits', 'fractionDigits'];
+const RANGE_FACETS: XsdFacet[] = ['minInclusive', 'maxInclusive', 'minExclusive', 'maxExclusive'];
+
+interface TypeReference {
+  key: string;
+  qname: string;
+  location?: XmlLocation;
+  source?: string;
+}
+
+type ComponentKind = 'element' | 'attribute' | 'group' | 'attributeGroup' | 'identityConstraint';
+
+const COMPONENT_LABELS: Record<ComponentKind, string> = {
+  element: 'Element',
+  attribute: 'Attribute',
+  group: 'Group',
+  attributeGroup: 'Attribute group',
+  identityConstraint: 'Identity constraint'
+};
+
+/** A ref="..." to a global component, resolved once every document is read */
+interface ComponentReference {
+  kind: ComponentKind;
+  key: string;
+  qname: string;
+  location?: XmlLocation;
+  source?: string;
+}
+
+/** Settings that belong to the schema document currently being read */
+interface DocumentState {
+  targetNamespace?: string;
+  elementFormDefault: XsdForm;
+  attributeFormDefault: XsdForm;
+  importedNamespaces: Set<string | undefined>;
+  chameleon: boolean;
+  source?: string;
+}
 
 export class XsdParser {
-  private xmlParser = new XmlParser();
+  private xmlParser = new XmlParser({ namespaceAware: true });
+  private homeNamespace?: string;
+  private targetNamespace?: string;
+  private elementFormDefault: XsdForm = 'unqualified';
+  private attributeFormDefault: XsdForm = 'unqualified';
+  private importedNamespaces = new Set<string | undefined>();
+  private chameleon = false;
+  private source?: string;
+  private resolver?: XsdSchemaResolver;
+  private loadedLocations = new Set<string>();
+  private redefinitions = new Map<string, string>();
+  /** Group and attribute group redefinitions being parsed, as 'kind key' to the key of the original */
+  private componentRedefinitions = new Map<string, string>();
+  private typeReferences: TypeReference[] = [];
+  private componentReferences: Array<{ reference: ComponentReference; resolve: (schema: XsdSchema) => boolean }> = [];
+  private attributeGroupReferences = new Map<XsdAttribute[], ComponentReference[]>();
+  private groupElementLists: Array<{ group: XsdModelGroup; elements: XsdElement[] }> = [];
+  /** The reference each group reference particle was parsed from */
+  private groupReferences = new Map<XsdModelGroup, ComponentReference>();
+  /** Particles of the groups already reported as part of a cycle */
+  private circularGroups = new Set<XsdParticle[]>();
+  private identityConstraints: Record<string, XsdIdentityConstraint> = {};
+  private derivedComplexTypes = new Map<XsdComplexType, XmlLocation | undefined>();
+  private errors: ValidationError[] = [];
 
-  parseSchema(xsdString: string): { schema: XsdSchema | null; errors: ValidationError[] } {
-    const { node, errors } = this.xmlParser.parse(xsdString);
-    
-    if (errors.length > 0 || !node) {
-      return { schema: null, errors };
-    }
+  /**
+   * Parses a single schema document. Its include, import and redefine
+   * directives are loaded through the resolver when one is given.
+   */
+  parseSchema(xsdString: string, resolver?: XsdSchemaResolver): { schema: XsdSchema | null; errors: ValidationError[] } {
+    return this.parseSchemaSet([{ content: xsdString }], resolver);
+  }
+
+  /**
+   * Parses several schema documents into one schema. The first document
+   * determines the target namespace the schema is keyed by; components of
+   * other namespaces are stored under their expanded name, e.g. {ns}local.
+   */
+  parseSchemaSet(documents: XsdSchemaDocument[], resolver?: XsdSchemaResolver): { schema: XsdSchema | null; errors: ValidationError[] } {
+    this.resolver = resolver;
+    this.loadedLocations = new Set(documents.map(document => document.location).filter((location): location is string => !!location));
+    this.redefinitions = new Map();
+    this.componentRedefinitions = new Map();
+    this.typeReferences = [];
+    this.componentReferences = [];
+    this.attributeGroupReferences = new Map();
+    this.groupElementLists = [];
+    this.groupReferences = new Map();
+    this.circularGroups = new Set();
+    this.identityConstraints = {};
+    this.derivedComplexTypes = new Map();
+    this.errors = [];
+
+    let schema: XsdSchema | null = null;
 
     try {
-      const schema = this.buildSchema(node);
-      return { schema, errors: [] };
+      for (const document of documents) {
+        const node = this.parseDocument(document.content, document.location);
+        if (!node) {
+          continue;
+        }
+
+        if (!schema) {
+          schema = this.createSchema(node);
+        }
+        this.readSchemaDocument(node, schema, document.location);
+      }
+
+      if (!schema) {
+        return { schema: null, errors: this.errors };
+      }
+
+      this.checkTypeReferences(schema);
+      this.resolveComponentReferences(schema);
+      this.checkSimpleTypeDerivations(schema);
+      this.resolveComplexTypeDerivations(schema);
+      return this.errors.length > 0 ? { schema: null, errors: this.errors } : { schema, errors: [] };
     } catch (error) {
-      errors.push({
+      this.errors.push({
         line: 1,
         column: 1,
         message: error instanceof Error ? error.message : 'Schema parsing error',
-        code: 'SCHEMA_ERROR'
+        code: 'SCHEMA_ERROR',
+        source: this.source
       });
-      return { schema: null, errors };
+      return { schema: null, errors: this.errors };
     }
   }
 
-  private buildSchema(schemaNode: XmlNode): XsdSchema {
-    if (schemaNode.name !== 'schema' && !schemaNode.name.endsWith(':schema')) {
-      throw new Error('Root element must be schema');
-    }
+  private parseDocument(content: string, location: string | undefined): XmlNode | null {
+    const { node, errors } = this.xmlParser.parse(content);
+    this.errors.push(...errors.map(error => location ? { ...error, source: location } : error));
+    return errors.length > 0 ? null : node;
+  }
+
+  private createSchema(schemaNode: XmlNode): XsdSchema {
+    this.homeNamespace = schemaNode.attributes.targetNamespace || undefined;
 
     const schema: XsdSchema = {
-      targetNamespace: schemaNode.attributes.targetNamespace,
+      targetNamespace: this.homeNamespace,
+      elementFormDefault: this.parseForm(schemaNode.attributes.elementFormDefault),
+      attributeFormDefault: this.parseForm(schemaNode.attributes.attributeFormDefault),
       elements: {},
+      attributes: {},
       complexTypes: {},
       simpleTypes: {},
+      groups: {},
+      attributeGroups: {},
+      identityConstraints: this.identityConstraints,
       namespaces: {}
     };
 
@@ -48,54 +168,491 @@ export class XsdParser {
       }
     }
 
+    return schema;
+  }
+
+  /**
+   * Reads the components of one schema document into the schema. A document
+   * without a target namespace that is included from a namespaced one takes
+   * on the including document's namespace ("chameleon" include).
+   */
+  private readSchemaDocument(schemaNode: XmlNode, schema: XsdSchema, source: string | undefined, chameleonNamespace?: string): void {
+    if (schemaNode.name !== 'schema' && !schemaNode.name.endsWith(':schema')) {
+      throw new Error('Root element must be schema');
+    }
+
+    const outerState = this.saveDocumentState();
+    const ownNamespace = schemaNode.attributes.targetNamespace || undefined;
+    this.targetNamespace = ownNamespace ?? chameleonNamespace;
+    this.chameleon = ownNamespace === undefined && chameleonNamespace !== undefined;
+    this.elementFormDefault = this.parseForm(schemaNode.attributes.elementFormDefault);
+    this.attributeFormDefault = this.parseForm(schemaNode.attributes.attributeFormDefault);
+    this.importedNamespaces = new Set();
+    this.source = source;
+
     // Parse child elements
     for (const child of schemaNode.children) {
       const localName = this.getLocalName(child.name);
       
       switch (localName) {
+        case 'include':
+          this.readInclude(child, schema);
+          break;
+        case 'import':
+          this.readImport(child, schema);
+          break;
+        case 'redefine':
+          this.readRedefine(child, schema);
+          break;
         case 'element':
-          const element = this.parseElement(child);
-          schema.elements[element.name] = element;
+          const element = this.parseElement(child, true);
+          this.addComponent(schema.elements, this.elementKey(this.targetNamespace, element.name), element, child, 'Element');
+          break;
+        case 'attribute':
+          const attribute = this.parseAttribute(child, true);
+          this.addComponent(schema.attributes, this.elementKey(this.targetNamespace, attribute.name), attribute, child, 'Attribute');
+          break;
+        case 'group':
+          const group = this.parseGroup(child);
+          this.addComponent(schema.groups, this.elementKey(this.targetNamespace, group.name), group, child, 'Group');
+          break;
+        case 'attributeGroup':
+          const attributeGroup = this.parseAttributeGroup(child);
+          this.addComponent(schema.attributeGroups, this.elementKey(this.targetNamespace, attributeGroup.name), attributeGroup, child, 'Attribute group');
           break;
         case 'complexType':
           const complexType = this.parseComplexType(child);
-          schema.complexTypes[complexType.name] = complexType;
+          this.addComponent(schema.complexTypes, this.typeKey(this.targetNamespace, complexType.name), complexType, child, 'Type');
           break;
         case 'simpleType':
           const simpleType = this.parseSimpleType(child);
-          schema.simpleTypes[simpleType.name] = simpleType;
+          this.addComponent(schema.simpleTypes, this.typeKey(this.targetNamespace, simpleType.name), simpleType, child, 'Type');
           break;
       }
     }
 
-    return schema;
+    this.restoreDocumentState(outerState);
   }
 
-  private parseElement(elementNode: XmlNode): XsdElement {
+  private readInclude(includeNode: XmlNode, schema: XsdSchema): void {
+    const included = this.loadReferencedDocument(includeNode);
+    if (included && this.checkIncludedNamespace(included.node, included.location)) {
+      this.readSchemaDocument(included.node, schema, included.location, this.targetNamespace);
+    }
+  }
+
+  private readImport(importNode: XmlNode, schema: XsdSchema): void {
+    const namespace = importNode.attributes.namespace || undefined;
+    this.importedNamespaces.add(namespace);
+
+    // An import without schemaLocation only makes the namespace referenceable
+    if (importNode.attributes.schemaLocation === undefined) {
+      return;
+    }
+
+    const imported = this.loadReferencedDocument(importNode);
+    if (!imported) {
+      return;
+    }
+
+    const importedNamespace = imported.node.attributes.targetNamespace || undefined;
+    if (importedNamespace !== namespace) {
+      this.addError(importNode.location,
+        `Imported schema '${imported.location}' has target namespace '${importedNamespace ?? ''}' but '${namespace ?? ''}' was imported`,
+        'SCHEMA_ERROR');
+      return;
+    }
+    this.readSchemaDocument(imported.node, schema, imported.location);
+  }
+
+  /**
+   * Includes a document and replaces some of its types. Within a redefinition
+   * a reference to the type's own name means the original definition, which
+   * stays in the schema under a key no QName can produce.
+   */
+  private readRedefine(redefineNode: XmlNode, schema: XsdSchema): void {
+    this.readInclude(redefineNode, schema);
+    // The redefined components cannot be checked against a document never loaded
+    if (!this.resolver) {
+      return;
+    }
+
+    for (const child of redefineNode.children) {
+      const localName = this.getLocalName(child.name);
+      if (localName === 'group' || localName === 'attributeGroup') {
+        this.redefineComponent(child, localName, redefineNode, schema);
+        continue;
+      }
+      if (localName !== 'complexType' && localName !== 'simpleType') {
+        continue;
+      }
+
+      const key = this.typeKey(this.targetNamespace, child.attributes.name || '');
+      const types: Record<string, XsdComplexType | XsdSimpleType> = localName === 'complexType' ? schema.complexTypes : schema.simpleTypes;
+      if (!types[key]) {
+        this.addError(child.location, `Redefined type '${child.attributes.name}' is not defined in '${redefineNode.attributes.schemaLocation}'`, 'SCHEMA_ERROR');
+        continue;
+      }
+
+      const originalKey = `#redefined-${key}`;
+      types[originalKey] = types[key];
+      this.redefinitions.set(key, originalKey);
+      types[key] = localName === 'complexType' ? this.parseComplexType(child) : this.parseSimpleType(child);
+      this.redefinitions.delete(key);
+    }
+  }
+  /**
+   * Replaces a group or attribute group with its redefinition. A reference
+   * to itself inside the redefinition means the original.
+   */
+  private redefineComponent(node: XmlNode, kind: 'group' | 'attributeGroup', redefineNode: XmlNode, schema: XsdSchema): void {
+    const key = this.elementKey(this.targetNamespace, node.attributes.name || '');
+    const components: Record<string, XsdGroup | XsdAttributeGroup> = kind === 'group' ? schema.groups : schema.attributeGroups;
+    if (!components[key]) {
+      this.addError(node.location, `Redefined ${COMPONENT_LABELS[kind].toLowerCase()} '${node.attributes.name}' is not defined in '${redefineNode.attributes.schemaLocation}'`, 'SCHEMA_ERROR');
+      return;
+    }
+
+    const originalKey = `#redefined-${key}`;
+    components[originalKey] = components[key];
+    this.componentRedefinitions.set(`${kind} ${key}`, originalKey);
+    components[key] = kind === 'group' ? this.parseGroup(node) : this.parseAttributeGroup(node);
+    this.componentRedefinitions.delete(`${kind} ${key}`);
+  }
+
+
+  private checkIncludedNamespace(includedNode: XmlNode, location: string): boolean {
+    const includedNamespace = includedNode.attributes.targetNamespace || undefined;
+    if (includedNamespace !== undefined && includedNamespace !== this.targetNamespace) {
+      this.addError(includedNode.location,
+        `Included schema '${location}' has target namespace '${includedNamespace}' but '${this.targetNamespace ?? ''}' is required`,
+        'SCHEMA_ERROR');
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Loads the document named by a schemaLocation attribute. Every location is
+   * loaded once, so repeated and circular includes end at the first visit.
+   * Without a resolver, referenced documents are not loaded at all.
+   */
+  private loadReferencedDocument(directiveNode: XmlNode): { node: XmlNode; location: string } | undefined {
+    const schemaLocation = directiveNode.attributes.schemaLocation;
+    if (!schemaLocation) {
+      this.addError(directiveNode.location, `${directiveNode.name} requires a schemaLocation`, 'SCHEMA_ERROR');
+      return undefined;
+    }
+
+    if (!this.resolver) {
+      return undefined;
+    }
+
+    const location = this.resolveLocation(schemaLocation, this.source);
+    if (this.loadedLocations.has(location)) {
+      return undefined;
+    }
+    this.loadedLocations.add(location);
+
+    const content = this.resolver(location);
+    if (content === undefined) {
+      this.addError(directiveNode.attributeLocations?.schemaLocation ?? directiveNode.location,
+        `Schema '${schemaLocation}' could not be resolved`,
+        'SCHEMA_NOT_FOUND');
+      return undefined;
+    }
+
+    const node = this.parseDocument(content, location);
+    return node ? { node, location } : undefined;
+  }
+
+  /**
+   * Resolves a relative schemaLocation against the location of the document
+   * that references it, the way relative URLs and paths are resolved.
+   */
+  private resolveLocation(schemaLocation: string, baseLocation: string | undefined): string {
+    const isAbsolute = /^([a-zA-Z][\w+.-]*:|\/)/.test(schemaLocation);
+    const baseDirectory = baseLocation && baseLocation.includes('/')
+      ? baseLocation.substring(0, baseLocation.lastIndexOf('/') + 1)
+      : '';
+    const segments: string[] = [];
+
+    for (const segment of (isAbsolute ? schemaLocation : baseDirectory + schemaLocation).split('/')) {
+      if (segment === '..' && segments.length > 0 && segments[segments.length - 1] !== '..' && segments[segments.length - 1] !== '') {
+        segments.pop();
+      } else if (segment !== '.') {
+        segments.push(segment);
+      }
+    }
+
+    return segments.join('/');
+  }
+
+  private addComponent<T>(components: Record<string, T>, key: string, component: T, node: XmlNode, kind: string): void {
+    if (components[key] !== undefined) {
+      this.addError(node.location, `${kind} '${node.attributes.name}' is defined more than once`, 'DUPLICATE_COMPONENT');
+      return;
+    }
+    components[key] = component;
+  }
+
+  private saveDocumentState(): DocumentState {
+    return {
+      targetNamespace: this.targetNamespace,
+      elementFormDefault: this.elementFormDefault,
+      attributeFormDefault: this.attributeFormDefault,
+      importedNamespaces: this.importedNamespaces,
+      chameleon: this.chameleon,
+      source: this.source
+    };
+  }
+
+  private restoreDocumentState(state: DocumentState): void {
+    this.targetNamespace = state.targetNamespace;
+    this.elementFormDefault = state.elementFormDefault;
+    this.attributeFormDefault = state.attributeFormDefault;
+    this.importedNamespaces = state.importedNamespaces;
+    this.chameleon = state.chameleon;
+    this.source = state.source;
+  }
+
+  /**
+   * Resolves a QName-valued attribute such as type="tns:BookType" through the
+   * namespace bindings in scope. Built-in XSD types resolve to their local name
+   * and named types to the key they are stored under in the schema.
+   */
+  private resolveTypeReference(node: XmlNode, attrName: string, qname = node.attributes[attrName]): string {
+    const location = node.attributeLocations?.[attrName] ?? node.location;
+    const name = this.resolveQName(node, qname, location, 'Type', 'UNRESOLVED_TYPE');
+    if (!name) {
+      return qname;
+    }
+
+    const { namespace, localName } = name;
+    if (namespace === XSD_NAMESPACE) {
+      if (!XSD_BUILT_IN_TYPES.includes(localName)) {
+        this.addError(location, `Type '${qname}' is not a built-in XML Schema type`, 'UNRESOLVED_TYPE');
+      }
+      return localName;
+    }
+
+    if (!this.isReferenceable(namespace, qname, location, 'Type', 'UNRESOLVED_TYPE')) {
+      return qname;
+    }
+
+    const key = this.typeKey(namespace, localName);
+    const redefinedKey = this.redefinitions.get(key) ?? key;
+    this.typeReferences.push({ key: redefinedKey, qname, location, source: this.source });
+    return redefinedKey;
+  }
+
+  /**
+   * Records a ref="..." to a global element, attribute or group. The returned
+   * key is looked up once all schema documents have been read.
+   */
+  private resolveComponentReference(node: XmlNode, kind: ComponentKind, attrName = 'ref'): ComponentReference | undefined {
+    const qname = node.attributes[attrName];
+    const location = node.attributeLocations?.[attrName] ?? node.location;
+    const label = COMPONENT_LABELS[kind];
+    const name = this.resolveQName(node, qname, location, label, 'UNRESOLVED_REFERENCE');
+
+    if (!name || !this.isReferenceable(name.namespace, qname, location, label, 'UNRESOLVED_REFERENCE')) {
+      return undefined;
+    }
+    const key = this.elementKey(name.namespace, name.localName);
+    return { kind, key: this.componentRedefinitions.get(`${kind} ${key}`) ?? key, qname, location, source: this.source };
+  }
+
+  private resolveQName(node: XmlNode, qname: string, location: XmlLocation | undefined, label: string, code: string): XmlName | undefined {
+    const colonIndex = qname.indexOf(':');
+    const prefix = colonIndex === -1 ? '' : qname.substring(0, colonIndex);
+    const localName = qname.substring(colonIndex + 1);
+    const namespace = node.namespaces?.[prefix];
+
+    if (prefix && namespace === undefined) {
+      this.addError(location, `Namespace prefix '${prefix}' in ${label.toLowerCase()} reference '${qname}' is not declared`, code);
+      return undefined;
+    }
+
+    // Unqualified references in a chameleon include point into the including namespace
+    if (namespace === undefined && this.chameleon) {
+      return { prefix, localName, namespace: this.targetNamespace };
+    }
+    return { prefix, localName, namespace };
+  }
+
+  private isReferenceable(namespace: string | undefined, qname: string, location: XmlLocation | undefined, label: string, code: string): boolean {
+    if (namespace !== this.targetNamespace && !this.importedNamespaces.has(namespace)) {
+      this.addError(location, `${label} '${qname}' refers to namespace '${namespace ?? ''}' which is neither the target namespace nor imported`, code);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Replaces element, attribute and group references with the definitions
+   * they name. Attribute groups and the flat element lists of complex types
+   * are expanded afterwards since both depend on nested references.
+   */
+  private resolveComponentReferences(schema: XsdSchema): void {
+    for (const { reference, resolve } of this.componentReferences) {
+      if (!resolve(schema)) {
+        this.addReferenceError(reference, `${COMPONENT_LABELS[reference.kind]} '${reference.qname}' is not defined in the schema`, 'UNRESOLVED_REFERENCE');
+      }
+    }
+
+    for (const attributes of [...this.attributeGroupReferences.keys()]) {
+      this.expandAttributeGroups(schema, attributes, new Set());
+    }
+
+    for (const { group, elements } of this.groupElementLists) {
+      elements.push(...this.collectElements(group, new Set()));
+    }
+  }
+
+  private expandAttributeGroups(schema: XsdSchema, attributes: XsdAttribute[], expanding: Set<XsdAttribute[]>): void {
+    const references = this.attributeGroupReferences.get(attributes);
+    if (!references) {
+      return;
+    }
+    this.attributeGroupReferences.delete(attributes);
+    expanding.add(attributes);
+
+    for (const reference of references) {
+      const attributeGroup = schema.attributeGroups[reference.key];
+      if (!attributeGroup) {
+        this.addReferenceError(reference, `Attribute group '${reference.qname}' is not defined in the schema`, 'UNRESOLVED_REFERENCE');
+      } else if (expanding.has(attributeGroup.attributes)) {
+        this.addReferenceError(reference, `Attribute group '${reference.qname}' refers to itself`, 'CIRCULAR_REFERENCE');
+      } else {
+        this.expandAttributeGroups(schema, attributeGroup.attributes, expanding);
+        attributes.push(...attributeGroup.attributes);
+      }
+    }
+
+    expanding.delete(attributes);
+  }
+
+  private collectElements(group: XsdModelGroup, visiting: Set<XsdParticle[]>): XsdElement[] {
+    if (visiting.has(group.particles)) {
+      // Every group of the cycle finds it; report it once, where it closes
+      const reference = this.groupReferences.get(group);
+      if (reference && !this.circularGroups.has(group.particles)) {
+        visiting.forEach(particles => this.circularGroups.add(particles));
+        this.addReferenceError(reference, `Group '${reference.qname}' refers to itself`, 'CIRCULAR_REFERENCE');
+      }
+      return [];
+    }
+    visiting.add(group.particles);
+
+    const elements = group.particles.flatMap(particle => {
+      if ('processContents' in particle) {
+        return [];
+      }
+      return 'kind' in particle ? this.collectElements(particle, visiting) : [particle];
+    });
+
+    visiting.delete(group.particles);
+    return elements;
+  }
+
+  private addReferenceError(reference: ComponentReference, message: string, code: string): void {
+    const source = this.source;
+    this.source = reference.source;
+    this.addError(reference.location, message, code);
+    this.source = source;
+  }
+
+  private checkTypeReferences(schema: XsdSchema): void {
+    for (const reference of this.typeReferences) {
+      const isDefined = schema.complexTypes[reference.key] !== undefined ||
+        schema.simpleTypes[reference.key] !== undefined;
+      // Schemas without namespace declarations name built-in types without a prefix
+      const isUnqualifiedBuiltIn = this.homeNamespace === undefined && XSD_BUILT_IN_TYPES.includes(reference.key);
+
+      if (!isDefined && !isUnqualifiedBuiltIn) {
+        const source = this.source;
+        this.source = reference.source;
+        this.addError(reference.location, `Type '${reference.qname}' is not defined in the schema`, 'UNRESOLVED_TYPE');
+        this.source = source;
+      }
+    }
+  }
+
+  private checkSimpleTypeDerivations(schema: XsdSchema): void {
+    for (const [key, simpleType] of Object.entries(schema.simpleTypes)) {
+      const visited = new Set([key]);
+      let baseType = simpleType.baseSimpleType ? undefined : simpleType.baseType;
+
+      while (baseType && schema.simpleTypes[baseType]) {
+        if (visited.has(baseType)) {
+          this.addError(undefined, `Simple type '${simpleType.name}' is derived from itself`, 'CIRCULAR_DERIVATION');
+          break;
+        }
+        visited.add(baseType);
+        const base = schema.simpleTypes[baseType];
+        baseType = base.baseSimpleType ? undefined : base.baseType;
+      }
+    }
+  }
+
+  /**
+   * Named types of the schema's own target namespace are stored under their
+   * local name. Types of other namespaces, and types that share their local
+   * name with a built-in type, are stored under their expanded name so the
+   * keys never collide.
+   */
+  private typeKey(namespace: string | undefined, localName: string): string {
+    if (namespace === this.homeNamespace && (namespace === undefined || !XSD_BUILT_IN_TYPES.includes(localName))) {
+      return localName;
+    }
+    return `{${namespace ?? ''}}${localName}`;
+  }
+
+  private elementKey(namespace: string | undefined, localName: string): string {
+    return namespace === this.homeNamespace ? localName : `{${namespace ?? ''}}${localName}`;
+  }
+
+  private parseElement(elementNode: XmlNode, isGlobal = false): XsdElement {
+    if (!isGlobal && elementNode.attributes.ref !== undefined) {
+      return this.parseElementReference(elementNode);
+    }
+
+    // Global elements always belong to the target namespace; local ones only when qualified
+    const form = isGlobal ? 'qualified' : this.parseForm(elementNode.attributes.form, this.elementFormDefault);
     const element: XsdElement = {
       name: elementNode.attributes.name || '',
-      type: elementNode.attributes.type || 'string',
-      minOccurs: parseInt(elementNode.attributes.minOccurs || '1'),
-      maxOccurs: elementNode.attributes.maxOccurs === 'unbounded' ? 'unbounded' : parseInt(elementNode.attributes.maxOccurs || '1'),
+      type: elementNode.attributes.type ? this.resolveTypeReference(elementNode, 'type') : 'string',
+      ...this.parseOccurs(elementNode),
       attributes: [],
       children: [],
-      namespace: elementNode.namespace
+      namespace: form === 'qualified' ? this.targetNamespace : undefined,
+      defaultValue: elementNode.attributes.default,
+      fixedValue: elementNode.attributes.fixed
     };
 
+    if (element.defaultValue !== undefined && element.fixedValue !== undefined) {
+      this.addError(elementNode.location, `Element '${element.name}' cannot have both a default and a fixed value`, 'SCHEMA_ERROR');
+    }
+
     // Parse child elements
     for (const child of elementNode.children) {
       const localName = this.getLocalName(child.name);
       
       switch (localName) {
         case 'complexType':
-          const complexType = this.parseComplexType(child);
           element.type = `#inline-${element.name}`;
-          // Handle inline complex type
+          element.complexType = this.parseComplexType(child);
           break;
         case 'simpleType':
-          const simpleType = this.parseSimpleType(child);
           element.type = `#inline-${element.name}`;
-          element.restrictions = simpleType.restrictions;
+          element.simpleType = this.parseSimpleType(child);
+          element.restrictions = element.simpleType.restrictions;
+          break;
+        case 'key':
+        case 'keyref':
+        case 'unique':
+          element.identityConstraints = [...(element.identityConstraints ?? []), this.parseIdentityConstraint(child)];
           break;
       }
     }
@@ -103,11 +660,115 @@ export class XsdParser {
     return element;
   }
 
+  /**
+   * A local element reference takes everything but its occurrence from the
+   * global element declaration it names.
+   */
+  private parseElementReference(elementNode: XmlNode): XsdElement {
+    const reference = this.resolveComponentReference(elementNode, 'element');
+    const element: XsdElement = {
+      name: this.getLocalName(elementNode.attributes.ref),
+      type: 'string',
+      ...this.parseOccurs(elementNode),
+      attributes: [],
+      children: []
+    };
+
+    if (reference) {
+      this.componentReferences.push({
+        reference,
+        resolve: schema => {
+          const declaration = schema.elements[reference.key];
+          if (declaration) {
+            Object.assign(element, declaration, this.parseOccurs(elementNode));
+          }
+          return declaration !== undefined;
+        }
+      });
+    }
+    return element;
+  }
+
+  private parseIdentityConstraint(constraintNode: XmlNode): XsdIdentityConstraint {
+    const constraint: XsdIdentityConstraint = {
+      kind: this.getLocalName(constraintNode.name) as XsdIdentityConstraint['kind'],
+      name: constraintNode.attributes.name || '',
+      selector: '',
+      fields: [],
+      namespaces: constraintNode.namespaces ?? {}
+    };
+
+    for (const child of constraintNode.children) {
+      const localName = this.getLocalName(child.name);
+      if (localName === 'selector') {
+        constraint.selector = this.parseXPath(child, false);
+      } else if (localName === 'field') {
+        constraint.fields.push(this.parseXPath(child, true));
+      }
+    }
+
+    if (!constraint.selector || constraint.fields.length === 0) {
+      this.addError(constraintNode.location, `Identity constraint '${constraint.name}' requires a selector and at least one field`, 'SCHEMA_ERROR');
+    }
+    this.addComponent(this.identityConstraints, this.elementKey(this.targetNamespace, constraint.name), constraint, constraintNode, 'Identity constraint');
+
+    if (constraint.kind === 'keyref') {
+      this.parseKeyReference(constraintNode, constraint);
+    }
+    return constraint;
+  }
+
+  private parseXPath(xpathNode: XmlNode, isField: boolean): string {
+    const expression = xpathNode.attributes.xpath ?? '';
+    try {
+      new RestrictedXPath(expression, xpathNode.namespaces, isField);
+    } catch (error) {
+      this.addError(xpathNode.attributeLocations?.xpath ?? xpathNode.location,
+        error instanceof Error ? error.message : `Invalid XPath '${expression}'`,
+        'INVALID_XPATH');
+    }
+    return expression;
+  }
+
+  /**
+   * A keyref must refer to a key or unique constraint with the same number
+   * of fields.
+   */
+  private parseKeyReference(constraintNode: XmlNode, constraint: XsdIdentityConstraint): void {
+    if (constraintNode.attributes.refer === undefined) {
+      this.addError(constraintNode.location, `Keyref '${constraint.name}' requires a refer attribute`, 'SCHEMA_ERROR');
+      return;
+    }
+
+    const reference = this.resolveComponentReference(constraintNode, 'identityConstraint', 'refer');
+    if (!reference) {
+      return;
+    }
+
+    this.componentReferences.push({
+      reference,
+      resolve: schema => {
+        const referenced = schema.identityConstraints[reference.key];
+        if (referenced?.kind === 'keyref') {
+          this.addReferenceError(reference, `Keyref '${constraint.name}' must refer to a key or unique constraint`, 'SCHEMA_ERROR');
+        } else if (referenced && referenced.fields.length !== constraint.fields.length) {
+          this.addReferenceError(reference,
+            `Keyref '${constraint.name}' has ${constraint.fields.length} fields but '${referenced.name}' has ${referenced.fields.length}`,
+            'SCHEMA_ERROR');
+        }
+        constraint.refer = reference.key;
+        return referenced !== undefined;
+      }
+    });
+  }
+
   private parseComplexType(complexTypeNode: XmlNode): XsdComplexType {
     const complexType: XsdComplexType = {
       name: complexTypeNode.attributes.name || '',
       elements: [],
-      attributes: []
+      attributes: [],
+      abstract: this.parseBoolean(complexTypeNode, 'abstract'),
+      mixed: this.parseBoolean(complexTypeNode, 'mixed')
     };
 
     // Parse sequence, choice, all, etc.
@@ -115,22 +776,300 @@ export class XsdParser {
       const localName = this.getLocalName(child.name);
       
       switch (localName) {
+        case 'complexContent':
+        case 'simpleContent':
+          this.parseDerivedContent(child, complexType);
+          break;
+        default:
+          this.parseComplexTypeChild(child, complexType);
+          break;
+      }
+    }
+
+    return complexType;
+  }
+
+  /**
+   * Reads the extension or restriction inside complexContent or simpleContent.
+   * Only the type's own declarations are collected here; the base type's
+   * content and attributes are merged once all types of the schema are known.
+   */
+  private parseDerivedContent(contentNode: XmlNode, complexType: XsdComplexType): void {
+    const derivationNode = contentNode.children.find(child => {
+      const localName = this.getLocalName(child.name);
+      return localName === 'extension' || localName === 'restriction';
+    });
+
+    if (!derivationNode || !derivationNode.attributes.base) {
+      this.addError(contentNode.location, `${contentNode.name} requires an extension or restriction with a base type`, 'SCHEMA_ERROR');
+      return;
+    }
+
+    complexType.baseType = this.resolveTypeReference(derivationNode, 'base');
+    complexType.derivation = this.getLocalName(derivationNode.name) as XsdDerivation;
+    this.derivedComplexTypes.set(complexType, derivationNode.location);
+
+    if (this.getLocalName(contentNode.name) === 'simpleContent') {
+      complexType.simpleContent = {
+        name: '',
+        baseType: 'anySimpleType',
+        restrictions: complexType.derivation === 'restriction' ? this.parseFacets(derivationNode) : []
+      };
+    } else if (contentNode.attributes.mixed !== undefined) {
+      complexType.mixed = this.parseBoolean(contentNode, 'mixed');
+    }
+
+    for (const child of derivationNode.children) {
+      this.parseComplexTypeChild(child, complexType);
+    }
+  }
+
+  private parseComplexTypeChild(child: XmlNode, complexType: XsdComplexType): void {
+    switch (this.getLocalName(child.name)) {
+      case 'sequence':
+      case 'choice':
+      case 'all':
+        complexType.content = this.parseModelGroup(child, complexType.elements);
+        break;
+      case 'group':
+        complexType.content = this.parseGroupReference(child, complexType.elements);
+        break;
+      case 'attribute':
+        complexType.attributes.push(this.parseAttribute(child));
+        break;
+      case 'attributeGroup':
+        this.parseAttributeGroupReference(child, complexType.attributes);
+        break;
+      case 'anyAttribute':
+        complexType.anyAttribute = this.parseWildcard(child);
+        break;
+    }
+  }
+
+  /**
+   * Reads the namespace constraint and processContents of xs:any or
+   * xs:anyAttribute. ##other excludes the target namespace and unqualified
+   * names; ##local and ##targetNamespace may appear in explicit lists.
+   */
+  private parseWildcard(wildcardNode: XmlNode): XsdWildcard {
+    const namespace = (wildcardNode.attributes.namespace ?? '##any').trim();
+    const processContents = wildcardNode.attributes.processContents ?? 'strict';
+
+    if (processContents !== 'strict' && processContents !== 'lax' && processContents !== 'skip') {
+      this.addError(wildcardNode.location, `Invalid processContents value '${processContents}'`, 'SCHEMA_ERROR');
+    }
+
+    const wildcard: XsdWildcard = {
+      namespaceMode: 'list',
+      namespaces: [],
+      processContents: processContents as XsdWildcard['processContents']
+    };
+
+    if (namespace === '##any') {
+      wildcard.namespaceMode = 'any';
+    } else if (namespace === '##other') {
+      wildcard.namespaceMode = 'not';
+      wildcard.namespaces = [this.targetNamespace, undefined];
+    } else {
+      for (const token of namespace.split(/\s+/).filter(token => token)) {
+        if (token === '##local') {
+          wildcard.namespaces.push(undefined);
+        } else if (token === '##targetNamespace') {
+          wildcard.namespaces.push(this.targetNamespace);
+        } else if (token.startsWith('##')) {
+          this.addError(wildcardNode.location, `Invalid namespace constraint '${token}'`, 'SCHEMA_ERROR');
+        } else {
+          wildcard.namespaces.push(token);
+        }
+      }
+    }
+
+    return wildcard;
+  }
+
+  /**
+   * Merges base type content and attributes into every derived complex type,
+   * resolving base types first so that derivation chains accumulate.
+   */
+  private resolveComplexTypeDerivations(schema: XsdSchema): void {
+    const resolved = new Set<XsdComplexType>();
+    for (const complexType of this.derivedComplexTypes.keys()) {
+      this.resolveComplexTypeDerivation(schema, complexType, resolved, new Set());
+    }
+  }
+
+  private resolveComplexTypeDerivation(
+    schema: XsdSchema,
+    complexType: XsdComplexType,
+    resolved: Set<XsdComplexType>,
+    resolving: Set<XsdComplexType>
+  ): void {
+    if (resolved.has(complexType) || !complexType.baseType) {
+      return;
+    }
+    resolved.add(complexType);
+
+    const location = this.derivedComplexTypes.get(complexType);
+    const base = schema.complexTypes[complexType.baseType];
+
+    if (!base) {
+      if (complexType.simpleContent && complexType.derivation === 'extension') {
+        // Simple content can extend a simple or built-in type directly
+        complexType.simpleContent.baseType = complexType.baseType;
+      } else if (complexType.baseType !== 'anyType' &&
+        (schema.simpleTypes[complexType.baseType] || XSD_BUILT_IN_TYPES.includes(complexType.baseType))) {
+        this.addError(location, `Complex type '${complexType.name}' cannot derive from simple type '${complexType.baseType}'`, 'SCHEMA_ERROR');
+      }
+      return;
+    }
+
+    resolving.add(complexType);
+    if (resolving.has(base)) {
+      this.addError(location, `Complex type '${complexType.name}' is derived from itself`, 'CIRCULAR_DERIVATION');
+      return;
+    }
+    this.resolveComplexTypeDerivation(schema, base, resolved, resolving);
+
+    if (complexType.simpleContent) {
+      if (!base.simpleContent) {
+        this.addError(location, `Complex type '${complexType.name}' has simple content but its base type '${base.name}' does not`, 'SCHEMA_ERROR');
+        return;
+      }
+      complexType.simpleContent.baseSimpleType = base.simpleContent;
+    } else if (complexType.derivation === 'extension') {
+      // Extended content is the base content followed by the type's own particles
+      complexType.simpleContent = base.simpleContent;
+      complexType.elements = [...base.elements, ...complexType.elements];
+      complexType.content = base.content && complexType.content
+        ? { kind: 'sequence', minOccurs: 1, maxOccurs: 1, particles: [base.content, complexType.content] }
+        : base.content ?? complexType.content;
+    }
+
+    complexType.attributes = this.mergeAttributes(base.attributes, complexType.attributes, complexType.derivation);
+    if (complexType.derivation === 'extension') {
+      complexType.anyAttribute = complexType.anyAttribute ?? base.anyAttribute;
+    }
+  }
+
+  /**
+   * Declarations of the derived type replace inherited ones of the same name.
+   * A restriction removes inherited attributes it marks as prohibited.
+   */
+  private mergeAttributes(baseAttributes: XsdAttribute[], ownAttributes: XsdAttribute[], derivation?: XsdDerivation): XsdAttribute[] {
+    const isOverridden = (baseAttribute: XsdAttribute) => ownAttributes.some(attribute =>
+      attribute.name === baseAttribute.name && attribute.namespace === baseAttribute.namespace);
+    const merged = [...baseAttributes.filter(attribute => !isOverridden(attribute)), ...ownAttributes];
+
+    return derivation === 'restriction' ? merged.filter(attribute => attribute.use !== 'prohibited') : merged;
+  }
+
+  /**
+   * Parses a sequence, choice or all group into a particle tree. Every element
+   * declaration found on the way is also collected into the flat elements list
+   * of the enclosing complex type.
+   */
+  private parseModelGroup(groupNode: XmlNode, elements: XsdElement[]): XsdModelGroup {
+    const group: XsdModelGroup = {
+      kind: this.getLocalName(groupNode.name) as XsdModelGroup['kind'],
+      ...this.parseOccurs(groupNode),
+      particles: []
+    };
+
+    for (const child of groupNode.children) {
+      const localName = this.getLocalName(child.name);
+
+      switch (localName) {
+        case 'element':
+          const element = this.parseElement(child);
+          group.particles.push(element);
+          elements.push(element);
+          break;
         case 'sequence':
         case 'choice':
         case 'all':
-          for (const sequenceChild of child.children) {
-            if (this.getLocalName(sequenceChild.name) === 'element') {
-              complexType.elements.push(this.parseElement(sequenceChild));
-            }
-          }
+          group.particles.push(this.parseModelGroup(child, elements));
           break;
-        case 'attribute':
-          complexType.attributes.push(this.parseAttribute(child));
+        case 'group':
+          group.particles.push(this.parseGroupReference(child, elements));
+          break;
+        case 'any':
+          const any: XsdAny = { ...this.parseWildcard(child), ...this.parseOccurs(child) };
+          group.particles.push(any);
           break;
       }
     }
 
-    return complexType;
+    return group;
+  }
+
+  private parseGroup(groupNode: XmlNode): XsdGroup {
+    const contentNode = groupNode.children.find(child => ['sequence', 'choice', 'all'].includes(this.getLocalName(child.name)));
+    if (!contentNode) {
+      this.addError(groupNode.location, `Group '${groupNode.attributes.name}' requires a sequence, choice or all`, 'SCHEMA_ERROR');
+    }
+
+    return {
+      name: groupNode.attributes.name || '',
+      content: contentNode ? this.parseModelGroup(contentNode, []) : { kind: 'sequence', minOccurs: 1, maxOccurs: 1, particles: [] }
+    };
+  }
+
+  /**
+   * A group reference becomes a model group particle with the reference's
+   * occurrence that shares the particles of the named group. Its elements
+   * join the enclosing type's element list once references are resolved.
+   */
+  private parseGroupReference(groupNode: XmlNode, elements: XsdElement[]): XsdModelGroup {
+    const reference = this.resolveComponentReference(groupNode, 'group');
+    const group: XsdModelGroup = { kind: 'sequence', ...this.parseOccurs(groupNode), particles: [] };
+
+    if (reference) {
+      this.componentReferences.push({
+        reference,
+        resolve: schema => {
+          const definition = schema.groups[reference.key];
+          if (definition) {
+            group.kind = definition.content.kind;
+            group.particles = definition.content.particles;
+          }
+          return definition !== undefined;
+        }
+      });
+      this.groupElementLists.push({ group, elements });
+      this.groupReferences.set(group, reference);
+    }
+    return group;
+  }
+
+  private parseAttributeGroup(attributeGroupNode: XmlNode): XsdAttributeGroup {
+    const attributeGroup: XsdAttributeGroup = { name: attributeGroupNode.attributes.name || '', attributes: [] };
+
+    for (const child of attributeGroupNode.children) {
+      const localName = this.getLocalName(child.name);
+      if (localName === 'attribute') {
+        attributeGroup.attributes.push(this.parseAttribute(child));
+      } else if (localName === 'attributeGroup') {
+        this.parseAttributeGroupReference(child, attributeGroup.attributes);
+      }
+    }
+
+    return attributeGroup;
+  }
+
+  private parseAttributeGroupReference(attributeGroupNode: XmlNode, attributes: XsdAttribute[]): void {
+    const reference = this.resolveComponentReference(attributeGroupNode, 'attributeGroup');
+    if (reference) {
+      const references = this.attributeGroupReferences.get(attributes) ?? [];
+      references.push(reference);
+      this.attributeGroupReferences.set(attributes, references);
+    }
+  }
+
+  private parseOccurs(node: XmlNode): { minOccurs: number; maxOccurs: number | 'unbounded' } {
+    return {
+      minOccurs: parseInt(node.attributes.minOccurs || '1'),
+      maxOccurs: node.attributes.maxOccurs === 'unbounded' ? 'unbounded' : parseInt(node.attributes.maxOccurs || '1')
+    };
   }
 
   private parseSimpleType(simpleTypeNode: XmlNode): XsdSimpleType {
@@ -140,39 +1079,214 @@ export class XsdParser {
       restrictions: []
     };
 
-    // Parse restrictions
+    // Parse restriction, list or union derivation
     for (const child of simpleTypeNode.children) {
       const localName = this.getLocalName(child.name);
+      const inlineType = child.children.find(grandchild => this.getLocalName(grandchild.name) === 'simpleType');
       
-      if (localName === 'restriction') {
-        simpleType.baseType = child.attributes.base || 'string';
-        
-        for (const restrictionChild of child.children) {
-          const restrictionType = this.getLocalName(restrictionChild.name);
-          const value = restrictionChild.attributes.value;
-          
-          if (value !== undefined) {
-            const restriction: XsdRestriction = {
-              type: restrictionType as any,
-              value: isNaN(Number(value)) ? value : Number(value)
-            };
-            simpleType.restrictions.push(restriction);
+      switch (localName) {
+        case 'restriction':
+          simpleType.variety = 'atomic';
+          if (child.attributes.base) {
+            simpleType.baseType = this.resolveTypeReference(child, 'base');
+          } else if (inlineType) {
+            simpleType.baseType = 'anySimpleType';
+            simpleType.baseSimpleType = this.parseSimpleType(inlineType);
           }
-        }
+          simpleType.restrictions = this.parseFacets(child);
+          break;
+        case 'list':
+          simpleType.variety = 'list';
+          simpleType.baseType = 'anySimpleType';
+          if (child.attributes.itemType) {
+            simpleType.itemType = this.resolveTypeReference(child, 'itemType');
+          } else if (inlineType) {
+            simpleType.itemSimpleType = this.parseSimpleType(inlineType);
+          } else {
+            this.addError(child.location, 'A list requires an itemType or an inline simpleType', 'SCHEMA_ERROR');
+          }
+          break;
+        case 'union':
+          simpleType.variety = 'union';
+          simpleType.baseType = 'anySimpleType';
+          simpleType.memberTypes = (child.attributes.memberTypes || '')
+            .split(/\s+/)
+            .filter(memberType => memberType)
+            .map(memberType => this.resolveTypeReference(child, 'memberTypes', memberType));
+          simpleType.memberSimpleTypes = child.children
+            .filter(grandchild => this.getLocalName(grandchild.name) === 'simpleType')
+            .map(memberNode => this.parseSimpleType(memberNode));
+          if (simpleType.memberTypes.length + simpleType.memberSimpleTypes.length === 0) {
+            this.addError(child.location, 'A union requires at least one member type', 'SCHEMA_ERROR');
+          }
+          break;
       }
     }
 
     return simpleType;
   }
 
-  private parseAttribute(attributeNode: XmlNode): XsdAttribute {
-    return {
+  /**
+   * Reads the facets of a restriction. Enumeration values are collected into
+   * a single value set, and patterns of the same step are combined into one
+   * alternation since a value only needs to match one of them.
+   */
+  private parseFacets(restrictionNode: XmlNode): XsdRestriction[] {
+    const restrictions: XsdRestriction[] = [];
+    const enumeration: string[] = [];
+    const patterns: string[] = [];
+
+    for (const facetNode of restrictionNode.children) {
+      const facetName = this.getLocalName(facetNode.name);
+      if (facetName === 'annotation' || facetName === 'simpleType') {
+        continue;
+      }
+
+      const facet = facetName as XsdFacet;
+      const value = facetNode.attributes.value;
+      if (value === undefined) {
+        this.addError(facetNode.location, `Facet '${facet}' requires a value`, 'INVALID_FACET');
+        continue;
+      }
+
+      if (facet === 'enumeration') {
+        enumeration.push(value);
+      } else if (facet === 'pattern') {
+        try {
+          compileXsdPattern(value);
+          patterns.push(value);
+        } catch (error) {
+          this.addError(facetNode.location, (error as Error).message, 'INVALID_FACET');
+        }
+      } else if (facet === 'whiteSpace') {
+        if (value !== 'preserve' && value !== 'replace' && value !== 'collapse') {
+          this.addError(facetNode.location, `Invalid whiteSpace value '${value}'`, 'INVALID_FACET');
+          continue;
+        }
+        restrictions.push({ type: facet, value });
+      } else if (NON_NEGATIVE_FACETS.includes(facet)) {
+        if (!/^\d+$/.test(value.trim())) {
+          this.addError(facetNode.location, `Facet '${facet}' requires a non-negative integer but found '${value}'`, 'INVALID_FACET');
+          continue;
+        }
+        restrictions.push({ type: facet, value: Number(value) });
+      } else if (RANGE_FACETS.includes(facet)) {
+        restrictions.push({ type: facet, value: isNaN(Number(value)) ? value : Number(value) });
+      } else {
+        this.addError(facetNode.location, `Unknown facet '${facetNode.name}'`, 'INVALID_FACET');
+      }
+    }
+
+    if (enumeration.length > 0) {
+      restrictions.push({ type: 'enumeration', value: enumeration });
+    }
+    if (patterns.length > 0) {
+      restrictions.push({
+        type: 'pattern',
+        value: patterns.length === 1 ? patterns[0] : patterns.map(pattern => `(${pattern})`).join('|')
+      });
+    }
+
+    return restrictions;
+  }
+
+  private parseAttribute(attributeNode: XmlNode, isGlobal = false): XsdAttribute {
+    if (!isGlobal && attributeNode.attributes.ref !== undefined) {
+      return this.parseAttributeReference(attributeNode);
+    }
+
+    // Global attributes always belong to the target namespace; local ones only when qualified
+    const form = isGlobal ? 'qualified' : this.parseForm(attributeNode.attributes.form, this.attributeFormDefault);
+    const attribute: XsdAttribute = {
       name: attributeNode.attributes.name || '',
-      type: attributeNode.attributes.type || 'string',
+      type: attributeNode.attributes.type ? this.resolveTypeReference(attributeNode, 'type') : 'string',
       use: (attributeNode.attributes.use as 'required' | 'optional' | 'prohibited') || 'optional',
       defaultValue: attributeNode.attributes.default,
-      fixedValue: attributeNode.attributes.fixed
+      fixedValue: attributeNode.attributes.fixed,
+      namespace: form === 'qualified' ? this.targetNamespace : undefined
     };
+
+    const inlineType = attributeNode.children.find(child => this.getLocalName(child.name) === 'simpleType');
+    if (inlineType) {
+      if (attributeNode.attributes.type !== undefined) {
+        this.addError(attributeNode.location, `Attribute '${attribute.name}' cannot have both a type and an inline simpleType`, 'SCHEMA_ERROR');
+      }
+      attribute.type = `#inline-${attribute.name}`;
+      attribute.simpleType = this.parseSimpleType(inlineType);
+    }
+
+    this.checkAttributeValueConstraint(attributeNode, attribute);
+    return attribute;
+  }
+
+  /**
+   * A declaration may give a default or a fixed value but not both, and a
+   * default only makes sense for an optional attribute.
+   */
+  private checkAttributeValueConstraint(attributeNode: XmlNode, attribute: XsdAttribute): void {
+    if (attributeNode.attributes.default !== undefined && attributeNode.attributes.fixed !== undefined) {
+      this.addError(attributeNode.location, `Attribute '${attribute.name}' cannot have both a default and a fixed value`, 'SCHEMA_ERROR');
+    } else if (attributeNode.attributes.default !== undefined && attribute.use !== 'optional') {
+      this.addError(attributeNode.location, `Attribute '${attribute.name}' with a default value must be optional`, 'SCHEMA_ERROR');
+    }
+  }
+
+  /**
+   * An attribute reference uses the global declaration's name, type and
+   * namespace; use, default and fixed given on the reference take precedence.
+   */
+  private parseAttributeReference(attributeNode: XmlNode): XsdAttribute {
+    const reference = this.resolveComponentReference(attributeNode, 'attribute');
+    const attribute: XsdAttribute = {
+      name: this.getLocalName(attributeNode.attributes.ref),
+      type: 'string',
+      use: (attributeNode.attributes.use as 'required' | 'optional' | 'prohibited') || 'optional'
+    };
+
+    if (reference) {
+      this.componentReferences.push({
+        reference,
+        resolve: schema => {
+          const declaration = schema.attributes[reference.key];
+          if (declaration) {
+            Object.assign(attribute, {
+              ...declaration,
+              use: attribute.use,
+              defaultValue: attributeNode.attributes.default ?? declaration.defaultValue,
+              fixedValue: attributeNode.attributes.fixed ?? declaration.fixedValue
+            });
+          }
+          return declaration !== undefined;
+        }
+      });
+    }
+
+    this.checkAttributeValueConstraint(attributeNode, attribute);
+    return attribute;
+  }
+
+  private parseBoolean(node: XmlNode, attrName: string): boolean {
+    const value = node.attributes[attrName]?.trim();
+    if (value !== undefined && !['true', 'false', '1', '0'].includes(value)) {
+      this.addError(node.attributeLocations?.[attrName] ?? node.location, `Invalid boolean value '${value}' for '${attrName}'`, 'SCHEMA_ERROR');
+    }
+    return value === 'true' || value === '1';
+  }
+
+  private parseForm(value: string | undefined, defaultForm: XsdForm = 'unqualified'): XsdForm {
+    if (value === undefined) {
+      return defaultForm;
+    }
+    if (value !== 'qualified' && value !== 'unqualified') {
+      throw new Error(`Invalid form value '${value}'`);
+    }
+    return value;
+  }
+
+  private addError(location: XmlLocation | undefined, message: string, code: string): void {
+    const line = location ? location.start.line : 1;
+    const column = location ? location.start.column : 1;
+    this.errors.push(this.source ? { line, column, message, code, source: this.source } : { line, column, message, code });
   }
 
   private getLocalName(name: string): string {
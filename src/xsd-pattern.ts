@@ -0,0 +1,441 @@
+import { NAME_START_CHARS, NAME_CHARS } from './xsd-datatypes';
+
+type CodePointRange = [number, number];
+
+const MAX_CODE_POINT = 0x10FFFF;
+
+/** Unicode 3.1 blocks, as named by \p{Is...} in XML Schema 1.0 */
+const BLOCKS: Record<string, CodePointRange[]> = {
+  BasicLatin: [[0x0000, 0x007F]],
+  'Latin-1Supplement': [[0x0080, 0x00FF]],
+  'LatinExtended-A': [[0x0100, 0x017F]],
+  'LatinExtended-B': [[0x0180, 0x024F]],
+  IPAExtensions: [[0x0250, 0x02AF]],
+  SpacingModifierLetters: [[0x02B0, 0x02FF]],
+  CombiningDiacriticalMarks: [[0x0300, 0x036F]],
+  Greek: [[0x0370, 0x03FF]],
+  Cyrillic: [[0x0400, 0x04FF]],
+  Armenian: [[0x0530, 0x058F]],
+  Hebrew: [[0x0590, 0x05FF]],
+  Arabic: [[0x0600, 0x06FF]],
+  Syriac: [[0x0700, 0x074F]],
+  Thaana: [[0x0780, 0x07BF]],
+  Devanagari: [[0x0900, 0x097F]],
+  Bengali: [[0x0980, 0x09FF]],
+  Gurmukhi: [[0x0A00, 0x0A7F]],
+  Gujarati: [[0x0A80, 0x0AFF]],
+  Oriya: [[0x0B00, 0x0B7F]],
+  Tamil: [[0x0B80, 0x0BFF]],
+  Telugu: [[0x0C00, 0x0C7F]],
+  Kannada: [[0x0C80, 0x0CFF]],
+  Malayalam: [[0x0D00, 0x0D7F]],
+  Sinhala: [[0x0D80, 0x0DFF]],
+  Thai: [[0x0E00, 0x0E7F]],
+  Lao: [[0x0E80, 0x0EFF]],
+  Tibetan: [[0x0F00, 0x0FFF]],
+  Myanmar: [[0x1000, 0x109F]],
+  Georgian: [[0x10A0, 0x10FF]],
+  HangulJamo: [[0x1100, 0x11FF]],
+  Ethiopic: [[0x1200, 0x137F]],
+  Cherokee: [[0x13A0, 0x13FF]],
+  UnifiedCanadianAboriginalSyllabics: [[0x1400, 0x167F]],
+  Ogham: [[0x1680, 0x169F]],
+  Runic: [[0x16A0, 0x16FF]],
+  Khmer: [[0x1780, 0x17FF]],
+  Mongolian: [[0x1800, 0x18AF]],
+  LatinExtendedAdditional: [[0x1E00, 0x1EFF]],
+  GreekExtended: [[0x1F00, 0x1FFF]],
+  GeneralPunctuation: [[0x2000, 0x206F]],
+  SuperscriptsandSubscripts: [[0x2070, 0x209F]],
+  CurrencySymbols: [[0x20A0, 0x20CF]],
+  CombiningMarksforSymbols: [[0x20D0, 0x20FF]],
+  LetterlikeSymbols: [[0x2100, 0x214F]],
+  NumberForms: [[0x2150, 0x218F]],
+  Arrows: [[0x2190, 0x21FF]],
+  MathematicalOperators: [[0x2200, 0x22FF]],
+  MiscellaneousTechnical: [[0x2300, 0x23FF]],
+  ControlPictures: [[0x2400, 0x243F]],
+  OpticalCharacterRecognition: [[0x2440, 0x245F]],
+  EnclosedAlphanumerics: [[0x2460, 0x24FF]],
+  BoxDrawing: [[0x2500, 0x257F]],
+  BlockElements: [[0x2580, 0x259F]],
+  GeometricShapes: [[0x25A0, 0x25FF]],
+  MiscellaneousSymbols: [[0x2600, 0x26FF]],
+  Dingbats: [[0x2700, 0x27BF]],
+  BraillePatterns: [[0x2800, 0x28FF]],
+  CJKRadicalsSupplement: [[0x2E80, 0x2EFF]],
+  KangxiRadicals: [[0x2F00, 0x2FDF]],
+  IdeographicDescriptionCharacters: [[0x2FF0, 0x2FFF]],
+  CJKSymbolsandPunctuation: [[0x3000, 0x303F]],
+  Hiragana: [[0x3040, 0x309F]],
+  Katakana: [[0x30A0, 0x30FF]],
+  Bopomofo: [[0x3100, 0x312F]],
+  HangulCompatibilityJamo: [[0x3130, 0x318F]],
+  Kanbun: [[0x3190, 0x319F]],
+  BopomofoExtended: [[0x31A0, 0x31BF]],
+  EnclosedCJKLettersandMonths: [[0x3200, 0x32FF]],
+  CJKCompatibility: [[0x3300, 0x33FF]],
+  CJKUnifiedIdeographsExtensionA: [[0x3400, 0x4DB5]],
+  CJKUnifiedIdeographs: [[0x4E00, 0x9FFF]],
+  YiSyllables: [[0xA000, 0xA48F]],
+  YiRadicals: [[0xA490, 0xA4CF]],
+  HangulSyllables: [[0xAC00, 0xD7A3]],
+  HighSurrogates: [[0xD800, 0xDB7F]],
+  HighPrivateUseSurrogates: [[0xDB80, 0xDBFF]],
+  LowSurrogates: [[0xDC00, 0xDFFF]],
+  PrivateUse: [[0xE000, 0xF8FF], [0xF0000, 0xFFFFD], [0x100000, 0x10FFFD]],
+  CJKCompatibilityIdeographs: [[0xF900, 0xFAFF]],
+  AlphabeticPresentationForms: [[0xFB00, 0xFB4F]],
+  'ArabicPresentationForms-A': [[0xFB50, 0xFDFF]],
+  CombiningHalfMarks: [[0xFE20, 0xFE2F]],
+  CJKCompatibilityForms: [[0xFE30, 0xFE4F]],
+  SmallFormVariants: [[0xFE50, 0xFE6F]],
+  'ArabicPresentationForms-B': [[0xFE70, 0xFEFE]],
+  Specials: [[0xFEFF, 0xFEFF], [0xFFF0, 0xFFFD]],
+  HalfwidthandFullwidthForms: [[0xFF00, 0xFFEF]],
+  OldItalic: [[0x10300, 0x1032F]],
+  Gothic: [[0x10330, 0x1034F]],
+  Deseret: [[0x10400, 0x1044F]],
+  ByzantineMusicalSymbols: [[0x1D000, 0x1D0FF]],
+  MusicalSymbols: [[0x1D100, 0x1D1FF]],
+  MathematicalAlphanumericSymbols: [[0x1D400, 0x1D7FF]],
+  CJKUnifiedIdeographsExtensionB: [[0x20000, 0x2A6D6]],
+  CJKCompatibilityIdeographsSupplement: [[0x2F800, 0x2FA1F]],
+  Tags: [[0xE0000, 0xE007F]]
+};
+
+/** General categories XML Schema allows in \p{...}; JavaScript knows them by the same names */
+const CATEGORIES = new Set([
+  'L', 'Lu', 'Ll', 'Lt', 'Lm', 'Lo', 'M', 'Mn', 'Mc', 'Me', 'N', 'Nd', 'Nl', 'No',
+  'P', 'Pc', 'Pd', 'Ps', 'Pe', 'Pi', 'Pf', 'Po', 'Z', 'Zs', 'Zl', 'Zp',
+  'S', 'Sm', 'Sc', 'Sk', 'So', 'C', 'Cc', 'Cf', 'Co', 'Cn'
+]);
+
+const SINGLE_CHAR_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t' };
+const ESCAPABLE_CHARS = '\\|.?*+(){}-[]^';
+/** Characters JavaScript reads as syntax, escaped when they stand for themselves */
+const SYNTAX_CHARS = '\\^$.*+?()[]{}|/';
+
+const NAME_START_RANGES = parseRanges(`:${NAME_START_CHARS}`, [[0x10000, 0xEFFFF]]);
+const NAME_RANGES = parseRanges(`:${NAME_CHARS}`, [[0x10000, 0xEFFFF]]);
+const SPACE_RANGES: CodePointRange[] = [[0x09, 0x0A], [0x0D, 0x0D], [0x20, 0x20]];
+
+const compiledPatterns = new Map<string, RegExp>();
+
+/**
+ * Compiles an XML Schema regular expression into a JavaScript RegExp that
+ * matches whole values. Throws a SyntaxError when the pattern is not valid
+ * XML Schema syntax.
+ */
+export function compileXsdPattern(pattern: string): RegExp {
+  let compiled = compiledPatterns.get(pattern);
+  if (!compiled) {
+    compiled = new RegExp(`^(?:${new XsdPatternTranslator(pattern).translate()})$`, 'u');
+    compiledPatterns.set(pattern, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Reads ranges written as class content with \uXXXX escapes, as the name
+ * character constants are.
+ */
+function parseRanges(classContent: string, extra: CodePointRange[]): CodePointRange[] {
+  const codePoint = (char: string) => char.startsWith('\\u') ? parseInt(char.substring(2), 16) : char.codePointAt(char.length - 1)!;
+  const ranges: CodePointRange[] = [];
+  for (const [, start, end] of classContent.matchAll(/(\\u[0-9A-Fa-f]{4}|\\.|.)(?:-(\\u[0-9A-Fa-f]{4}|\\.|.))?/gu)) {
+    ranges.push([codePoint(start), codePoint(end ?? start)]);
+  }
+  return [...ranges, ...extra];
+}
+
+function complement(ranges: CodePointRange[]): CodePointRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const result: CodePointRange[] = [];
+  let next = 0;
+  for (const [start, end] of sorted) {
+    if (start > next) {
+      result.push([next, start - 1]);
+    }
+    next = Math.max(next, end + 1);
+  }
+  if (next <= MAX_CODE_POINT) {
+    result.push([next, MAX_CODE_POINT]);
+  }
+  return result;
+}
+
+function toClassContent(ranges: CodePointRange[]): string {
+  const hex = (code: number) => `\\u{${code.toString(16).toUpperCase()}}`;
+  return ranges.map(([start, end]) => start === end ? hex(start) : `${hex(start)}-${hex(end)}`).join('');
+}
+
+function escapeChar(char: string, inClass = false): string {
+  return SYNTAX_CHARS.includes(char) || (inClass && char === '-') ? `\\${char}` : char;
+}
+
+/**
+ * Character class escapes, as JavaScript class content when they can be
+ * written that way and as a whole atom otherwise.
+ */
+interface ClassEscape {
+  content?: string;
+  atom: string;
+}
+
+/**
+ * Translates one pattern. XML Schema regular expressions differ from
+ * JavaScript ones: they always match whole values, have no anchors, no
+ * groups other than plain ones and no lazy quantifiers, know the name
+ * character escapes \i and \c and Unicode blocks, define \d and \w over all
+ * of Unicode, and allow subtracting classes as in [a-z-[aeiou]].
+ */
+class XsdPatternTranslator {
+  private chars: string[];
+  private position = 0;
+
+  constructor(private pattern: string) {
+    this.chars = Array.from(pattern);
+  }
+
+  translate(): string {
+    const result = this.readBranches();
+    if (this.position < this.chars.length) {
+      this.fail(`unexpected '${this.chars[this.position]}'`);
+    }
+    return result;
+  }
+
+  private readBranches(): string {
+    let result = this.readBranch();
+    while (this.current() === '|') {
+      this.position++;
+      result += `|${this.readBranch()}`;
+    }
+    return result;
+  }
+
+  private readBranch(): string {
+    let result = '';
+    while (this.position < this.chars.length && this.current() !== '|' && this.current() !== ')') {
+      result += this.readAtom() + this.readQuantifier();
+    }
+    return result;
+  }
+
+  private readAtom(): string {
+    const char = this.current();
+    this.position++;
+    switch (char) {
+      case '(':
+        if (this.current() === '?') {
+          this.fail("groups cannot start with '?'");
+        }
+        const group = this.readBranches();
+        if (this.current() !== ')') {
+          this.fail("missing ')'");
+        }
+        this.position++;
+        return `(${group})`;
+      case '[':
+        return this.readClass();
+      case '\\':
+        return this.readEscape().atom;
+      case '.':
+        return '[^\\n\\r]';
+      case '?':
+      case '*':
+      case '+':
+      case '{':
+      case ']':
+      case '}':
+        return this.fail(`unexpected '${char}'`);
+      default:
+        return escapeChar(char);
+    }
+  }
+
+  private readQuantifier(): string {
+    const char = this.current();
+    if (char === '?' || char === '*' || char === '+') {
+      this.position++;
+      return char;
+    }
+    if (char !== '{') {
+      return '';
+    }
+    const match = /^\{(\d+)(,(\d*))?\}/.exec(this.chars.slice(this.position, this.position + 40).join(''));
+    if (!match || (match[3] && Number(match[3]) < Number(match[1]))) {
+      this.fail('invalid quantifier');
+    }
+    this.position += match![0].length;
+    return match![0];
+  }
+
+  /**
+   * Reads a class after its '['. Negative escapes that JavaScript classes
+   * cannot hold make the class an alternation.
+   */
+  private readClass(): string {
+    const negated = this.current() === '^';
+    if (negated) {
+      this.position++;
+    }
+
+    let content = '';
+    const atoms: string[] = [];
+    let subtracted: string | undefined;
+    let first = true;
+    while (this.current() !== ']') {
+      if (this.position >= this.chars.length) {
+        this.fail("missing ']'");
+      }
+      if (this.current() === '-' && this.peek() === '[') {
+        this.position += 2;
+        subtracted = this.readClass();
+        if (this.current() !== ']') {
+          this.fail('a subtraction must end the class');
+        }
+        break;
+      }
+      if (this.current() === '[' || (this.current() === '-' && !first && this.peek() !== ']')) {
+        this.fail(`unexpected '${this.current()}' in a class`);
+      }
+
+      const start = this.readClassChar();
+      if (typeof start !== 'string') {
+        if (start.content === undefined) {
+          atoms.push(start.atom);
+        } else {
+          content += start.content;
+        }
+      } else if (this.current() === '-' && this.peek() !== ']' && this.peek() !== '[') {
+        this.position++;
+        const end = this.readClassChar();
+        if (typeof end !== 'string' || end.codePointAt(0)! < start.codePointAt(0)!) {
+          this.fail('invalid range in a class');
+        }
+        content += `${escapeChar(start, true)}-${escapeChar(end as string, true)}`;
+      } else {
+        content += escapeChar(start, true);
+      }
+      first = false;
+    }
+    this.position++;
+
+    if (content === '' && atoms.length === 0) {
+      this.fail('empty class');
+    }
+    let result = atoms.length === 0 && !negated
+      ? `[${content}]`
+      : atoms.length === 0
+        ? `[^${content}]`
+        : negated
+          ? `(?:(?!${[`[${content}]`, ...atoms].join('|')})[\\s\\S])`
+          : `(?:${[`[${content}]`, ...atoms].join('|')})`;
+    if (subtracted !== undefined) {
+      result = `(?:(?!${subtracted})${result})`;
+    }
+    return result;
+  }
+
+  /**
+   * Reads a character of a class, or a class escape.
+   */
+  private readClassChar(): string | ClassEscape {
+    const char = this.current();
+    this.position++;
+    if (char !== '\\') {
+      return char;
+    }
+    const escaped = this.current();
+    if (escaped in SINGLE_CHAR_ESCAPES || ESCAPABLE_CHARS.includes(escaped)) {
+      this.position++;
+      return SINGLE_CHAR_ESCAPES[escaped] ?? escaped;
+    }
+    return this.readEscape();
+  }
+
+  /**
+   * Reads an escape after its '\'.
+   */
+  private readEscape(): ClassEscape {
+    const char = this.current();
+    this.position++;
+    if (char in SINGLE_CHAR_ESCAPES) {
+      const escaped = SINGLE_CHAR_ESCAPES[char] === '\n' ? '\\n' : SINGLE_CHAR_ESCAPES[char] === '\r' ? '\\r' : '\\t';
+      return { content: escaped, atom: escaped };
+    }
+    if (ESCAPABLE_CHARS.includes(char)) {
+      return { content: escapeChar(char, true), atom: escapeChar(char) };
+    }
+
+    switch (char) {
+      case 'd':
+        return { content: '\\p{Nd}', atom: '\\p{Nd}' };
+      case 'D':
+        return { content: '\\P{Nd}', atom: '\\P{Nd}' };
+      case 'w':
+        // Everything but punctuation, separators and other characters
+        return { atom: '[^\\p{P}\\p{Z}\\p{C}]' };
+      case 'W':
+        return { content: '\\p{P}\\p{Z}\\p{C}', atom: '[\\p{P}\\p{Z}\\p{C}]' };
+      case 's':
+        return this.rangeEscape(SPACE_RANGES);
+      case 'S':
+        return this.rangeEscape(complement(SPACE_RANGES));
+      case 'i':
+        return this.rangeEscape(NAME_START_RANGES);
+      case 'I':
+        return this.rangeEscape(complement(NAME_START_RANGES));
+      case 'c':
+        return this.rangeEscape(NAME_RANGES);
+      case 'C':
+        return this.rangeEscape(complement(NAME_RANGES));
+      case 'p':
+      case 'P':
+        return this.readProperty(char === 'P');
+      default:
+        return this.fail(char === undefined ? "incomplete escape '\\'" : `unknown escape '\\${char}'`);
+    }
+  }
+
+  private readProperty(negated: boolean): ClassEscape {
+    const match = /^\{([^}]*)\}/.exec(this.chars.slice(this.position, this.position + 64).join(''));
+    if (!match) {
+      this.fail(`expected '{' after '\\${negated ? 'P' : 'p'}'`);
+    }
+    this.position += match![0].length;
+    const name = match![1];
+
+    if (name.startsWith('Is')) {
+      const block = BLOCKS[name.substring(2)];
+      if (!block) {
+        this.fail(`unknown block '${name}'`);
+      }
+      return this.rangeEscape(negated ? complement(block) : block);
+    }
+    if (!CATEGORIES.has(name)) {
+      this.fail(`unknown character category '${name}'`);
+    }
+    const property = `\\${negated ? 'P' : 'p'}{${name}}`;
+    return { content: property, atom: property };
+  }
+
+  private rangeEscape(ranges: CodePointRange[]): ClassEscape {
+    const content = toClassContent(ranges);
+    return { content, atom: `[${content}]` };
+  }
+
+  private current(): string {
+    return this.chars[this.position];
+  }
+
+  private peek(): string {
+    return this.chars[this.position + 1];
+  }
+
+  private fail(reason: string): never {
+    throw new SyntaxError(`Invalid pattern '${this.pattern}': ${reason}`);
+  }
+}